@@ -2,6 +2,20 @@ import { ActionSource } from '../model/action'
 
 export const actions: ActionSource[] = [
     { id: 'report', name: 'Fusion report', description: 'Generate fusion report' },
-    { id: 'fusion', name: 'Fusion account', description: 'Create a fusion account' },
+    {
+        id: 'fusion',
+        name: 'Fusion account',
+        description: 'Force the account in the fusionTarget attribute into this fusion identity, or into a new one',
+    },
     { id: 'correlated', name: 'Correlate accounts', description: 'Correlate missing source accounts' },
+    {
+        id: 'evaluate',
+        name: 'Matching evaluation',
+        description: 'Replay reviewer decisions with the candidate matching configuration and report the results',
+    },
+    {
+        id: 'identities',
+        name: 'Duplicate identities',
+        description: 'Compare fusion identities with each other and report the potential duplicates',
+    },
 ]
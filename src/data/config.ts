@@ -1,4 +1,5 @@
 import { ConnectorError, ConnectorErrorType, readConfig, logger } from '@sailpoint/connector-sdk'
+import { isSupportedCountry } from 'libphonenumber-js'
 import { FusionConfig, SourceConfig } from '../model/config'
 
 /**
@@ -95,6 +96,7 @@ export const safeReadConfig = async (): Promise<FusionConfig> => {
     config.sources = config.sources ?? []
     config.fusionFormAttributes = config.fusionFormAttributes ?? []
     config.matchingConfigs = config.matchingConfigs ?? []
+    config.fusionEvaluationMatchingConfigs = config.fusionEvaluationMatchingConfigs ?? []
 
     // ============================================================================
     // Source Settings defaults
@@ -107,6 +109,10 @@ export const safeReadConfig = async (): Promise<FusionConfig> => {
             ...sourceConfig,
             forceAggregation: sourceConfig.forceAggregation ?? false,
             accountFilter: sourceConfig.accountFilter ?? undefined,
+            useMatchingProfile: sourceConfig.useMatchingProfile ?? false,
+            matchingConfigs: sourceConfig.matchingConfigs ?? [],
+            fusionUseAverageScore: sourceConfig.fusionUseAverageScore ?? false,
+            fusionAverageScore: sourceConfig.fusionAverageScore ?? 80,
         }
     })
 
@@ -132,11 +138,39 @@ export const safeReadConfig = async (): Promise<FusionConfig> => {
     // ============================================================================
     // Default from connector-spec.json: fusionExpirationDays: 7
     config.fusionFormExpirationDays = config.fusionFormExpirationDays ?? 7
+    config.fusionUnmergeMode = config.fusionUnmergeMode ?? 'review'
     config.fusionMergingIdentical = config.fusionMergingIdentical ?? false
     config.fusionUseAverageScore = config.fusionUseAverageScore ?? false
     // fusionAverageScore is only used when fusionUseAverageScore is true
     // Default to 80 (80% similarity threshold) if not specified
     config.fusionAverageScore = config.fusionAverageScore ?? 80
+    config.fusionPenalizeMissingAttributes = config.fusionPenalizeMissingAttributes ?? false
+    config.fusionUseNameAliases = config.fusionUseNameAliases ?? true
+    config.fusionNameAliases = config.fusionNameAliases ?? []
+    config.fusionUseTransliteration = config.fusionUseTransliteration ?? false
+    config.fusionEmailNormalizedDomains = config.fusionEmailNormalizedDomains ?? []
+    config.fusionPhoneDefaultRegion = (config.fusionPhoneDefaultRegion ?? 'US').trim().toUpperCase()
+    config.fusionUseProbabilisticScore = config.fusionUseProbabilisticScore ?? false
+    // Match weights are log2 likelihood ratios: 0 means as likely a match as a non-match
+    config.fusionProbabilisticReviewScore = config.fusionProbabilisticReviewScore ?? 0
+    config.fusionProbabilisticMatchScore = config.fusionProbabilisticMatchScore ?? 10
+    config.fusionUseMatchBands = config.fusionUseMatchBands ?? false
+    // Match band defaults keep every match in review until configured
+    config.fusionAutoCorrelationScore = config.fusionAutoCorrelationScore ?? 100
+    config.fusionRejectScore = config.fusionRejectScore ?? 0
+    // Blocking is opt-in; without keys every account is compared against every identity
+    config.fusionUseBlocking = config.fusionUseBlocking ?? false
+    config.fusionBlockingKeys = config.fusionBlockingKeys ?? []
+    config.fusionVetoRules = config.fusionVetoRules ?? []
+    config.fusionSuppressRejectedPairs = config.fusionSuppressRejectedPairs ?? true
+    config.fusionSuppressionExpirationDays = config.fusionSuppressionExpirationDays ?? 365
+    config.fusionDeduplicateNewAccounts = config.fusionDeduplicateNewAccounts ?? false
+    // Cluster review is opt-in; complete linkage only groups accounts that all match each other
+    config.fusionUseClusterReview = config.fusionUseClusterReview ?? false
+    config.fusionClusterLinkage = config.fusionClusterLinkage ?? 'complete'
+    config.fusionClusterAverageScore = config.fusionClusterAverageScore ?? 50
+    config.fusionScanIdentities = config.fusionScanIdentities ?? false
+    config.fusionIdentityMergeForms = config.fusionIdentityMergeForms ?? false
 
     // ============================================================================
     // Advanced Connection Settings defaults
@@ -162,6 +196,7 @@ export const safeReadConfig = async (): Promise<FusionConfig> => {
     // Developer Settings defaults
     // ============================================================================
     config.reset = config.reset ?? false
+    config.dryRun = config.dryRun ?? false
     // Default from connector-spec.json: provisioningTimeout: 300
     config.provisioningTimeout = config.provisioningTimeout ?? 300
     config.externalLoggingEnabled = config.externalLoggingEnabled ?? false
@@ -169,6 +204,45 @@ export const safeReadConfig = async (): Promise<FusionConfig> => {
     // Default to 'info' level for external logging if enabled but level not specified
     config.externalLoggingLevel = config.externalLoggingLevel ?? 'info'
 
+    if (config.fusionUseMatchBands) {
+        assert(
+            config.fusionRejectScore >= 0 && config.fusionAutoCorrelationScore <= 100,
+            'Match band scores must be between 0 and 100'
+        )
+        assert(
+            config.fusionAutoCorrelationScore >= config.fusionRejectScore,
+            'Auto-correlation band must not be lower than the reject band'
+        )
+    }
+
+    assert(
+        isSupportedCountry(config.fusionPhoneDefaultRegion),
+        `Default phone region ${config.fusionPhoneDefaultRegion} is not a supported country code`
+    )
+
+    if (config.fusionUseProbabilisticScore) {
+        assert(
+            !config.fusionUseAverageScore,
+            'Probabilistic scoring and overall fusion similarity score cannot be enabled at the same time'
+        )
+        assert(
+            config.fusionProbabilisticMatchScore >= config.fusionProbabilisticReviewScore,
+            'Probabilistic auto-correlation threshold must not be lower than the review threshold'
+        )
+        logger.debug(
+            `Using probabilistic scoring: review at ${config.fusionProbabilisticReviewScore}, auto-correlate at ${config.fusionProbabilisticMatchScore}`
+        )
+    }
+
+    for (const matchingConfig of config.fusionEvaluationMatchingConfigs) {
+        assert(matchingConfig.attribute, 'Evaluation matching config attribute is required')
+        assert(
+            matchingConfig.fusionScore === undefined ||
+                (matchingConfig.fusionScore >= 0 && matchingConfig.fusionScore <= 100),
+            `Evaluation fusion score for attribute ${matchingConfig.attribute} must be between 0 and 100`
+        )
+    }
+
     if (config.fusionUseAverageScore) {
         assert(
             config.fusionAverageScore !== undefined,
@@ -179,6 +253,13 @@ export const safeReadConfig = async (): Promise<FusionConfig> => {
             'Fusion average score must be between 0 and 100'
         )
 
+        for (const matchingConfig of config.matchingConfigs) {
+            assert(
+                matchingConfig.weight === undefined || matchingConfig.weight >= 0,
+                `Weight for attribute ${matchingConfig.attribute} must not be negative`
+            )
+        }
+
         config.getScore = (): number => {
             return config.fusionAverageScore!
         }
@@ -216,6 +297,57 @@ export const safeReadConfig = async (): Promise<FusionConfig> => {
         logger.debug(`Using per-attribute fusion scores for ${config.fusionScoreMap.size} attribute(s)`)
     }
 
+    for (const vetoRule of config.fusionVetoRules) {
+        assert(vetoRule.attribute, 'Veto rule attribute is required')
+        assert(
+            ['reject', 'review'].includes(vetoRule.action),
+            `Veto rule action for attribute ${vetoRule.attribute} must be one of: reject, review`
+        )
+    }
+
+    for (const sourceConfig of config.sources) {
+        if (!sourceConfig.useMatchingProfile) continue
+        softAssert(
+            sourceConfig.matchingConfigs!.length > 0,
+            `No matching configurations defined for source ${sourceConfig.name} - its accounts will not match`,
+            'warn'
+        )
+        for (const matchingConfig of sourceConfig.matchingConfigs!) {
+            assert(matchingConfig.attribute, `Matching config attribute is required for source ${sourceConfig.name}`)
+            assert(
+                matchingConfig.fusionScore === undefined ||
+                    (matchingConfig.fusionScore >= 0 && matchingConfig.fusionScore <= 100),
+                `Fusion score for attribute ${matchingConfig.attribute} of source ${sourceConfig.name} must be between 0 and 100`
+            )
+        }
+        if (sourceConfig.fusionUseAverageScore) {
+            assert(
+                !config.fusionUseProbabilisticScore,
+                `Probabilistic scoring and the overall fusion similarity score of source ${sourceConfig.name} cannot be enabled at the same time`
+            )
+            assert(
+                sourceConfig.fusionAverageScore! >= 0 && sourceConfig.fusionAverageScore! <= 100,
+                `Fusion average score of source ${sourceConfig.name} must be between 0 and 100`
+            )
+        }
+        logger.debug(
+            `Using matching profile of source ${sourceConfig.name} with ${sourceConfig.matchingConfigs!.length} attribute match(es)`
+        )
+    }
+
+    assert(config.fusionSuppressionExpirationDays! >= 0, 'Suppression expiration days must be 0 or greater')
+
+    if (config.fusionUseClusterReview) {
+        assert(
+            ['single', 'average', 'complete'].includes(config.fusionClusterLinkage ?? ''),
+            'Cluster linkage must be one of: single, average, complete'
+        )
+        assert(
+            config.fusionClusterAverageScore! >= 0 && config.fusionClusterAverageScore! <= 100,
+            'Cluster average score must be between 0 and 100'
+        )
+    }
+
     // Validate external logging configuration if enabled
     if (config.externalLoggingEnabled) {
         assert(config.externalLoggingUrl, 'External logging URL is required when external logging is enabled')
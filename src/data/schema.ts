@@ -19,6 +19,12 @@ export const fusionAccountSchemaAttributes: SchemaAttribute[] = [
         type: 'string',
         multi: true,
     },
+    {
+        name: 'decisions',
+        description: 'Fusion decision ledger',
+        type: 'string',
+        multi: true,
+    },
     {
         name: 'statuses',
         description: 'Statuses',
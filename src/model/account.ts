@@ -4,7 +4,7 @@ import { toSetFromAttribute as attributeToSet } from '../utils/attributes'
 import { FusionDecision } from './form'
 import { FusionConfig, SourceConfig } from './config'
 import { Attributes, SimpleKeyType } from '@sailpoint/connector-sdk'
-import { FusionMatch } from '../services/scoringService'
+import { FusionMatch, MatchBand } from '../services/scoringService'
 import { attrConcat, attrSplit } from '../services/attributeService/helpers'
 
 type AttributeBag = {
@@ -53,10 +53,12 @@ export class FusionAccount {
     private _reviews: Set<string> = new Set()
     private _sources: Set<string> = new Set()
     private _previousAccountIds: Set<string> = new Set()
+    private _processedAccountIds: Set<string> = new Set()
     private _correlationPromises: Array<Promise<unknown>> = []
     private _pendingReviewUrls: Set<string> = new Set()
     private _reviewPromises: Array<Promise<string | undefined>> = []
     private _fusionMatches: FusionMatch[] = []
+    private _rejectedFusionMatches: FusionMatch[] = []
     private _history: string[] = []
 
     // Attribute management
@@ -353,6 +355,10 @@ export class FusionAccount {
         return [...this._fusionMatches]
     }
 
+    public get rejectedFusionMatches(): FusionMatch[] {
+        return [...this._rejectedFusionMatches]
+    }
+
     public get history(): string[] {
         return [...this._history]
     }
@@ -633,6 +639,21 @@ export class FusionAccount {
         this._isMatch = true
     }
 
+    /**
+     * Keep a match that fell in the reject band for reporting, without flagging the account as a match
+     */
+    public addRejectedFusionMatch(fusionMatch: FusionMatch): void {
+        this._rejectedFusionMatches.push(fusionMatch)
+    }
+
+    /**
+     * Record the match band that decided how a potential duplicate account was handled
+     */
+    public addMatchBand(band: MatchBand, account: string, reason?: string): void {
+        const details = reason ? `: ${reason}` : ''
+        this.addHistory(`Match band ${band} for ${account}${details}`)
+    }
+
     // ============================================================================
     // Mutation Methods - History
     // ============================================================================
@@ -814,20 +835,20 @@ export class FusionAccount {
      * Uses _previousAccountIds as the baseline of what was stored on the fusion
      * account in the previous run. Any previous ID that did not have a managed
      * account match in this run is discarded from both _accountIds and
-     * _missingAccountIds.
+     * _missingAccountIds. Matches of earlier layers in the same run count as well,
+     * so a later decision layer does not discard the accounts already attached.
      *
      * After rebuilding, _previousAccountIds is updated to the union of the
      * current account and missing-account IDs so that it can be used as the
      * baseline on the next run.
      */
     private rebuildAccountSetsAfterManagedLayer(processedAccountIds: string[]): void {
+        processedAccountIds.forEach((id) => this._processedAccountIds.add(id))
         if (this._previousAccountIds.size > 0) {
-            const processedSet = new Set(processedAccountIds)
-
             // Drop any previously stored IDs that did not have a managed
             // account match in this run.
             for (const id of this._previousAccountIds) {
-                if (!processedSet.has(id)) {
+                if (!this._processedAccountIds.has(id)) {
                     this._missingAccountIds.delete(id)
                     this._accountIds.delete(id)
                 }
@@ -840,12 +861,16 @@ export class FusionAccount {
     }
 
     public addFusionDecisionLayer(decision: FusionDecision): void {
-        this.setUncorrelatedAccount(decision.account.id!)
-
-        if (decision.newIdentity) {
-            this.setManual(decision)
-        } else {
-            this.setAuthorized(decision)
+        // Cluster reviews decide for every account of the cluster at once
+        const accounts = [decision.account, ...(decision.clusterAccounts ?? [])]
+        for (const account of accounts) {
+            this.setUncorrelatedAccount(account.id!)
+
+            if (decision.newIdentity) {
+                this.setManual({ ...decision, account })
+            } else {
+                this.setAuthorized({ ...decision, account })
+            }
         }
     }
 
@@ -1005,33 +1030,24 @@ export class FusionAccount {
     /**
      * Remove a source account and update orphan status if needed
      */
-    public removeSourceAccount(id: string): void {
-        const accounts = this._attributeBag.current.accounts as any
-
-        if (accounts instanceof Set) {
-            accounts.delete(id)
+    public removeSourceAccount(id: string, message?: string): void {
+        this._accountIds.delete(id)
+        this._missingAccountIds.delete(id)
+        this._previousAccountIds.delete(id)
 
-            if (accounts.size === 0) {
-                this.markAsOrphan()
-                this.addHistory(`Account became orphan after removing source account: ${id}`)
-            }
+        if (this._accountIds.size === 0 && !this._statuses.has('baseline')) {
+            this.markAsOrphan()
+            this.addHistory(`Account became orphan after removing source account: ${id}`)
         }
 
-        this.addHistory(`Source account removed: ${id}`)
+        this.addHistory(message ?? `Source account removed: ${id}`)
     }
 
     /**
      * Mark account as orphan by updating statuses
      */
     private markAsOrphan(): void {
-        if (!this._attributeBag.current.statuses) {
-            this._attributeBag.current.statuses = new Set<string>() as any
-        }
-
-        const statuses = this._attributeBag.current.statuses as any
-        if (statuses instanceof Set) {
-            statuses.add('orphan')
-        }
+        this._statuses.add('orphan')
     }
 
     public generateAttributes(): void {
@@ -1,3 +1,5 @@
+import { FusionDecisionLedgerEntry } from './form'
+
 export interface BaseConfig {
     beforeProvisioningRule: string | null
     cloudCacheUpdate: number
@@ -46,9 +48,62 @@ export interface AttributeDefinition {
 
 export interface MatchingConfig {
     attribute: string
-    algorithm?: 'name-matcher' | 'jaro-winkler' | 'lig3' | 'dice' | 'double-metaphone' | 'average' | 'custom'
+    /**
+     * Account attributes compared instead of attribute, joined with spaces
+     * (e.g. firstname and lastname against the identity's displayName)
+     */
+    accountAttributes?: string[]
+    /**
+     * Identity attributes compared instead of attribute, joined with spaces
+     */
+    identityAttributes?: string[]
+    algorithm?:
+        | 'name-matcher'
+        | 'jaro-winkler'
+        | 'lig3'
+        | 'dice'
+        | 'double-metaphone'
+        | 'date'
+        | 'email'
+        | 'phone'
+        | 'address'
+        | 'veto'
+        | 'average'
+        | 'probabilistic'
+        | 'custom'
+    /**
+     * Name of the registered scorer used when algorithm is 'custom'.
+     */
+    customAlgorithm?: string
     fusionScore?: number
     mandatory?: boolean
+    /**
+     * Relative weight of this attribute in the overall score (defaults to 1).
+     */
+    weight?: number
+}
+
+export interface BlockingKeyConfig {
+    attribute: string
+    method: 'prefix' | 'phonetic' | 'email-local' | 'email-domain' | 'date' | 'exact'
+    /**
+     * Number of leading characters used by the 'prefix' method.
+     */
+    length?: number
+}
+
+/**
+ * How a pair breaking a veto rule is handled: 'reject' never merges it,
+ * 'review' sends it to a reviewer instead of auto-correlating it.
+ */
+export type VetoAction = 'reject' | 'review'
+
+/**
+ * Negative evidence: a pair whose values of the attribute are both present and differ is vetoed.
+ */
+export interface VetoRuleConfig {
+    attribute: string
+    action: VetoAction
 }
 
 // ============================================================================
@@ -81,6 +136,13 @@ export interface SourceConfig {
     forceAggregation?: boolean
     accountFilter?: string
     accountLimit?: number
+    /**
+     * Score the accounts of this source with the matching profile below instead of the global one
+     */
+    useMatchingProfile?: boolean
+    matchingConfigs?: MatchingConfig[]
+    fusionUseAverageScore?: boolean
+    fusionAverageScore?: number
 }
 
 // Sources Section
@@ -148,6 +210,90 @@ export interface MatchingSettingsSection {
     fusionUseAverageScore: boolean
     fusionAverageScore?: number
     fusionMergingIdentical: boolean
+    /**
+     * Let the name matcher count known given-name aliases (e.g. "Bob" and "Robert") as token matches.
+     * fusionNameAliases adds tenant alias groups, each a comma-separated list of names, to the bundled ones.
+     */
+    fusionUseNameAliases?: boolean
+    fusionNameAliases?: string[]
+    /**
+     * Romanize values in non-Latin scripts (Cyrillic, Greek, CJK, ...) before scoring,
+     * comparing every romanization variant and keeping the best score.
+     */
+    fusionUseTransliteration?: boolean
+    /**
+     * Email domains whose local parts ignore dots and plus-tags (e.g. gmail.com), for the email algorithm
+     */
+    fusionEmailNormalizedDomains?: string[]
+    /**
+     * ISO country code assumed by the phone algorithm for numbers without an international prefix
+     */
+    fusionPhoneDefaultRegion?: string
+    /**
+     * In overall score mode, count attributes missing on either side as a 0 score instead of skipping them.
+     */
+    fusionPenalizeMissingAttributes?: boolean
+    /**
+     * Score with Fellegi-Sunter match weights learned from reviewer decisions instead of thresholds alone.
+     * Scores at or above fusionProbabilisticMatchScore are auto-correlated, scores at or above
+     * fusionProbabilisticReviewScore are sent for review, anything below is a non-match.
+     */
+    fusionUseProbabilisticScore?: boolean
+    fusionProbabilisticMatchScore?: number
+    fusionProbabilisticReviewScore?: number
+    /**
+     * Split matches into bands by overall score: auto-correlate at or above fusionAutoCorrelationScore,
+     * reject below fusionRejectScore, review in between. Probabilistic scoring uses its own thresholds.
+     */
+    fusionUseMatchBands?: boolean
+    fusionAutoCorrelationScore?: number
+    fusionRejectScore?: number
+    /**
+     * Only compare accounts against identities sharing at least one blocking key.
+     */
+    fusionUseBlocking?: boolean
+    fusionBlockingKeys?: BlockingKeyConfig[]
+    /**
+     * Attributes that veto a match when both sides have a value and the values differ (e.g. national ID).
+     */
+    fusionVetoRules?: VetoRuleConfig[]
+    /**
+     * Skip pairs a reviewer found not to be duplicates: the candidates of a "new identity" decision
+     * and identities a reviewer decided not to merge.
+     */
+    fusionSuppressRejectedPairs?: boolean
+    /**
+     * Days a rejected pair stays suppressed. 0 keeps it suppressed indefinitely.
+     */
+    fusionSuppressionExpirationDays?: number
+    /**
+     * Also compare new accounts that match no identity against each other and against fusion accounts without identity.
+     */
+    fusionDeduplicateNewAccounts?: boolean
+    /**
+     * Group accounts sent to review and their candidate identities into clusters of mutual duplicates,
+     * and create one review form per cluster.
+     */
+    fusionUseClusterReview?: boolean
+    fusionClusterLinkage?: 'single' | 'average' | 'complete'
+    /**
+     * Minimum average pair score for average linkage, counting pairs that did not match as 0.
+     */
+    fusionClusterAverageScore?: number
+    /**
+     * Compare fusion identities with each other on every aggregation to find identities created separately
+     * for the same person. The identities action runs the same scan on demand.
+     */
+    fusionScanIdentities?: boolean
+    /**
+     * Create review forms for duplicate identities, asking which identity absorbs the other's accounts.
+     */
+    fusionIdentityMergeForms?: boolean
+    /**
+     * Candidate attribute matches replayed against past reviewer decisions by the evaluate action.
+     * When empty, the current matchingConfigs are evaluated.
+     */
+    fusionEvaluationMatchingConfigs?: MatchingConfig[]
 }
 
 // Review Settings Section
@@ -156,6 +302,10 @@ export interface ReviewSettingsSection {
     fusionFormExpirationDays: number
     fusionOwnerIsGlobalReviewer?: boolean
     fusionReportOnAggregation?: boolean
+    /**
+     * What happens to an account detached by the unmerge action: sent to review again, or made a new fusion account.
+     */
+    fusionUnmergeMode?: 'review' | 'new'
 }
 
 // Fusion Settings Menu
@@ -168,6 +318,10 @@ export interface FusionSettingsMenu extends MatchingSettingsSection, ReviewSetti
 // Developer Settings Section
 export interface DeveloperSettingsSection {
     reset: boolean
+    /**
+     * Run aggregation without side effects and report the actions it would take.
+     */
+    dryRun?: boolean
     externalLoggingEnabled: boolean
     externalLoggingUrl?: string
     externalLoggingLevel?: 'error' | 'warn' | 'info' | 'debug'
@@ -285,6 +439,7 @@ export interface InternalConfig {
         readonly correlateAccounts: number
     }
     readonly fusionState?: Record<string, any>
+    readonly fusionDecisionLedger?: FusionDecisionLedgerEntry[]
 }
 
 // ============================================================================
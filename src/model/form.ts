@@ -24,6 +24,17 @@ type User = {
     name: string
 }
 
+/**
+ * Attribute score shown to the reviewer for one candidate identity
+ */
+type FusionDecisionScore = {
+    identityId: string
+    attribute: string
+    algorithm: string
+    score: number
+    threshold?: number
+}
+
 type Score = {
     attributes: { attribute: string; score: number; threshold: number }[]
     score: number
@@ -46,6 +57,85 @@ export type FusionDecision = {
      * Used to populate reviewer review links without refetching form instances.
      */
     formUrl?: string
+    /**
+     * Attribute scores of every candidate presented on the form.
+     * Used to learn how attribute agreement relates to reviewer decisions.
+     */
+    scores?: FusionDecisionScore[]
+    /**
+     * ID of the form instance the decision was read from. Unset for system decisions.
+     */
+    formInstanceId?: string
+    /**
+     * When the reviewer submitted the decision (ISO 8601)
+     */
+    decisionDate?: string
+    /**
+     * Identity the account was detached from, for decisions reversing a previous merge
+     */
+    unmergedFrom?: string
+    /**
+     * Whether the decision was forced by the fusion action, bypassing scoring
+     */
+    forced?: boolean
+    /**
+     * Other accounts of a cluster review, which the decision applies to as well
+     */
+    clusterAccounts?: FusionDecisionAccount[]
+    /**
+     * Identity the account was moved from, for accounts of an identity merged into another
+     */
+    mergedFrom?: string
+    /**
+     * Native identity of the fusion account the account was merged into, for accounts merged into
+     * a fusion account that has no identity yet
+     */
+    mergedInto?: string
+}
+
+/**
+ * Reviewer decision on two fusion identities found to be potential duplicates of each other
+ */
+export type IdentityMergeDecision = {
+    submitter: User
+    /**
+     * Identity that keeps its accounts and absorbs the other's
+     */
+    identityId: string
+    /**
+     * Identity whose accounts are moved
+     */
+    mergedIdentityId: string
+    /**
+     * False when the reviewer decided the identities are not duplicates
+     */
+    merge: boolean
+    comments: string
+    finished: boolean
+    formUrl?: string
+    formInstanceId?: string
+    decisionDate?: string
+}
+
+/**
+ * Immutable record of a finished fusion decision, kept in the decision ledger
+ * after the form instance it came from has been deleted.
+ */
+export type FusionDecisionLedgerEntry = {
+    id: string
+    timestamp: string
+    submitter: User
+    account: FusionDecisionAccount
+    newIdentity: boolean
+    identityId?: string
+    comments: string
+    formUrl?: string
+    scores?: FusionDecisionScore[]
+    unmergedFrom?: string
+    forced?: boolean
+    clusterAccounts?: FusionDecisionAccount[]
+    mergedFrom?: string
+    mergedInto?: string
 }
 export type FusionRequest = {
     title: string
@@ -145,10 +145,19 @@ export const FUSION_REVIEW_TEMPLATE = `
                                                                         {{#each scores}}
                                                                         <tr style="background:{{#if (isAverageScoreRow attribute algorithm)}}#e0f2fe{{else}}{{#if isMatch}}#f0fdf4{{else}}#fef2f2{{/if}}{{/if}};">
                                                                             <td width="90" style="width:90px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{attribute}}</td>
-                                                                            <td width="110" style="width:110px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{algorithmLabel algorithm}}</td>
-                                                                            <td width="40" style="width:40px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-weight:900; font-size:10px;">{{formatPercent score}}%</td>
-                                                                            <td width="40" style="width:40px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{formatPercent fusionScore}}%</td>
+                                                                            <td width="110" style="width:110px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{algorithmLabel algorithm}}{{#if weight}} (×{{weight}}){{/if}}</td>
+                                                                            <td width="40" style="width:40px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-weight:900; font-size:10px;">{{formatScore score algorithm}}</td>
+                                                                            <td width="40" style="width:40px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{formatScore fusionScore algorithm}}</td>
                                                                         </tr>
+                                                                        {{#if (isVetoRow algorithm)}}
+                                                                        <tr style="background:#fef2f2;">
+                                                                            <td colspan="4" style="padding:4px; border:1px solid #eef2f7; color:#b91c1c; font-size:10px;">{{comment}}</td>
+                                                                        </tr>
+                                                                        {{else if (scoreDetails this)}}
+                                                                        <tr>
+                                                                            <td colspan="4" style="padding:4px; border:1px solid #eef2f7; color:#5f6b7a; font-size:10px;">{{#each (scoreDetails this)}}{{#if @index}}<br>{{/if}}{{this}}{{/each}}</td>
+                                                                        </tr>
+                                                                        {{/if}}
                                                                         {{/each}}
                                                                         {{/if}}
                                                                     </table>
@@ -517,7 +526,7 @@ export const FUSION_REPORT_TEMPLATE = `
                     </td>
                     <td width="50%" style="width:50%; padding:6px;">
                         <div style="border:1px solid #e6ebf5; border-radius:12px; padding:12px; background:#fbfcff; box-shadow:0 6px 16px rgba(16,24,40,0.06);">
-                            <div style="font-size:12px; color:#5f6b7a; font-weight:800; letter-spacing:0.3px; text-transform:uppercase; margin-bottom:6px;">Total Accounts Analyzed</div>
+                            <div style="font-size:12px; color:#5f6b7a; font-weight:800; letter-spacing:0.3px; text-transform:uppercase; margin-bottom:6px;">{{#if identityScan}}Total Identities Analyzed{{else}}Total Accounts Analyzed{{/if}}</div>
                             <div style="color:#0f172a; font-size:16px; font-weight:900;">{{totalAccounts}}</div>
                         </div>
                     </td>
@@ -525,6 +534,123 @@ export const FUSION_REPORT_TEMPLATE = `
             </table>
         </div>
 
+        {{#if evaluation}}
+        <!-- Matching evaluation: reviewer decisions replayed with the evaluated matching configurations -->
+        <div style="margin-bottom:28px; border:1px solid #e6ebf5; border-radius:14px; padding:18px; background:#ffffff; box-shadow:0 10px 24px rgba(16,24,40,0.08);">
+            <div style="color:#0b5cab; font-size:18px; font-weight:800; margin:0 0 6px 0;">Matching Evaluation</div>
+            <div style="font-size:12px; color:#5f6b7a; margin-bottom:10px;">
+                {{evaluation.decisions}} reviewer decision(s) replayed, {{evaluation.comparisons}} comparison(s){{#if evaluation.skippedDecisions}}, {{evaluation.skippedDecisions}} decision(s) skipped{{/if}}.
+            </div>
+            {{#with evaluation}}
+            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="width:100%; border-collapse:collapse;">
+                <tr>
+                    <td width="25%" style="width:25%; padding:6px;">
+                        <div style="border:1px solid #e6ebf5; border-radius:12px; padding:12px; background:#fbfcff; box-shadow:0 6px 16px rgba(16,24,40,0.06);">
+                            <div style="font-size:12px; color:#5f6b7a; font-weight:800; letter-spacing:0.3px; text-transform:uppercase; margin-bottom:6px;">Precision</div>
+                            <div style="color:#0f172a; font-size:16px; font-weight:900;">{{formatRatio precision}}</div>
+                        </div>
+                    </td>
+                    <td width="25%" style="width:25%; padding:6px;">
+                        <div style="border:1px solid #e6ebf5; border-radius:12px; padding:12px; background:#fbfcff; box-shadow:0 6px 16px rgba(16,24,40,0.06);">
+                            <div style="font-size:12px; color:#5f6b7a; font-weight:800; letter-spacing:0.3px; text-transform:uppercase; margin-bottom:6px;">Recall</div>
+                            <div style="color:#0f172a; font-size:16px; font-weight:900;">{{formatRatio recall}}</div>
+                        </div>
+                    </td>
+                    <td width="25%" style="width:25%; padding:6px;">
+                        <div style="border:1px solid #e6ebf5; border-radius:12px; padding:12px; background:#fbfcff; box-shadow:0 6px 16px rgba(16,24,40,0.06);">
+                            <div style="font-size:12px; color:#5f6b7a; font-weight:800; letter-spacing:0.3px; text-transform:uppercase; margin-bottom:6px;">False Merges</div>
+                            <div style="color:#0f172a; font-size:16px; font-weight:900;">{{falseMerges}}{{#if falseAutoCorrelations}} ({{falseAutoCorrelations}} auto-correlated){{/if}}</div>
+                        </div>
+                    </td>
+                    <td width="25%" style="width:25%; padding:6px;">
+                        <div style="border:1px solid #e6ebf5; border-radius:12px; padding:12px; background:#fbfcff; box-shadow:0 6px 16px rgba(16,24,40,0.06);">
+                            <div style="font-size:12px; color:#5f6b7a; font-weight:800; letter-spacing:0.3px; text-transform:uppercase; margin-bottom:6px;">Missed Merges</div>
+                            <div style="color:#0f172a; font-size:16px; font-weight:900;">{{missedMerges}}</div>
+                        </div>
+                    </td>
+                </tr>
+            </table>
+
+            {{#each distributions}}
+            <div style="color:#0b5cab; font-size:12px; font-weight:900; letter-spacing:0.35px; text-transform:uppercase; margin:14px 0 8px 0;">{{attribute}} ({{algorithmLabel algorithm}})</div>
+            <div style="overflow-x:auto; -webkit-overflow-scrolling:touch;">
+                <table role="presentation" cellpadding="0" cellspacing="0" border="0" style="border-collapse:collapse;">
+                    <tr>
+                        <th style="text-align:left; padding:6px 4px; border:1px solid #eef2f7; background:#f6f8ff; color:#5f6b7a; font-size:10px; font-weight:600; white-space:nowrap;">Score</th>
+                        {{#each matches}}
+                        <th style="text-align:right; padding:6px 4px; border:1px solid #eef2f7; background:#f6f8ff; color:#5f6b7a; font-size:10px; font-weight:600;">{{scoreBucketLabel @index}}</th>
+                        {{/each}}
+                        <th style="text-align:right; padding:6px 4px; border:1px solid #eef2f7; background:#f6f8ff; color:#5f6b7a; font-size:10px; font-weight:600;">Average</th>
+                    </tr>
+                    <tr style="background:#f0fdf4;">
+                        <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px; font-weight:900; white-space:nowrap;">Chosen identity</td>
+                        {{#each matches}}
+                        <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-size:10px;">{{this}}</td>
+                        {{/each}}
+                        <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-size:10px;">{{#if (exists matchAverage)}}{{formatScore matchAverage algorithm}}{{else}}N/A{{/if}}</td>
+                    </tr>
+                    <tr style="background:#fef2f2;">
+                        <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px; font-weight:900; white-space:nowrap;">Other identities</td>
+                        {{#each nonMatches}}
+                        <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-size:10px;">{{this}}</td>
+                        {{/each}}
+                        <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-size:10px;">{{#if (exists nonMatchAverage)}}{{formatScore nonMatchAverage algorithm}}{{else}}N/A{{/if}}</td>
+                    </tr>
+                </table>
+            </div>
+            {{/each}}
+            {{/with}}
+        </div>
+        {{/if}}
+
+        {{#if clusters}}
+        <!-- Duplicate clusters: accounts and identities that are all plausible duplicates of each other -->
+        <div style="margin-bottom:28px; border:1px solid #e6ebf5; border-radius:14px; padding:18px; background:#ffffff; box-shadow:0 10px 24px rgba(16,24,40,0.08);">
+            <div style="color:#0b5cab; font-size:18px; font-weight:800; margin:0 0 6px 0;">Duplicate Clusters</div>
+            {{#each clusters}}
+            <div style="color:#0b5cab; font-size:12px; font-weight:900; letter-spacing:0.35px; text-transform:uppercase; margin:14px 0 8px 0;">{{accounts.length}} account(s), {{identities.length}} identity(ies)</div>
+            <div style="font-size:12px; color:#0f172a; margin-bottom:8px;">
+                Accounts: {{#each accounts}}{{#if @index}}, {{/if}}{{accountName}} [{{accountSource}}]{{/each}}<br>
+                Identities: {{#each identities}}{{#if @index}}, {{/if}}{{#if identityUrl}}<a href="{{identityUrl}}" style="color:#0b5cab;">{{identityName}}</a>{{else}}{{identityName}}{{/if}}{{else}}None{{/each}}
+            </div>
+            <table role="presentation" cellpadding="0" cellspacing="0" border="0" style="border-collapse:collapse;">
+                {{#each scores}}
+                <tr>
+                    <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px;">{{source}}</td>
+                    <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px;">{{target}}</td>
+                    <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-size:10px;">{{score}}</td>
+                </tr>
+                {{/each}}
+            </table>
+            {{/each}}
+        </div>
+        {{/if}}
+
+        {{#if suppressions}}
+        <!-- Suppressed pairs: reviewer verdicts that keep pairs out of matching until they expire -->
+        <div style="margin-bottom:28px; border:1px solid #e6ebf5; border-radius:14px; padding:18px; background:#ffffff; box-shadow:0 10px 24px rgba(16,24,40,0.08);">
+            <div style="color:#0b5cab; font-size:18px; font-weight:800; margin:0 0 6px 0;">Suppressed Pairs</div>
+            <div style="font-size:12px; color:#5f6b7a; margin-bottom:10px;">
+                {{suppressions.length}} pair(s) found not to be duplicates by reviewers, skipped by matching.
+            </div>
+            <table role="presentation" cellpadding="0" cellspacing="0" border="0" style="border-collapse:collapse;">
+                <tr>
+                    <th colspan="2" style="text-align:left; padding:6px 4px; border:1px solid #eef2f7; background:#f6f8ff; color:#5f6b7a; font-size:10px; font-weight:600;">Pair</th>
+                    <th style="text-align:left; padding:6px 4px; border:1px solid #eef2f7; background:#f6f8ff; color:#5f6b7a; font-size:10px; font-weight:600;">Since</th>
+                    <th style="text-align:left; padding:6px 4px; border:1px solid #eef2f7; background:#f6f8ff; color:#5f6b7a; font-size:10px; font-weight:600;">Expires</th>
+                </tr>
+                {{#each suppressions}}
+                <tr>
+                    <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px;">{{names.[0]}}</td>
+                    <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px;">{{names.[1]}}</td>
+                    <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px;">{{formatDate since}}</td>
+                    <td style="padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px;">{{#if expires}}{{formatDate expires}}{{else}}Never{{/if}}</td>
+                </tr>
+                {{/each}}
+            </table>
+        </div>
+        {{/if}}
+
         {{#each accounts}}
         <div class="account-section" style="margin-bottom:28px; border:1px solid #e6ebf5; border-radius:14px; padding:18px; background:#ffffff; box-shadow:0 10px 24px rgba(16,24,40,0.08);">
             <div style="width:100%; overflow-x:auto; -webkit-overflow-scrolling:touch;">
@@ -551,6 +677,12 @@ export const FUSION_REPORT_TEMPLATE = `
                                     <td style="padding:2px 8px; word-break:break-all;">{{accountEmail}}</td>
                                 </tr>
                                 {{/if}}
+                                {{#if matchBand}}
+                                <tr>
+                                    <td style="font-weight:800; white-space:nowrap; padding:2px 8px 2px 0;">Band:</td>
+                                    <td style="padding:2px 8px;">{{bandLabel matchBand}}</td>
+                                </tr>
+                                {{/if}}
                             </table>
                         </div>
 
@@ -591,6 +723,9 @@ export const FUSION_REPORT_TEMPLATE = `
                                                     {{identityName}}
                                                     {{/if}}
                                                 </div>
+                                                {{#if band}}
+                                                <div style="font-size:11px; color:#5f6b7a; margin-top:2px;">{{bandLabel band}}</div>
+                                                {{/if}}
                                             </td>
                                         </tr>
                                         {{#if scores}}
@@ -603,10 +738,19 @@ export const FUSION_REPORT_TEMPLATE = `
                                         {{#each scores}}
                                         <tr style="background:{{#if (isAverageScoreRow attribute algorithm)}}#e0f2fe{{else}}{{#if isMatch}}#f0fdf4{{else}}#fef2f2{{/if}}{{/if}};">
                                             <td width="90" style="width:90px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{attribute}}</td>
-                                            <td width="110" style="width:110px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{algorithmLabel algorithm}}</td>
-                                            <td width="40" style="width:40px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-weight:900; font-size:10px;">{{formatPercent score}}%</td>
-                                            <td width="40" style="width:40px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{formatPercent fusionScore}}%</td>
+                                            <td width="110" style="width:110px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{algorithmLabel algorithm}}{{#if weight}} (×{{weight}}){{/if}}</td>
+                                            <td width="40" style="width:40px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-weight:900; font-size:10px;">{{formatScore score algorithm}}</td>
+                                            <td width="40" style="width:40px; padding:6px 4px; border:1px solid #eef2f7; color:#0f172a; text-align:right; font-size:10px; {{#if (isAverageScoreRow attribute algorithm)}}font-weight:900;{{/if}}">{{formatScore fusionScore algorithm}}</td>
+                                        </tr>
+                                        {{#if (isVetoRow algorithm)}}
+                                        <tr style="background:#fef2f2;">
+                                            <td colspan="4" style="padding:4px; border:1px solid #eef2f7; color:#b91c1c; font-size:10px;">{{comment}}</td>
+                                        </tr>
+                                        {{else if (scoreDetails this)}}
+                                        <tr>
+                                            <td colspan="4" style="padding:4px; border:1px solid #eef2f7; color:#5f6b7a; font-size:10px;">{{#each (scoreDetails this)}}{{#if @index}}<br>{{/if}}{{this}}{{/each}}</td>
                                         </tr>
+                                        {{/if}}
                                         {{/each}}
                                         {{/if}}
                                     </table>
@@ -628,11 +772,13 @@ export const FUSION_REPORT_TEMPLATE = `
         </div>
         {{/each}}
 
+        {{#unless evaluation}}
         {{#unless accounts}}
         <div class="no-matches" style="margin: 40px 0;">
             No accounts with potential duplicates found in this report.
         </div>
         {{/unless}}
+        {{/unless}}
 
         <div class="footer" style="margin-top:28px; padding-top:18px; border-top:1px solid #e6ebf5; color:#5f6b7a; font-size:13px; text-align:center;">
             <p style="margin: 0;">
@@ -0,0 +1,154 @@
+import { Response, StdAccountListInput, StdAccountListOutput } from '@sailpoint/connector-sdk'
+import { ServiceRegistry } from '../../services/serviceRegistry'
+import { accountList } from '../accountList'
+import { generateReport } from '../helpers/generateReport'
+
+jest.mock('../../services/serviceRegistry', () => ({
+    ServiceRegistry: { setCurrent: jest.fn(), getCurrent: jest.fn() },
+}))
+jest.mock('../helpers/generateReport')
+
+const previousAccount = { key: { simple: { id: 'fusion-1' } }, attributes: { id: 'fusion-1' } }
+const computedAccount = { key: { simple: { id: 'fusion-1' } }, attributes: { id: 'fusion-1', statuses: ['changed'] } }
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const createRegistry = (dryRun: boolean, reset: boolean) => ({
+    log: { info: jest.fn(), debug: jest.fn(), crash: jest.fn() },
+    fusion: {
+        isDryRun: jest.fn(() => dryRun),
+        isReset: jest.fn(() => reset),
+        fusionReportOnAggregation: true,
+        fusionScanIdentities: true,
+        recordPlannedAction: jest.fn(),
+        generatePlan: jest.fn(() => ({ actions: [], counts: {}, planDate: '2024-03-15T10:00:00.000Z' })),
+        disableReset: jest.fn(),
+        resetState: jest.fn(),
+        processFusionAccounts: jest.fn(),
+        processIdentities: jest.fn(),
+        processFusionIdentityDecisions: jest.fn(),
+        processIdentityMergeDecisions: jest.fn(),
+        processManagedAccounts: jest.fn(),
+        processIdentityDuplicates: jest.fn(),
+        getFusionIdentity: jest.fn(() => ({ identityId: 'owner-1' })),
+        listISCAccounts: jest.fn(async () => [computedAccount]),
+        listPreviousISCAccounts: jest.fn(() => [previousAccount]),
+    },
+    forms: {
+        pendingFormDeletions: 2,
+        pendingLedgerEntries: 1,
+        deleteExistingForms: jest.fn(),
+        fetchFormData: jest.fn(),
+        cleanUpForms: jest.fn(),
+        saveDecisionLedger: jest.fn(),
+    },
+    identities: {
+        fetchIdentities: jest.fn(),
+        getIdentityById: jest.fn(() => ({ id: 'owner-1' })),
+        fetchIdentityById: jest.fn(),
+        correlateAccounts: jest.fn(),
+        clear: jest.fn(),
+    },
+    schemas: { setFusionAccountSchema: jest.fn() },
+    sources: {
+        fusionSourceOwner: { id: 'owner-1' },
+        fetchAllSources: jest.fn(),
+        aggregateManagedSources: jest.fn(),
+        fetchFusionAccounts: jest.fn(),
+        fetchManagedAccounts: jest.fn(),
+        clearManagedAccounts: jest.fn(),
+        clearFusionAccounts: jest.fn(),
+    },
+    attributes: { initializeCounters: jest.fn(), saveState: jest.fn() },
+    messaging: { fetchSender: jest.fn(), sendReport: jest.fn() },
+})
+
+const run = async (dryRun: boolean, reset = false) => {
+    const registry = createRegistry(dryRun, reset)
+    const res = { send: jest.fn() }
+    await accountList(
+        registry as unknown as ServiceRegistry,
+        { schema: {} } as unknown as StdAccountListInput,
+        res as unknown as Response<StdAccountListOutput>
+    )
+    return { registry, res }
+}
+
+beforeEach(() => {
+    jest.clearAllMocks()
+})
+
+// ============================================================================
+// Dry run
+// ============================================================================
+
+describe('accountList in dry-run mode', () => {
+    it('should not make any form, workflow, email, correlation or state-save call', async () => {
+        const { registry } = await run(true, true)
+        const { fusion, forms, identities, sources, attributes, messaging } = registry
+
+        expect(sources.aggregateManagedSources).not.toHaveBeenCalled()
+        expect(forms.deleteExistingForms).not.toHaveBeenCalled()
+        expect(forms.cleanUpForms).not.toHaveBeenCalled()
+        expect(forms.saveDecisionLedger).not.toHaveBeenCalled()
+        expect(messaging.fetchSender).not.toHaveBeenCalled()
+        expect(messaging.sendReport).not.toHaveBeenCalled()
+        expect(generateReport).not.toHaveBeenCalled()
+        expect(identities.correlateAccounts).not.toHaveBeenCalled()
+        expect(attributes.saveState).not.toHaveBeenCalled()
+        expect(fusion.disableReset).not.toHaveBeenCalled()
+        expect(fusion.resetState).not.toHaveBeenCalled()
+        expect(registry.log.crash).not.toHaveBeenCalled()
+    })
+
+    it('should log the plan of skipped actions', async () => {
+        const { registry } = await run(true, true)
+        const { fusion, log } = registry
+
+        const planned = fusion.recordPlannedAction.mock.calls.map(([type]) => type)
+        expect(planned).toEqual([
+            'reset',
+            'aggregate-sources',
+            'send-report',
+            'delete-forms',
+            'save-state',
+            'save-ledger',
+        ])
+        expect(log.info).toHaveBeenCalledWith('Dry-run plan', fusion.generatePlan.mock.results[0].value)
+    })
+
+    it('should send the previously aggregated accounts unchanged', async () => {
+        const { res } = await run(true)
+
+        expect(res.send).toHaveBeenCalledTimes(1)
+        expect(res.send).toHaveBeenCalledWith(previousAccount)
+    })
+})
+
+describe('accountList outside dry-run mode', () => {
+    it('should send the computed accounts and save state', async () => {
+        const { registry, res } = await run(false)
+        const { forms, sources, attributes, messaging } = registry
+
+        expect(sources.aggregateManagedSources).toHaveBeenCalled()
+        expect(messaging.fetchSender).toHaveBeenCalled()
+        expect(generateReport).toHaveBeenCalled()
+        expect(res.send).toHaveBeenCalledWith(computedAccount)
+        expect(forms.cleanUpForms).toHaveBeenCalled()
+        expect(attributes.saveState).toHaveBeenCalled()
+        expect(forms.saveDecisionLedger).toHaveBeenCalled()
+    })
+
+    it('should reset and exit when the reset flag is set', async () => {
+        const { registry, res } = await run(false, true)
+        const { fusion, forms } = registry
+
+        expect(forms.deleteExistingForms).toHaveBeenCalled()
+        expect(fusion.disableReset).toHaveBeenCalled()
+        expect(fusion.resetState).toHaveBeenCalled()
+        expect(fusion.processManagedAccounts).not.toHaveBeenCalled()
+        expect(res.send).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,173 @@
+import { AttributeChangeOp, Response, StdAccountUpdateInput, StdAccountUpdateOutput } from '@sailpoint/connector-sdk'
+import { Account } from 'sailpoint-api-client'
+import { FusionAccount } from '../../model/account'
+import { ServiceRegistry } from '../../services/serviceRegistry'
+import { accountUpdate } from '../accountUpdate'
+import { reportAction } from '../actions/reportAction'
+import { rebuildFusionAccount } from '../helpers/rebuildFusionAccount'
+
+jest.mock('../../services/serviceRegistry', () => ({
+    ServiceRegistry: { setCurrent: jest.fn(), getCurrent: jest.fn() },
+}))
+jest.mock('../helpers/rebuildFusionAccount')
+jest.mock('../actions/reportAction')
+
+const hrAccount = { id: 'hr-1', name: 'jsmith', sourceName: 'HR', sourceId: 'source-HR' } as Account
+const crmAccount = { id: 'crm-1', name: 'john.smith', sourceName: 'CRM', sourceId: 'source-CRM' } as Account
+const fusionAccount = { name: 'John Smith', accountIds: ['hr-1', 'crm-1'] } as unknown as FusionAccount
+const iscAccount = { key: { simple: { id: 'fusion-1' } }, attributes: {} }
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const createRegistry = () => {
+    const accountsById = new Map([hrAccount, crmAccount].map((x) => [x.id!, x]))
+    return {
+        log: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), crash: jest.fn() },
+        sources: {
+            managedAccountsById: new Map<string, Account>(),
+            fetchAllSources: jest.fn(),
+            fetchAccountById: jest.fn(async (id: string) => accountsById.get(id)),
+            fetchManagedAccount: jest.fn(async function (this: { managedAccountsById: Map<string, Account> }, id) {
+                const account = accountsById.get(id)
+                if (account) this.managedAccountsById.set(id, account)
+            }),
+        },
+        schemas: { setFusionAccountSchema: jest.fn() },
+        fusion: {
+            unmergeAccount: jest.fn(),
+            forceMergeAccount: jest.fn(),
+            forceNewFusionAccount: jest.fn(),
+            getISCAccount: jest.fn(async () => iscAccount),
+        },
+        forms: { saveDecisionLedger: jest.fn() },
+    }
+}
+
+const update = async (changes: { op: AttributeChangeOp; attribute: string; value: string }[]) => {
+    const registry = createRegistry()
+    const res = { send: jest.fn() }
+    await accountUpdate(
+        registry as unknown as ServiceRegistry,
+        { identity: 'fusion-1', changes, schema: {} } as unknown as StdAccountUpdateInput,
+        res as unknown as Response<StdAccountUpdateOutput>
+    )
+    return { registry, res }
+}
+
+beforeEach(() => {
+    jest.clearAllMocks()
+    jest.mocked(rebuildFusionAccount).mockResolvedValue(fusionAccount)
+})
+
+// ============================================================================
+// Unmerge action
+// ============================================================================
+
+describe('accountUpdate unmerge action', () => {
+    it('should unmerge the accounts of the source given in the action', async () => {
+        const { registry, res } = await update([
+            { op: AttributeChangeOp.Add, attribute: 'actions', value: 'unmerge:source-CRM' },
+        ])
+
+        expect(registry.fusion.unmergeAccount).toHaveBeenCalledTimes(1)
+        expect(registry.fusion.unmergeAccount).toHaveBeenCalledWith(fusionAccount, crmAccount)
+        expect(registry.forms.saveDecisionLedger).toHaveBeenCalled()
+        expect(res.send).toHaveBeenCalledWith(iscAccount)
+        expect(registry.log.crash).not.toHaveBeenCalled()
+    })
+
+    it('should unmerge the account given by its ID', async () => {
+        const { registry } = await update([{ op: AttributeChangeOp.Add, attribute: 'actions', value: 'unmerge:hr-1' }])
+
+        expect(registry.fusion.unmergeAccount).toHaveBeenCalledTimes(1)
+        expect(registry.fusion.unmergeAccount).toHaveBeenCalledWith(fusionAccount, hrAccount)
+    })
+
+    it('should warn when no account matches the target', async () => {
+        const { registry } = await update([
+            { op: AttributeChangeOp.Add, attribute: 'actions', value: 'unmerge:source-AD' },
+        ])
+
+        expect(registry.fusion.unmergeAccount).not.toHaveBeenCalled()
+        expect(registry.log.warn).toHaveBeenCalled()
+    })
+
+    it('should not restore accounts when the action is removed', async () => {
+        const { registry, res } = await update([
+            { op: AttributeChangeOp.Remove, attribute: 'actions', value: 'unmerge:source-CRM' },
+        ])
+
+        expect(registry.fusion.unmergeAccount).not.toHaveBeenCalled()
+        expect(res.send).toHaveBeenCalledWith(iscAccount)
+    })
+})
+
+describe('accountUpdate fusion action', () => {
+    it('should force the merge of the target account loaded into the work queue', async () => {
+        const { registry } = await update([
+            { op: AttributeChangeOp.Add, attribute: 'fusionTarget', value: 'crm-1' },
+            { op: AttributeChangeOp.Add, attribute: 'actions', value: 'fusion' },
+        ])
+
+        expect(registry.sources.fetchManagedAccount).toHaveBeenCalledWith('crm-1')
+        expect(registry.fusion.forceMergeAccount).toHaveBeenCalledWith(fusionAccount, crmAccount)
+        expect(registry.fusion.forceNewFusionAccount).not.toHaveBeenCalled()
+        expect(registry.forms.saveDecisionLedger).toHaveBeenCalled()
+    })
+
+    it('should force a new fusion account for a target prefixed with new:', async () => {
+        const { registry } = await update([
+            { op: AttributeChangeOp.Set, attribute: 'fusionTarget', value: 'new:crm-1' },
+            { op: AttributeChangeOp.Add, attribute: 'actions', value: 'fusion' },
+        ])
+
+        expect(registry.fusion.forceNewFusionAccount).toHaveBeenCalledWith(fusionAccount, crmAccount)
+        expect(registry.fusion.forceMergeAccount).not.toHaveBeenCalled()
+    })
+
+    it('should ignore a removed target', async () => {
+        const { registry } = await update([
+            { op: AttributeChangeOp.Remove, attribute: 'fusionTarget', value: 'crm-1' },
+            { op: AttributeChangeOp.Add, attribute: 'actions', value: 'fusion' },
+        ])
+
+        expect(registry.fusion.forceMergeAccount).not.toHaveBeenCalled()
+        expect(registry.log.warn).toHaveBeenCalledWith(
+            'Fusion action for account John Smith requires a fusionTarget managed account ID'
+        )
+    })
+
+    it('should warn when the target account does not exist', async () => {
+        const { registry } = await update([
+            { op: AttributeChangeOp.Add, attribute: 'fusionTarget', value: 'ad-1' },
+            { op: AttributeChangeOp.Add, attribute: 'actions', value: 'fusion' },
+        ])
+
+        expect(registry.fusion.forceMergeAccount).not.toHaveBeenCalled()
+        expect(registry.log.warn).toHaveBeenCalledWith('Fusion action target account ad-1 not found')
+    })
+})
+
+describe('accountUpdate other actions', () => {
+    it.each([AttributeChangeOp.Add, AttributeChangeOp.Remove])(
+        'should pass %s operations of other actions to their handler',
+        async (op) => {
+            const { registry } = await update([{ op, attribute: 'actions', value: 'report' }])
+
+            expect(reportAction).toHaveBeenCalledWith(fusionAccount, op, registry)
+            expect(registry.fusion.unmergeAccount).not.toHaveBeenCalled()
+            expect(registry.log.crash).not.toHaveBeenCalled()
+        }
+    )
+
+    it('should reject changes to attributes other than actions', async () => {
+        const { registry } = await update([
+            { op: AttributeChangeOp.Add, attribute: 'statuses', value: 'unmerge:source-CRM' },
+        ])
+
+        expect(registry.fusion.unmergeAccount).not.toHaveBeenCalled()
+        expect(registry.log.crash).toHaveBeenCalledWith('Unsupported entitlement change: statuses')
+    })
+})
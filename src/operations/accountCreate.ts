@@ -4,6 +4,8 @@ import { assert } from '../utils/assert'
 import { reportAction } from './actions/reportAction'
 import { fusionAction } from './actions/fusionAction'
 import { correlateAction } from './actions/correlateAction'
+import { evaluateAction } from './actions/evaluateAction'
+import { identitiesAction } from './actions/identitiesAction'
 
 export const accountCreate = async (
     serviceRegistry: ServiceRegistry,
@@ -11,7 +13,7 @@ export const accountCreate = async (
     res: Response<StdAccountCreateOutput>
 ) => {
     ServiceRegistry.setCurrent(serviceRegistry)
-    const { log, identities, sources, schemas, fusion, attributes } = serviceRegistry
+    const { log, identities, sources, schemas, fusion, attributes, forms } = serviceRegistry
 
     let identityName = input.attributes.name ?? input.identity
     try {
@@ -48,7 +50,18 @@ export const accountCreate = async (
                     await reportAction(fusionIdentity, AttributeChangeOp.Add, serviceRegistry)
                     break
                 case 'fusion':
-                    await fusionAction(fusionIdentity, AttributeChangeOp.Add, serviceRegistry)
+                    await fusionAction(
+                        fusionIdentity,
+                        AttributeChangeOp.Add,
+                        serviceRegistry,
+                        input.attributes.fusionTarget
+                    )
+                    break
+                case 'evaluate':
+                    await evaluateAction(fusionIdentity, AttributeChangeOp.Add, serviceRegistry)
+                    break
+                case 'identities':
+                    await identitiesAction(fusionIdentity, AttributeChangeOp.Add, serviceRegistry)
                     break
                 case 'correlate':
                     await correlateAction(fusionIdentity, AttributeChangeOp.Add, serviceRegistry)
@@ -58,6 +71,10 @@ export const accountCreate = async (
             }
         }
 
+        // Decisions recorded by the fusion action are saved with the ledger, as in an aggregation
+        await forms.saveDecisionLedger()
+        log.debug('Decision ledger saved')
+
         const iscAccount = await fusion.getISCAccount(fusionIdentity)
         assert(iscAccount, 'Failed to generate ISC account from fusion identity')
 
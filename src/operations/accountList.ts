@@ -16,6 +16,10 @@ import { generateReport } from './helpers/generateReport'
  * 3. OUTPUT: Send final fusion account list to platform
  * 4. CLEANUP: Clear caches and save state
  * 
+ * Dry-run mode runs the same pipeline but skips every write (source aggregation, correlation,
+ * forms, emails, form cleanup, state saves, reset) and logs the plan of skipped actions instead.
+ * Previously aggregated accounts are sent back unchanged.
+ * 
  * Memory Optimizations:
  * - No map copies/snapshots during processing (direct reference only)
  * - Identity cache cleared after fusion/identity processing (line 60)
@@ -41,7 +45,13 @@ export const accountList = async (
         log.info('Starting account list operation')
 
         await sources.fetchAllSources()
-        if (fusion.isReset()) {
+        const dryRun = fusion.isDryRun()
+        if (dryRun) {
+            log.info('Dry-run mode enabled, no changes will be made')
+        }
+        if (fusion.isReset() && dryRun) {
+            fusion.recordPlannedAction('reset', 'Fusion source', 'delete forms and clear state')
+        } else if (fusion.isReset()) {
             log.info('Reset flag detected, disabling reset and exiting')
             await forms.deleteExistingForms()
             await fusion.disableReset()
@@ -52,8 +62,12 @@ export const accountList = async (
         await schemas.setFusionAccountSchema(input.schema)
         log.debug('Fusion account schema set successfully')
 
-        await sources.aggregateManagedSources()
-        log.debug('Managed sources aggregated')
+        if (dryRun) {
+            fusion.recordPlannedAction('aggregate-sources', 'Managed sources')
+        } else {
+            await sources.aggregateManagedSources()
+            log.debug('Managed sources aggregated')
+        }
 
         await attributes.initializeCounters()
         log.debug('Attribute counters initialized')
@@ -64,8 +78,11 @@ export const accountList = async (
             sources.fetchFusionAccounts(),
             identities.fetchIdentities(),
             sources.fetchManagedAccounts(),
-            messaging.fetchSender(),
         ]
+        // Preparing the sender may create or update the email workflow
+        if (!dryRun) {
+            fetchPromises.push(messaging.fetchSender())
+        }
 
         await Promise.all(fetchPromises)
         const fusionOwner = sources.fusionSourceOwner
@@ -95,9 +112,15 @@ export const accountList = async (
         // Phase 4: Process remaining uncorrelated accounts (deduplication)
         log.debug('Processing Fusion identity decisions and managed accounts')
         await fusion.processFusionIdentityDecisions()
+        await fusion.processIdentityMergeDecisions()
         await fusion.processManagedAccounts()
+        if (fusion.fusionScanIdentities) {
+            await fusion.processIdentityDuplicates()
+        }
 
-        if (fusion.fusionReportOnAggregation) {
+        if (fusion.fusionReportOnAggregation && dryRun) {
+            fusion.recordPlannedAction('send-report', 'Fusion owner')
+        } else if (fusion.fusionReportOnAggregation) {
             log.info('Generating and sending fusion report')
             const fusionOwnerAccount = fusion.getFusionIdentity(fusionOwner.id!)
             softAssert(fusionOwnerAccount, 'Fusion owner account not found')
@@ -108,14 +131,33 @@ export const accountList = async (
 
         const accounts = await fusion.listISCAccounts()
         assert(accounts, 'Failed to list ISC accounts')
-        log.info(`Sending ${accounts.length} account(s)`)
-        accounts.forEach((x) => res.send(x))
 
-        await forms.cleanUpForms()
-        log.debug('Form cleanup completed')
+        if (dryRun) {
+            if (forms.pendingFormDeletions > 0) {
+                fusion.recordPlannedAction('delete-forms', 'Fusion forms', `${forms.pendingFormDeletions} form(s)`)
+            }
+            fusion.recordPlannedAction('save-state', 'Fusion source', `${accounts.length} account(s) computed`)
+            if (forms.pendingLedgerEntries > 0) {
+                fusion.recordPlannedAction('save-ledger', 'Fusion source', `${forms.pendingLedgerEntries} decision(s)`)
+            }
+            log.info('Dry-run plan', fusion.generatePlan())
+
+            const previousAccounts = fusion.listPreviousISCAccounts()
+            log.info(`Dry run: sending ${previousAccounts.length} previously aggregated account(s) unchanged`)
+            previousAccounts.forEach((x) => res.send(x))
+        } else {
+            log.info(`Sending ${accounts.length} account(s)`)
+            accounts.forEach((x) => res.send(x))
 
-        await attributes.saveState()
-        log.debug('Attribute state saved')
+            await forms.cleanUpForms()
+            log.debug('Form cleanup completed')
+
+            await attributes.saveState()
+            log.debug('Attribute state saved')
+
+            await forms.saveDecisionLedger()
+            log.debug('Decision ledger saved')
+        }
 
         // Memory optimization: Clear account caches after all processing is complete
         // At this point, accounts have been sent to the platform and are no longer needed
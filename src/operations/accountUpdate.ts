@@ -1,10 +1,13 @@
-import { Response, StdAccountUpdateInput, StdAccountUpdateOutput } from '@sailpoint/connector-sdk'
+import { AttributeChangeOp, Response, StdAccountUpdateInput, StdAccountUpdateOutput } from '@sailpoint/connector-sdk'
 import { ServiceRegistry } from '../services/serviceRegistry'
 import { rebuildFusionAccount } from './helpers/rebuildFusionAccount'
 import { assert } from '../utils/assert'
 import { reportAction } from './actions/reportAction'
 import { fusionAction } from './actions/fusionAction'
 import { correlateAction } from './actions/correlateAction'
+import { evaluateAction } from './actions/evaluateAction'
+import { identitiesAction } from './actions/identitiesAction'
+import { unmergeAction } from './actions/unmergeAction'
 
 export const accountUpdate = async (
     serviceRegistry: ServiceRegistry,
@@ -12,7 +15,7 @@ export const accountUpdate = async (
     res: Response<StdAccountUpdateOutput>
 ) => {
     ServiceRegistry.setCurrent(serviceRegistry)
-    const { log, sources, schemas, fusion } = serviceRegistry
+    const { log, sources, schemas, fusion, forms } = serviceRegistry
 
     try {
         log.info(`Updating account ${input.identity}...`)
@@ -28,17 +31,36 @@ export const accountUpdate = async (
         assert(fusionAccount, `Fusion account not found for identity: ${input.identity}`)
         log.debug(`Found fusion account: ${fusionAccount.name || fusionAccount.nativeIdentity}`)
 
+        // Provisioning attribute read by the fusion action rather than applied as a change.
+        // Removing it leaves no target.
+        let fusionTarget: string | undefined
+        for (const change of input.changes) {
+            if (change.attribute !== 'fusionTarget' || change.op === AttributeChangeOp.Remove) continue
+            fusionTarget = change.value
+        }
+
         log.debug(`Processing ${input.changes.length} change(s)`)
         for (const change of input.changes) {
             assert(change.attribute, 'Change attribute is required')
 
-            if (change.attribute === 'actions') {
+            if (change.attribute === 'fusionTarget') {
+                continue
+            } else if (change.attribute === 'actions' && String(change.value).startsWith('unmerge:')) {
+                const target = String(change.value).slice('unmerge:'.length)
+                await unmergeAction(fusionAccount, change.op, target, serviceRegistry)
+            } else if (change.attribute === 'actions') {
                 switch (change.value) {
                     case 'report':
                         await reportAction(fusionAccount, change.op, serviceRegistry)
                         break
                     case 'fusion':
-                        await fusionAction(fusionAccount, change.op, serviceRegistry)
+                        await fusionAction(fusionAccount, change.op, serviceRegistry, fusionTarget)
+                        break
+                    case 'evaluate':
+                        await evaluateAction(fusionAccount, change.op, serviceRegistry)
+                        break
+                    case 'identities':
+                        await identitiesAction(fusionAccount, change.op, serviceRegistry)
                         break
                     case 'correlated':
                         await correlateAction(fusionAccount, change.op, serviceRegistry)
@@ -52,6 +74,10 @@ export const accountUpdate = async (
             }
         }
 
+        // Decisions recorded by the unmerge and fusion actions are saved with the ledger, as in an aggregation
+        await forms.saveDecisionLedger()
+        log.debug('Decision ledger saved')
+
         const iscAccount = await fusion.getISCAccount(fusionAccount)
         assert(iscAccount, 'Failed to generate ISC account from fusion account')
 
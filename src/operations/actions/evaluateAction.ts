@@ -0,0 +1,19 @@
+import { AttributeChangeOp } from '@sailpoint/connector-sdk'
+import { FusionAccount } from '../../model/account'
+import { ServiceRegistry } from '../../services/serviceRegistry'
+import { generateEvaluationReport } from '../helpers/generateEvaluationReport'
+
+/**
+ * Evaluate action handler – replays reviewer decisions with the candidate matching configurations
+ * and sends the evaluation report
+ * @param serviceRegistry - Request-scoped registry (required for concurrent updates to avoid global state)
+ */
+export const evaluateAction = async (
+    fusionAccount: FusionAccount,
+    op: AttributeChangeOp,
+    serviceRegistry: ServiceRegistry
+): Promise<void> => {
+    if (op === AttributeChangeOp.Add) {
+        await generateEvaluationReport(fusionAccount, serviceRegistry)
+    }
+}
@@ -2,24 +2,50 @@ import { AttributeChangeOp } from '@sailpoint/connector-sdk'
 import { FusionAccount } from '../../model/account'
 import { ServiceRegistry } from '../../services/serviceRegistry'
 
+const NEW_FUSION_ACCOUNT_PREFIX = 'new:'
+
 /**
- * Placeholder function for fusion action
- * Creates a fusion account
+ * Fusion action handler
+ * Forces a fusion decision for the managed account given in the fusionTarget provisioning attribute, bypassing scoring:
+ * the account is merged into the fusion identity, or made a new fusion account when the target is prefixed with "new:"
+ * @param target - Managed account ID, optionally prefixed with "new:"
  * @param serviceRegistry - Request-scoped registry (required for concurrent updates to avoid global state)
  */
 export const fusionAction = async (
     fusionAccount: FusionAccount,
     op: AttributeChangeOp,
-    serviceRegistry: ServiceRegistry
+    serviceRegistry: ServiceRegistry,
+    target?: string
 ): Promise<void> => {
-    const { log } = serviceRegistry
+    const { log, sources, fusion } = serviceRegistry
 
     log.debug(`Fusion action called for account ${fusionAccount.name} with operation ${op}`)
 
-    // TODO: Implement fusion action logic
     if (op === AttributeChangeOp.Add) {
-        // fusionAccount.actions.add('fusion')
+        if (!target) {
+            log.warn(`Fusion action for account ${fusionAccount.name} requires a fusionTarget managed account ID`)
+            return
+        }
+
+        const newFusionAccount = target.startsWith(NEW_FUSION_ACCOUNT_PREFIX)
+        const accountId = newFusionAccount ? target.slice(NEW_FUSION_ACCOUNT_PREFIX.length) : target
+        // Load the account into the work queue, where the forced decision claims it from
+        if (!sources.managedAccountsById.has(accountId)) {
+            await sources.fetchManagedAccount(accountId)
+        }
+        const account = sources.managedAccountsById.get(accountId)
+        if (!account) {
+            log.warn(`Fusion action target account ${accountId} not found`)
+            return
+        }
+
+        if (newFusionAccount) {
+            await fusion.forceNewFusionAccount(fusionAccount, account)
+        } else {
+            await fusion.forceMergeAccount(fusionAccount, account)
+        }
     } else if (op === AttributeChangeOp.Remove) {
-        // fusionAccount.actions.delete('fusion')
+        // Removing the fusion action doesn't undo the decision, just removes the action
+        log.debug(`Fusion action removed for account ${fusionAccount.name}`)
     }
 }
@@ -0,0 +1,18 @@
+import { AttributeChangeOp } from '@sailpoint/connector-sdk'
+import { FusionAccount } from '../../model/account'
+import { ServiceRegistry } from '../../services/serviceRegistry'
+import { generateIdentityDuplicateReport } from '../helpers/generateIdentityDuplicateReport'
+
+/**
+ * Identities action handler – compares fusion identities with each other and sends the duplicate identity report
+ * @param serviceRegistry - Request-scoped registry (required for concurrent updates to avoid global state)
+ */
+export const identitiesAction = async (
+    fusionAccount: FusionAccount,
+    op: AttributeChangeOp,
+    serviceRegistry: ServiceRegistry
+): Promise<void> => {
+    if (op === AttributeChangeOp.Add) {
+        await generateIdentityDuplicateReport(fusionAccount, serviceRegistry)
+    }
+}
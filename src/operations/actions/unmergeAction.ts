@@ -0,0 +1,38 @@
+import { AttributeChangeOp } from '@sailpoint/connector-sdk'
+import { FusionAccount } from '../../model/account'
+import { ServiceRegistry } from '../../services/serviceRegistry'
+
+/**
+ * Unmerge action handler
+ * Detaches the fusion identity's accounts from the selected source (or the account with the given ID)
+ * when the "unmerge:<sourceId>" action is added
+ * @param target - Source ID or managed account ID to detach
+ * @param serviceRegistry - Request-scoped registry (required for concurrent updates to avoid global state)
+ */
+export const unmergeAction = async (
+    fusionAccount: FusionAccount,
+    op: AttributeChangeOp,
+    target: string,
+    serviceRegistry: ServiceRegistry
+): Promise<void> => {
+    const { log, sources, fusion } = serviceRegistry
+
+    log.debug(`Unmerge action called for account ${fusionAccount.name} with operation ${op}`)
+
+    if (op === AttributeChangeOp.Add) {
+        let unmerged = 0
+        for (const id of fusionAccount.accountIds) {
+            const account = await sources.fetchAccountById(id)
+            if (!account || (account.id !== target && account.sourceId !== target)) continue
+            await fusion.unmergeAccount(fusionAccount, account)
+            unmerged++
+        }
+
+        if (unmerged === 0) {
+            log.warn(`No account matching ${target} found for fusion account ${fusionAccount.name}`)
+        }
+    } else if (op === AttributeChangeOp.Remove) {
+        // Removing the unmerge action doesn't restore the account, just removes the action
+        log.debug(`Unmerge action removed for account ${fusionAccount.name}`)
+    }
+}
@@ -0,0 +1,34 @@
+import { ServiceRegistry } from '../../services/serviceRegistry'
+import { FusionAccount } from '../../model/account'
+import { FusionReport } from '../../services/fusionService'
+
+export const generateEvaluationReport = async (fusionAccount: FusionAccount, serviceRegistry?: ServiceRegistry) => {
+    if (!serviceRegistry) {
+        serviceRegistry = ServiceRegistry.getCurrent()
+    }
+    const { fusion, identities, sources, messaging } = serviceRegistry
+
+    const fetchPromises = [
+        messaging.fetchSender(),
+        sources.fetchFusionAccounts(),
+        identities.fetchIdentities(),
+        sources.fetchManagedAccounts(),
+    ]
+
+    await Promise.all(fetchPromises)
+
+    await fusion.processFusionAccounts()
+    await fusion.processIdentities()
+
+    identities.clear()
+
+    const evaluation = await fusion.evaluateFusionDecisions()
+    const report: FusionReport = {
+        accounts: [],
+        totalAccounts: evaluation.decisions,
+        potentialDuplicates: evaluation.truePositives + evaluation.falseMerges,
+        reportDate: new Date(),
+        evaluation,
+    }
+    await messaging.sendReport(report, fusionAccount)
+}
@@ -0,0 +1,32 @@
+import { ServiceRegistry } from '../../services/serviceRegistry'
+import { FusionAccount } from '../../model/account'
+
+export const generateIdentityDuplicateReport = async (
+    fusionAccount: FusionAccount,
+    serviceRegistry?: ServiceRegistry
+) => {
+    if (!serviceRegistry) {
+        serviceRegistry = ServiceRegistry.getCurrent()
+    }
+    const { fusion, forms, identities, sources, messaging } = serviceRegistry
+
+    const fetchPromises = [
+        messaging.fetchSender(),
+        sources.fetchFusionAccounts(),
+        identities.fetchIdentities(),
+        sources.fetchManagedAccounts(),
+    ]
+
+    await Promise.all(fetchPromises)
+
+    // Pending identity merge forms are read so the scan does not create them twice
+    await forms.fetchFormData()
+    await fusion.processFusionAccounts()
+    await fusion.processIdentities()
+
+    identities.clear()
+
+    await fusion.processIdentityDuplicates()
+    const report = fusion.generateIdentityDuplicateReport()
+    await messaging.sendReport(report, fusionAccount)
+}
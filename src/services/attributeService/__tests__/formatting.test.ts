@@ -133,6 +133,45 @@ describe('evaluateVelocityTemplate', () => {
         })
     })
 
+    // ========================================================================
+    // Normalize.personName() / givenName() / familyName() - Name Parsing
+    // ========================================================================
+
+    describe('Normalize.personName() - name parsing', () => {
+        it('should drop honorifics and suffixes', () => {
+            const context = { fullName: 'DR. JOSÉ DE LA CRUZ JR.' }
+            const result = evaluateVelocityTemplate('$Normalize.personName($fullName)', context)
+            expect(result).toBe('José de la Cruz')
+        })
+
+        it('should read family name first when written with a comma', () => {
+            const context = { fullName: 'Cruz, José de la' }
+            const result = evaluateVelocityTemplate('$Normalize.personName($fullName)', context)
+            expect(result).toBe('José de la Cruz')
+        })
+
+        it('should read a capitalized family name first', () => {
+            const context = { fullName: 'NAGY Péter' }
+            const result = evaluateVelocityTemplate('$Normalize.familyName($fullName)', context)
+            expect(result).toBe('Nagy')
+        })
+
+        it('should keep particles with the family name', () => {
+            const context = { fullName: 'Ludwig van Beethoven' }
+            const result = evaluateVelocityTemplate(
+                '$Normalize.givenName($fullName)|$Normalize.familyName($fullName)',
+                context
+            )
+            expect(result).toBe('Ludwig|van Beethoven')
+        })
+
+        it('should read family name first when requested', () => {
+            const context = { fullName: 'Nagy Péter' }
+            const result = evaluateVelocityTemplate('$Normalize.personName($fullName, true)', context)
+            expect(result).toBe('Péter Nagy')
+        })
+    })
+
     // ========================================================================
     // Normalize.phone() - Phone Number Normalization
     // ========================================================================
@@ -109,6 +109,26 @@ export class AttributeService {
         return state
     }
 
+    /**
+     * Set state entries that are not attribute counters, such as learned matching statistics
+     */
+    public setStateValues(values: Record<string, number>): void {
+        const stateWrapper = this.getStateWrapper()
+        for (const [key, value] of Object.entries(values)) {
+            stateWrapper.state.set(key, value)
+        }
+    }
+
+    /**
+     * Remove entries from the state object
+     */
+    public removeStateValues(keys: string[]): void {
+        const stateWrapper = this.getStateWrapper()
+        for (const key of keys) {
+            stateWrapper.state.delete(key)
+        }
+    }
+
     /**
      * Set state wrapper for counter-based attributes
      * Injects lock service for thread-safe counter operations in parallel processing
@@ -6,6 +6,7 @@ import { State, City } from './geoData'
 // @ts-expect-error - no types available
 import parseAddressString from 'parse-address-string'
 import { capitalizeFirst } from '../../utils'
+import { parseName } from '../scoringService/nameParsing'
 
 /**
  * Wraps a Normalize helper that may return undefined. When it does, logs and returns ''
@@ -190,6 +191,29 @@ const normalizeFullName = (name: string): string | undefined => {
     return `${normalizedFirst} ${normalizedLast}`
 }
 
+/**
+ * Person name without honorifics and suffixes, given names first, in proper case
+ * (e.g., 'DR. JOSÉ DE LA CRUZ JR.' -> 'José de la Cruz', 'NAGY Péter' -> 'Péter Nagy')
+ * @param familyFirst - Read the name family name first when nothing else tells the order
+ */
+const normalizePersonName = (name: string, familyFirst: boolean = false): string | undefined => {
+    if (!name || !name.trim()) return undefined
+    const { given, family } = parseName(name, familyFirst)
+    return properCaseName([...given, ...family].join(' '))
+}
+
+const normalizeGivenName = (name: string, familyFirst: boolean = false): string | undefined => {
+    if (!name || !name.trim()) return undefined
+    const { given } = parseName(name, familyFirst)
+    return given.length > 0 ? properCaseName(given.join(' ')) : undefined
+}
+
+const normalizeFamilyName = (name: string, familyFirst: boolean = false): string | undefined => {
+    if (!name || !name.trim()) return undefined
+    const { family } = parseName(name, familyFirst)
+    return family.length > 0 ? properCaseName(family.join(' ')) : undefined
+}
+
 const normalizeSSN = (ssn: string): string | undefined => {
     if (!ssn) return undefined
     // Remove all non-digits
@@ -249,6 +273,9 @@ const Normalize = {
     phone: withNormalizeFallback('phone', normalizePhoneNumber),
     name: withNormalizeFallback('name', properCaseName),
     fullName: withNormalizeFallback('fullName', normalizeFullName),
+    personName: withNormalizeFallback('personName', normalizePersonName),
+    givenName: withNormalizeFallback('givenName', normalizeGivenName),
+    familyName: withNormalizeFallback('familyName', normalizeFamilyName),
     ssn: withNormalizeFallback('ssn', normalizeSSN),
     address: withNormalizeFallback('address', normalizeAddress)
 }
@@ -35,7 +35,14 @@ export class EntitlementService {
             description: `Reviewer for potentially duplicated identities from ${name} source`,
         }))
 
-        const sourceEntitlements = sourceInput.map((x) => new Action(x))
+        // Create source-specific unmerge entitlements
+        const unmergeInput = sources.map(({ id, name }) => ({
+            id: `unmerge:${id!}`,
+            name: `Unmerge ${name} account`,
+            description: `Detach the ${name} account from the fusion identity`,
+        }))
+
+        const sourceEntitlements = [...sourceInput, ...unmergeInput].map((x) => new Action(x))
         return [...actionEntitlements, ...sourceEntitlements]
     }
 }
@@ -0,0 +1,72 @@
+import { FusionConfig } from '../../../model/config'
+import { FusionDecision, FusionDecisionLedgerEntry } from '../../../model/form'
+import { ClientService } from '../../clientService'
+import { LogService } from '../../logService'
+import { SourceService } from '../../sourceService'
+import { DECISION_LEDGER_CONFIG_PATH } from '../constants'
+import { FormService } from '../formService'
+import { toLedgerEntry } from '../ledger'
+
+const reviewer = { id: 'reviewer-1', email: 'reviewer@example.com', name: 'Reviewer' }
+
+const decision = (overrides: Partial<FusionDecision> = {}): FusionDecision => ({
+    submitter: reviewer,
+    account: { id: 'account-1', name: 'jsmith', sourceName: 'HR' },
+    newIdentity: false,
+    identityId: 'identity-1',
+    comments: '',
+    finished: true,
+    decisionDate: '2024-03-15T10:00:00.000Z',
+    ...overrides,
+})
+
+// ============================================================================
+// FormService.saveDecisionLedger
+// ============================================================================
+
+describe('FormService.saveDecisionLedger', () => {
+    const createForms = (fusionDecisionLedger?: FusionDecisionLedgerEntry[]) => {
+        const sources = { fusionSourceId: 'fusion-source', patchSourceConfig: jest.fn() }
+        const log = { debug: jest.fn(), info: jest.fn() }
+        const config = { fusionDecisionLedger } as unknown as FusionConfig
+        const forms = new FormService(
+            config,
+            log as unknown as LogService,
+            {} as ClientService,
+            sources as unknown as SourceService
+        )
+        return { forms, sources }
+    }
+    const patchedOperations = (sources: { patchSourceConfig: jest.Mock }) =>
+        sources.patchSourceConfig.mock.calls.map(([, request]) => request.jsonPatchOperationV2025)
+
+    it('should only append new entries to a saved ledger', async () => {
+        const loaded = [toLedgerEntry(decision({ formInstanceId: 'form-1' }), '2024-01-01T00:00:00.000Z')]
+        const { forms, sources } = createForms(loaded)
+        forms.recordFusionDecision(decision({ formInstanceId: 'form-1' }))
+        forms.recordFusionDecision(decision({ formInstanceId: 'form-2' }))
+        forms.recordFusionDecision(decision({ formInstanceId: 'form-3' }))
+        await forms.saveDecisionLedger()
+
+        const [operations] = patchedOperations(sources)
+        expect(operations.map((op: { op: string; path: string }) => [op.op, op.path])).toEqual([
+            ['add', `${DECISION_LEDGER_CONFIG_PATH}/-`],
+            ['add', `${DECISION_LEDGER_CONFIG_PATH}/-`],
+        ])
+        expect(operations.map((op: { value: FusionDecisionLedgerEntry }) => op.value.id)).toEqual(['form-2', 'form-3'])
+    })
+
+    it('should create the ledger on the first save and append afterwards', async () => {
+        const { forms, sources } = createForms()
+        forms.recordFusionDecision(decision({ formInstanceId: 'form-1' }))
+        await forms.saveDecisionLedger()
+        forms.recordFusionDecision(decision({ formInstanceId: 'form-2' }))
+        await forms.saveDecisionLedger()
+        await forms.saveDecisionLedger()
+
+        const [created, appended] = patchedOperations(sources)
+        expect(sources.patchSourceConfig).toHaveBeenCalledTimes(2)
+        expect(created).toEqual([{ op: 'add', path: DECISION_LEDGER_CONFIG_PATH, value: [expect.any(Object)] }])
+        expect(appended).toEqual([{ op: 'add', path: `${DECISION_LEDGER_CONFIG_PATH}/-`, value: expect.any(Object) }])
+    })
+})
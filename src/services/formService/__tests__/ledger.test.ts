@@ -0,0 +1,130 @@
+import { FusionDecision } from '../../../model/form'
+import { buildLedgerEntryId, DecisionLedger, fromLedgerEntry, toLedgerEntry } from '../ledger'
+
+const reviewer = { id: 'reviewer-1', email: 'reviewer@example.com', name: 'Reviewer' }
+const system = { id: 'system', email: '', name: 'System' }
+
+const decision = (overrides: Partial<FusionDecision> = {}): FusionDecision => ({
+    submitter: reviewer,
+    account: { id: 'account-1', name: 'jsmith', sourceName: 'HR' },
+    newIdentity: false,
+    identityId: 'identity-1',
+    comments: '',
+    finished: true,
+    decisionDate: '2024-03-15T10:00:00.000Z',
+    ...overrides,
+})
+
+describe('buildLedgerEntryId', () => {
+    it('should use the form instance of reviewer decisions', () => {
+        expect(buildLedgerEntryId(decision({ formInstanceId: 'form-1' }))).toBe('form-1')
+    })
+
+    it('should use the submitter, account and target of system decisions', () => {
+        expect(buildLedgerEntryId(decision({ submitter: system }))).toBe('system:account-1:identity-1')
+        expect(buildLedgerEntryId(decision({ identityId: undefined, newIdentity: true }))).toBe(
+            'reviewer-1:account-1:new'
+        )
+        expect(buildLedgerEntryId(decision({ identityId: undefined, mergedInto: 'fusion-1' }))).toBe(
+            'reviewer-1:account-1:fusion:fusion-1'
+        )
+    })
+
+    it('should include the date of unmerge and forced decisions, which can repeat', () => {
+        expect(buildLedgerEntryId(decision({ unmergedFrom: 'identity-2' }))).toBe(
+            'reviewer-1:account-1:identity-1:unmerge:2024-03-15T10:00:00.000Z'
+        )
+        expect(buildLedgerEntryId(decision({ forced: true }))).toBe(
+            'reviewer-1:account-1:identity-1:forced:2024-03-15T10:00:00.000Z'
+        )
+    })
+})
+
+describe('toLedgerEntry and fromLedgerEntry', () => {
+    it('should round-trip a decision', () => {
+        const original = decision({
+            formInstanceId: 'form-1',
+            scores: [{ identityId: 'identity-1', attribute: 'email', algorithm: 'email', score: 100 }],
+        })
+        const restored = fromLedgerEntry(toLedgerEntry(original, '2024-01-01T00:00:00.000Z'))
+        const { formInstanceId, ...rest } = original
+        expect(formInstanceId).toBe('form-1')
+        expect(restored).toEqual(expect.objectContaining(rest))
+    })
+
+    it('should fall back to the given timestamp for decisions without a date', () => {
+        const entry = toLedgerEntry(decision({ decisionDate: undefined }), '2024-01-01T00:00:00.000Z')
+        expect(entry.timestamp).toBe('2024-01-01T00:00:00.000Z')
+    })
+})
+
+describe('DecisionLedger', () => {
+    it('should append finished decisions once and keep them pending until saved', () => {
+        const ledger = new DecisionLedger()
+        expect(ledger.append(decision({ formInstanceId: 'form-1' }))).toBe(true)
+        expect(ledger.append(decision({ formInstanceId: 'form-1' }))).toBe(false)
+        expect(ledger.append(decision({ formInstanceId: 'form-2', finished: false }))).toBe(false)
+        expect(ledger.size).toBe(1)
+        expect(ledger.pendingEntries.map((entry) => entry.id)).toEqual(['form-1'])
+
+        ledger.markSaved()
+        expect(ledger.pendingEntries).toEqual([])
+        expect(ledger.size).toBe(1)
+    })
+
+    it('should not append decisions already loaded', () => {
+        const loaded = toLedgerEntry(decision({ formInstanceId: 'form-1' }), '2024-01-01T00:00:00.000Z')
+        const ledger = new DecisionLedger([loaded])
+        expect(ledger.append(decision({ formInstanceId: 'form-1' }))).toBe(false)
+        expect(ledger.pendingEntries).toEqual([])
+    })
+
+    it('should select reviewer and action entries', () => {
+        const ledger = new DecisionLedger()
+        ledger.append(decision({ formInstanceId: 'form-1' }))
+        ledger.append(decision({ submitter: system, account: { id: 'account-2', name: 'a2', sourceName: 'HR' } }))
+        ledger.append(decision({ unmergedFrom: 'identity-1', decisionDate: '2024-03-16T10:00:00.000Z' }))
+        ledger.append(decision({ forced: true, decisionDate: '2024-03-17T10:00:00.000Z' }))
+
+        expect(ledger.getReviewerEntries().map((entry) => entry.id)).toEqual(['form-1'])
+        const actionEntries = ledger.getActionEntries()
+        expect(actionEntries).toHaveLength(1)
+        expect(actionEntries[0].forced).toBe(true)
+    })
+
+    it('should find the entries of an identity, its accounts and cluster members', () => {
+        const ledger = new DecisionLedger()
+        ledger.append(decision({ formInstanceId: 'form-1' }))
+        ledger.append(
+            decision({
+                formInstanceId: 'form-2',
+                identityId: undefined,
+                newIdentity: true,
+                account: { id: 'account-2', name: 'a2', sourceName: 'HR' },
+                clusterAccounts: [{ id: 'account-3', name: 'a3', sourceName: 'CRM' }],
+            })
+        )
+
+        expect(ledger.getEntries('identity-1', []).map((entry) => entry.id)).toEqual(['form-1'])
+        expect(ledger.getEntries(undefined, ['account-3']).map((entry) => entry.id)).toEqual(['form-2'])
+        expect(ledger.getEntries(undefined, ['account-9'])).toEqual([])
+    })
+
+    // ========================================================================
+    // Append-only
+    // ========================================================================
+
+    describe('append-only', () => {
+        const entry = (id: string) => toLedgerEntry(decision({ formInstanceId: id }), '2024-01-01T00:00:00.000Z')
+
+        it('should keep every loaded entry however large the ledger grows', () => {
+            const loaded = Array.from({ length: 2500 }, (_, index) => entry(`form-${index}`))
+            const ledger = new DecisionLedger(loaded)
+            ledger.append(decision({ formInstanceId: 'form-new' }))
+
+            expect(ledger.size).toBe(2501)
+            expect(ledger.getEntries('identity-1', []).map((x) => x.id)[0]).toBe('form-0')
+            expect(ledger.pendingEntries.map((x) => x.id)).toEqual(['form-new'])
+        })
+    })
+})
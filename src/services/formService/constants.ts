@@ -11,8 +11,19 @@ export const ALGORITHM_LABELS: Record<string, string> = {
     lig3: 'LIG3',
     dice: 'Dice',
     'double-metaphone': 'Double Metaphone',
+    date: 'Date',
+    email: 'Email',
+    phone: 'Phone Number',
+    address: 'Address',
+    veto: 'Veto Rule',
     custom: 'Custom Algorithm (from SaaS customizer)',
     average: 'Average Score',
+    probabilistic: 'Match Weight (probabilistic)',
 }
 
 export const MAX_CANDIDATES_FOR_FORM = 15
+
+/**
+ * Source config path of the fusion decision ledger, kept next to the fusion state
+ */
+export const DECISION_LEDGER_CONFIG_PATH = '/connectorAttributes/fusionDecisionLedger'
@@ -4,6 +4,7 @@ import {
 } from 'sailpoint-api-client'
 import { FusionAccount } from '../../model/account'
 import { capitalizeFirst } from '../../utils/attributes'
+import { describeScore } from '../scoringService'
 import { ALGORITHM_LABELS } from './constants'
 import { Candidate } from './types'
 
@@ -11,13 +12,68 @@ import { Candidate } from './types'
 // Form Building Functions
 // ============================================================================
 
+/**
+ * Format a score for display: "Score: X [Y]" where X is the score and Y is the threshold,
+ * followed by "(weight W)" when the attribute has a weight in the overall score.
+ * Broken veto rules show their reason instead.
+ */
+const formatScoreDisplay = (score: any): string => {
+    if (score.algorithm === 'veto') return `Veto: ${score.comment}`
+    const scoreValue = Number(score.score)
+    const thresholdValue = score.fusionScore
+    const displayScore = Number.isFinite(scoreValue) ? Math.round(scoreValue * 100) / 100 : 'N/A'
+
+    let displayValue =
+        thresholdValue !== undefined && thresholdValue !== null
+            ? `Score: ${displayScore} [${thresholdValue}]`
+            : `Score: ${displayScore}`
+    if (score.weight !== undefined && score.weight !== null) {
+        displayValue += ` (weight ${score.weight})`
+    }
+    return displayValue
+}
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Description element with the scorer's explanation of a score, shown below the score field,
+ * or undefined when the scorer gave no details. Veto rows already show their reason as the score value.
+ */
+const buildScoreDetailsElement = (id: string, attrName: string, score: any): FormElementV2025 | undefined => {
+    if (score.algorithm === 'veto') return undefined
+    const lines = describeScore(score)
+    if (lines.length === 0) return undefined
+    return {
+        id,
+        key: id,
+        elementType: 'DESCRIPTION',
+        config: {
+            description: `<p style="font-size: 9pt; color: #5f6b7a;">${lines.map(escapeHtml).join('<br>')}</p>`,
+            label: `${capitalizeFirst(attrName)} score details`,
+            showLabel: false,
+        },
+        validations: [],
+    }
+}
+
+/**
+ * Managed account IDs of the other accounts of a cluster review, comma-separated
+ */
+const buildClusterAccountIds = (clusterAccounts: FusionAccount[]): string =>
+    clusterAccounts
+        .map((account) => account.managedAccountId)
+        .filter((id) => id)
+        .join(',')
+
 /**
  * Build form input data structure
  */
 export const buildFormInput = (
     fusionAccount: FusionAccount,
     candidates: Candidate[],
-    fusionFormAttributes?: string[]
+    fusionFormAttributes?: string[],
+    clusterAccounts?: FusionAccount[]
 ): { [key: string]: any } => {
     const formInput: { [key: string]: any } = {}
 
@@ -38,6 +94,9 @@ export const buildFormInput = (
         accountIdentifier
     formInput.account = accountIdentifier
     formInput.source = fusionAccount.sourceName
+    if (clusterAccounts && clusterAccounts.length > 0) {
+        formInput.cluster = buildClusterAccountIds(clusterAccounts)
+    }
     // Defaults for interactive decision fields
     // Keep as string for newIdentity to align with TOGGLE element.
     formInput.newIdentity = 'false'
@@ -72,13 +131,7 @@ export const buildFormInput = (
                 if (score.attribute && score.score !== undefined) {
                     const attrKey = String(score.attribute).charAt(0).toLowerCase() + String(score.attribute).slice(1)
                     const algorithmKey = String(score.algorithm ?? 'unknown')
-                    const scoreValue = Number(score.score)
-                    const thresholdValue = score.fusionScore
-
-                    // Format: "Score: X [Y]" where X is the score and Y is the threshold
-                    const displayValue = thresholdValue !== undefined && thresholdValue !== null
-                        ? `Score: ${Number.isFinite(scoreValue) ? scoreValue : 'N/A'} [${thresholdValue}]`
-                        : `Score: ${Number.isFinite(scoreValue) ? scoreValue : 'N/A'}`
+                    const displayValue = formatScoreDisplay(score)
 
                     formInput[`${candidateId}.${attrKey}.${algorithmKey}.score`] = displayValue
                 }
@@ -95,7 +148,8 @@ export const buildFormInput = (
 export const buildFormFields = (
     fusionAccount: FusionAccount,
     candidates: Candidate[],
-    fusionFormAttributes?: string[]
+    fusionFormAttributes?: string[],
+    clusterAccounts?: FusionAccount[]
 ): FormElementV2025[] => {
     const formFields: FormElementV2025[] = []
 
@@ -137,9 +191,43 @@ export const buildFormFields = (
         })
     }
 
+    // Cluster section: the other accounts the decision applies to
+    if (clusterAccounts && clusterAccounts.length > 0) {
+        const accountItems = clusterAccounts
+            .map((account) => `<li>${account.name || account.displayName || 'Unknown'} [${account.sourceName}]</li>`)
+            .join('')
+        formFields.push({
+            id: 'clusterSection',
+            key: 'clusterSection',
+            elementType: 'SECTION',
+            config: {
+                alignment: 'CENTER',
+                formElements: [
+                    {
+                        id: 'clusterAccounts',
+                        key: 'clusterAccounts',
+                        elementType: 'DESCRIPTION',
+                        config: {
+                            description: `<p>These accounts are potential duplicates of this account${candidates.length > 0 ? ' and of the candidate identities' : ''}. Your decision applies to all of them.</p><ul>${accountItems}</ul>`,
+                            label: 'Cluster accounts',
+                            showLabel: false,
+                        },
+                        validations: [],
+                    },
+                ],
+                label: `Also applies to ${clusterAccounts.length} other account(s)`,
+                labelStyle: 'h4',
+                showLabel: true,
+            },
+            validations: [],
+        })
+    }
+
     // Build search query for identities: id:xxx OR id:yyy OR id:zzz
     const identityIds = candidates.map((candidate) => candidate.id)
     const identitySearchQuery = identityIds.map((id) => `id:${id}`).join(' OR ')
+    // Without candidate identities, the reviewer can only choose a new identity
+    const columnCount = identityIds.length > 0 ? 2 : 1
 
     // Fusion decision section: New identity toggle and identities select in a COLUMN_SET
     formFields.push({
@@ -155,7 +243,7 @@ export const buildFormFields = (
                     elementType: 'COLUMN_SET',
                     config: {
                         alignment: 'CENTER',
-                        columnCount: 2,
+                        columnCount,
                         columns: [
                             [
                                 {
@@ -198,7 +286,7 @@ export const buildFormFields = (
                                     validations: [],
                                 },
                             ],
-                        ],
+                        ].slice(0, columnCount),
                         description: '',
                         label: 'Decisions',
                         labelStyle: 'h5',
@@ -238,7 +326,8 @@ export const buildFormFields = (
         }
 
         // Add score details header and individual score display fields per check
-        // Each field shows: label = "AttributeName", helpText = "Algorithm", value = "Score: X [Y]"
+        // Each field shows: label = "AttributeName", helpText = "Algorithm", value = "Score: X [Y]",
+        // followed by the scorer's explanation when it gave one
         if (candidate.scores && Array.isArray(candidate.scores) && candidate.scores.length > 0) {
             candidateElements.push({
                 id: `${candidateId}.scoreDetailsHeader`,
@@ -261,13 +350,7 @@ export const buildFormFields = (
                     const attrKey = attrName.charAt(0).toLowerCase() + attrName.slice(1)
                     const algorithmKey = String(score.algorithm ?? 'unknown')
                     const algorithm = ALGORITHM_LABELS[algorithmKey] ?? algorithmKey
-                    const scoreValue = Number(score.score)
-                    const thresholdValue = score.fusionScore
-
-                    // Format: "Score: X [Y]" where X is the score and Y is the threshold
-                    const displayValue = thresholdValue !== undefined && thresholdValue !== null
-                        ? `Score: ${Number.isFinite(scoreValue) ? scoreValue : 'N/A'} [${thresholdValue}]`
-                        : `Score: ${Number.isFinite(scoreValue) ? scoreValue : 'N/A'}`
+                    const displayValue = formatScoreDisplay(score)
 
                     candidateElements.push({
                         id: `${candidateId}.${attrKey}.${algorithmKey}.score`,
@@ -280,6 +363,13 @@ export const buildFormFields = (
                         },
                         validations: [],
                     })
+
+                    const details = buildScoreDetailsElement(
+                        `${candidateId}.${attrKey}.${algorithmKey}.details`,
+                        attrName,
+                        score
+                    )
+                    if (details) candidateElements.push(details)
                 }
             })
         }
@@ -383,7 +473,8 @@ export const buildFormConditions = (candidates: Candidate[], _fusionFormAttribut
 export const buildFormInputs = (
     fusionAccount: FusionAccount,
     candidates: Candidate[],
-    fusionFormAttributes?: string[]
+    fusionFormAttributes?: string[],
+    clusterAccounts?: FusionAccount[]
 ): FormDefinitionInputV2025[] => {
     const formInputs: FormDefinitionInputV2025[] = []
 
@@ -418,6 +509,14 @@ export const buildFormInputs = (
         label: 'source',
         description: fusionAccount.sourceName,
     })
+    if (clusterAccounts && clusterAccounts.length > 0) {
+        formInputs.push({
+            id: 'cluster',
+            type: 'STRING',
+            label: 'cluster',
+            description: buildClusterAccountIds(clusterAccounts),
+        })
+    }
 
     // Decision inputs (bound to interactive elements)
     // NOTE: SDK only supports STRING / ARRAY for definition inputs. Toggle still binds to this key.
@@ -469,13 +568,7 @@ export const buildFormInputs = (
                 if (score.attribute && score.score !== undefined) {
                     const attrKey = String(score.attribute).charAt(0).toLowerCase() + String(score.attribute).slice(1)
                     const algorithmKey = String(score.algorithm ?? 'unknown')
-                    const scoreValue = Number(score.score)
-                    const thresholdValue = score.fusionScore
-
-                    // Format: "Score: X [Y]" where X is the score and Y is the threshold
-                    const displayValue = thresholdValue !== undefined && thresholdValue !== null
-                        ? `Score: ${Number.isFinite(scoreValue) ? scoreValue : 'N/A'} [${thresholdValue}]`
-                        : `Score: ${Number.isFinite(scoreValue) ? scoreValue : 'N/A'}`
+                    const displayValue = formatScoreDisplay(score)
 
                     formInputs.push({
                         id: `${candidateId}.${attrKey}.${algorithmKey}.score`,
@@ -490,3 +583,215 @@ export const buildFormInputs = (
 
     return formInputs
 }
+
+// ============================================================================
+// Identity Merge Form Building Functions
+// ============================================================================
+
+/**
+ * Build form input data structure for an identity merge review.
+ * Identity attributes are keyed by identity ID, pair scores by "pair.<attribute>.<algorithm>.score".
+ */
+export const buildIdentityMergeFormInput = (
+    candidates: Candidate[],
+    fusionFormAttributes?: string[]
+): { [key: string]: any } => {
+    const [identity, duplicate] = candidates
+    const formInput: { [key: string]: any } = {}
+
+    formInput.name = `${identity.name} / ${duplicate.name}`
+    formInput.identity = identity.id
+    formInput.duplicate = duplicate.id
+    formInput.keepSeparate = 'false'
+
+    candidates.forEach((candidate) => {
+        if (fusionFormAttributes && fusionFormAttributes.length > 0) {
+            fusionFormAttributes.forEach((attrName) => {
+                const attrKey = attrName.charAt(0).toLowerCase() + attrName.slice(1)
+                const attrValue = candidate.attributes?.[attrName] || candidate.attributes?.[attrKey] || ''
+                formInput[`${candidate.id}.${attrKey}`] = String(attrValue)
+            })
+        }
+    })
+
+    duplicate.scores.forEach((score: any) => {
+        if (!score || score.attribute === undefined || score.score === undefined) return
+        const attrKey = String(score.attribute).charAt(0).toLowerCase() + String(score.attribute).slice(1)
+        formInput[`pair.${attrKey}.${String(score.algorithm ?? 'unknown')}.score`] = formatScoreDisplay(score)
+    })
+
+    return formInput
+}
+
+/**
+ * Build form fields for an identity merge review: the decision, one section per identity and the pair scores
+ */
+export const buildIdentityMergeFormFields = (
+    candidates: Candidate[],
+    fusionFormAttributes?: string[]
+): FormElementV2025[] => {
+    const [identity, duplicate] = candidates
+    const formFields: FormElementV2025[] = []
+
+    const identitySearchQuery = candidates.map((candidate) => `id:${candidate.id}`).join(' OR ')
+    formFields.push({
+        id: 'identitiesSection',
+        key: 'identitiesSection',
+        elementType: 'SECTION',
+        config: {
+            alignment: 'CENTER',
+            description: `${identity.name} and ${duplicate.name} were found to be potential duplicates of each other. Select the identity that should keep its accounts and absorb the other's, or mark them as not duplicates.`,
+            formElements: [
+                {
+                    id: 'decisionsColumnSet',
+                    key: 'decisionsColumnSet',
+                    elementType: 'COLUMN_SET',
+                    config: {
+                        alignment: 'CENTER',
+                        columnCount: 2,
+                        columns: [
+                            [
+                                {
+                                    id: 'keepSeparate',
+                                    key: 'keepSeparate',
+                                    elementType: 'TOGGLE',
+                                    config: {
+                                        label: 'Not duplicates',
+                                        default: false,
+                                        trueLabel: 'True',
+                                        falseLabel: 'False',
+                                        helpText: 'Select this if the identities belong to different people',
+                                    },
+                                    validations: [],
+                                },
+                            ],
+                            [
+                                {
+                                    id: 'identities',
+                                    key: 'identities',
+                                    elementType: 'SELECT',
+                                    config: {
+                                        dataSource: {
+                                            config: {
+                                                indices: ['identities'],
+                                                query: identitySearchQuery,
+                                                label: 'attributes.displayName',
+                                                sublabel: 'attributes.email',
+                                                value: 'id',
+                                            },
+                                            dataSourceType: 'SEARCH_V2',
+                                        },
+                                        forceSelect: true,
+                                        label: 'Identity to keep',
+                                        maximum: 1,
+                                        required: false,
+                                        helpText: "Select the identity that absorbs the other identity's accounts",
+                                        placeholder: null,
+                                    },
+                                    validations: [],
+                                },
+                            ],
+                        ],
+                        description: '',
+                        label: 'Decisions',
+                        labelStyle: 'h5',
+                        showLabel: false,
+                    },
+                    validations: [],
+                },
+            ],
+            label: 'Duplicate identity review',
+            labelStyle: 'h2',
+            showLabel: true,
+        },
+        validations: [],
+    })
+
+    // Identity sections: attributes of each identity side by side
+    if (fusionFormAttributes && fusionFormAttributes.length > 0) {
+        candidates.forEach((candidate) => {
+            formFields.push({
+                id: `${candidate.id}.selectionsection`,
+                key: `${candidate.id}.selectionsection`,
+                elementType: 'SECTION',
+                config: {
+                    alignment: 'CENTER',
+                    formElements: fusionFormAttributes.map((attrName) => {
+                        const attrKey = attrName.charAt(0).toLowerCase() + attrName.slice(1)
+                        const attrValue = candidate.attributes?.[attrName] ?? candidate.attributes?.[attrKey] ?? ''
+                        return {
+                            id: `${candidate.id}.${attrKey}`,
+                            key: `${candidate.id}.${attrKey}`,
+                            elementType: 'TEXT',
+                            config: {
+                                label: capitalizeFirst(attrName),
+                                default: String(attrValue),
+                            },
+                            validations: [],
+                        }
+                    }),
+                    label: `${candidate.name} details`,
+                    labelStyle: 'h4',
+                    showLabel: true,
+                },
+                validations: [],
+            })
+        })
+    }
+
+    // Score section: the pair was scored once, so both identities share the same scores
+    const scoreElements: FormElementV2025[] = []
+    duplicate.scores.forEach((score: any) => {
+        if (!score || score.attribute === undefined || score.score === undefined) return
+        const attrName = String(score.attribute)
+        const attrKey = attrName.charAt(0).toLowerCase() + attrName.slice(1)
+        const algorithmKey = String(score.algorithm ?? 'unknown')
+        scoreElements.push({
+            id: `pair.${attrKey}.${algorithmKey}.score`,
+            key: `pair.${attrKey}.${algorithmKey}.score`,
+            elementType: 'TEXT',
+            config: {
+                label: capitalizeFirst(attrName),
+                helpText: ALGORITHM_LABELS[algorithmKey] ?? algorithmKey,
+                default: formatScoreDisplay(score),
+            },
+            validations: [],
+        })
+        const details = buildScoreDetailsElement(`pair.${attrKey}.${algorithmKey}.details`, attrName, score)
+        if (details) scoreElements.push(details)
+    })
+    if (scoreElements.length > 0) {
+        formFields.push({
+            id: 'scoreSection',
+            key: 'scoreSection',
+            elementType: 'SECTION',
+            config: {
+                alignment: 'CENTER',
+                formElements: scoreElements,
+                label: 'Fusion Score details',
+                labelStyle: 'h4',
+                showLabel: true,
+            },
+            validations: [],
+        })
+    }
+
+    return formFields
+}
+
+/**
+ * Build form inputs for an identity merge form definition
+ */
+export const buildIdentityMergeFormInputs = (
+    candidates: Candidate[],
+    fusionFormAttributes?: string[]
+): FormDefinitionInputV2025[] => {
+    // Same keys and values as the instance input, declared as STRING definition inputs
+    const formInput = buildIdentityMergeFormInput(candidates, fusionFormAttributes)
+    return Object.entries(formInput).map(([id, value]) => ({
+        id,
+        type: 'STRING',
+        label: id,
+        description: String(value),
+    }))
+}
@@ -2,7 +2,7 @@ import {
     FormInstanceResponseV2025,
     FormDefinitionInputV2025,
 } from 'sailpoint-api-client'
-import { FusionDecision } from '../../model/form'
+import { FusionDecision, IdentityMergeDecision } from '../../model/form'
 import { IdentityService } from '../identityService'
 import { assert } from '../../utils/assert'
 
@@ -88,6 +88,79 @@ const extractAccountInfo = (formInput: any): { id: string; name: string; sourceN
     }
 }
 
+/**
+ * Extract the other account IDs of a cluster review from form input
+ * Handles both flat structure { cluster: "id1,id2" } and dictionary structure of input objects keyed by id
+ */
+export const extractClusterAccountIds = (formInput: any): string[] => {
+    let cluster: string | undefined
+    if (typeof formInput?.cluster === 'string') {
+        cluster = formInput.cluster
+    } else {
+        const clusterInput = Object.values(formInput ?? {}).find((x: any) => x && x.id === 'cluster') as any
+        cluster = clusterInput?.value || clusterInput?.description
+    }
+
+    return (cluster ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => id)
+}
+
+/**
+ * Extract the two identity IDs of an identity merge review from form input.
+ * Returns undefined for account review forms.
+ */
+export const extractIdentityMergePair = (formInput: any): { identityId: string; duplicateId: string } | undefined => {
+    const readInput = (id: string): string | undefined => {
+        if (typeof formInput?.[id] === 'string') return formInput[id]
+        const input = Object.values(formInput ?? {}).find((x: any) => x && x.id === id) as any
+        return input?.value || input?.description
+    }
+
+    const identityId = readInput('identity')
+    const duplicateId = readInput('duplicate')
+    return identityId && duplicateId ? { identityId, duplicateId } : undefined
+}
+
+const SCORE_KEY_PATTERN = /^(.+)\.([^.]+)\.([^.]+)\.score$/
+const SCORE_VALUE_PATTERN = /^Score:\s*(-?[\d.]+)(?:\s*\[(-?[\d.]+)\])?/
+
+/**
+ * Extract candidate attribute scores from form input.
+ * Score inputs are keyed "<candidateId>.<attribute>.<algorithm>.score" with "Score: X [Y]" values.
+ * Rollup rows (average, probabilistic) and veto rows are skipped since they are not attribute comparisons.
+ */
+const extractCandidateScores = (formInput: any): FusionDecision['scores'] => {
+    // Handles both flat structure { key: value } and dictionary structure of input objects keyed by id
+    const entries: [string, any][] = Object.entries(formInput ?? {}).map(([key, value]) => {
+        const input = value as { id?: string; value?: string; description?: string } | undefined
+        return input && typeof input === 'object' && input.id
+            ? [input.id, input.value || input.description]
+            : [key, value]
+    })
+
+    const scores: NonNullable<FusionDecision['scores']> = []
+    for (const [key, value] of entries) {
+        const keyMatch = SCORE_KEY_PATTERN.exec(key)
+        if (!keyMatch || typeof value !== 'string') continue
+        const [, identityId, attribute, algorithm] = keyMatch
+        if (algorithm === 'average' || algorithm === 'probabilistic' || algorithm === 'veto') continue
+        const valueMatch = SCORE_VALUE_PATTERN.exec(value)
+        if (!valueMatch) continue
+
+        scores.push({
+            identityId,
+            attribute,
+            algorithm,
+            score: Number(valueMatch[1]),
+            threshold: valueMatch[2] !== undefined ? Number(valueMatch[2]) : undefined,
+        })
+    }
+
+    return scores.length > 0 ? scores : undefined
+}
+
 /**
  * Create fusion decision from completed form instance
  * accountInfoOverride allows overriding account info from managedAccountsById before it's deleted
@@ -142,5 +215,56 @@ export const createFusionDecision = (
         comments: formData?.comments || '',
         finished,
         formUrl: formInstance.standAloneFormUrl ?? undefined,
+        scores: extractCandidateScores(formInput),
+        formInstanceId: formInstance.id,
+        decisionDate: formInstance.modified ?? undefined,
+    }
+}
+
+/**
+ * Create identity merge decision from completed form instance
+ * Returns null if decision cannot be created
+ */
+export const createIdentityMergeDecision = (
+    formInstance: FormInstanceResponseV2025,
+    identities?: IdentityService
+): IdentityMergeDecision | null => {
+    assert(formInstance, 'Form instance is required')
+    assert(formInstance.id, 'Form instance ID is required')
+
+    const { formData, formInput, recipients } = formInstance
+    if (!formInput || !recipients || recipients.length === 0) {
+        return null
+    }
+
+    const pair = extractIdentityMergePair(formInput)
+    const reviewerIdentityId = recipients[0].id
+    if (!pair || !reviewerIdentityId) {
+        return null
+    }
+
+    const reviewer = getReviewerInfo(reviewerIdentityId, identities)
+    if (!reviewer) {
+        return null
+    }
+
+    const keepSeparate = formData?.keepSeparate === true || formData?.keepSeparate === 'true'
+    // SELECT elements with dataSource return arrays, extract the first element
+    const identitiesValue = formData?.identities
+    const kept = Array.isArray(identitiesValue) ? identitiesValue[0] : identitiesValue
+    if (!keepSeparate && kept !== pair.identityId && kept !== pair.duplicateId) {
+        return null
+    }
+
+    return {
+        submitter: reviewer,
+        identityId: kept ?? pair.identityId,
+        mergedIdentityId: kept === pair.duplicateId ? pair.identityId : pair.duplicateId,
+        merge: !keepSeparate,
+        comments: formData?.comments || '',
+        finished: formInstance.state === 'COMPLETED' || formInstance.state === 'IN_PROGRESS',
+        formUrl: formInstance.standAloneFormUrl ?? undefined,
+        formInstanceId: formInstance.id,
+        decisionDate: formInstance.modified ?? undefined,
     }
 }
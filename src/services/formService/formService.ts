@@ -10,6 +10,8 @@ import {
     CustomFormsV2025ApiCreateFormInstanceRequest,
     CustomFormsV2025ApiPatchFormInstanceRequest,
     CustomFormsV2025ApiSearchFormInstancesByTenantRequest,
+    JsonPatchOperationV2025,
+    SourcesV2025ApiUpdateSourceRequest,
 } from 'sailpoint-api-client'
 import { RawAxiosRequestConfig } from 'axios'
 import { FusionConfig } from '../../model/config'
@@ -19,13 +21,35 @@ import { IdentityService } from '../identityService'
 import { MessagingService } from '../messagingService'
 import { SourceService } from '../sourceService'
 import { assert, softAssert } from '../../utils/assert'
-import { FusionDecision } from '../../model/form'
+import { FusionDecision, FusionDecisionLedgerEntry, IdentityMergeDecision } from '../../model/form'
 import { FusionAccount } from '../../model/account'
-import { Candidate } from './types'
-import { buildCandidateList, buildFormName, calculateExpirationDate, getFormOwner } from './helpers'
-import { buildFormInput, buildFormFields, buildFormConditions, buildFormInputs } from './formBuilder'
-import { createFusionDecision } from './formProcessor'
-import { MAX_CANDIDATES_FOR_FORM } from './constants'
+import { Candidate, ClusterReview } from './types'
+import {
+    buildCandidateList,
+    buildFormName,
+    buildIdentityMergeCandidates,
+    buildIdentityMergeFormName,
+    calculateExpirationDate,
+    getFormOwner,
+} from './helpers'
+import {
+    buildFormInput,
+    buildFormFields,
+    buildFormConditions,
+    buildFormInputs,
+    buildIdentityMergeFormFields,
+    buildIdentityMergeFormInput,
+    buildIdentityMergeFormInputs,
+} from './formBuilder'
+import {
+    createFusionDecision,
+    createIdentityMergeDecision,
+    extractClusterAccountIds,
+    extractIdentityMergePair,
+} from './formProcessor'
+import { DECISION_LEDGER_CONFIG_PATH, MAX_CANDIDATES_FOR_FORM } from './constants'
+import { DecisionLedger, fromLedgerEntry } from './ledger'
+import { IdentityDuplicate } from '../scoringService'
 
 // ============================================================================
 // FormService Class
@@ -39,11 +63,16 @@ export class FormService {
     private formsToDelete: string[] = []
     private _fusionIdentityDecisions?: FusionDecision[]
     private fusionAssignmentDecisionMap: Map<string, FusionDecision> = new Map()
+    private _identityMergeDecisions: IdentityMergeDecision[] = []
+    // Identity pairs with an identity merge form still waiting for a response, as "<id>:<id>" in both orders
+    private pendingIdentityMergePairs: Set<string> = new Set()
     /** Pending (unanswered) form instance URLs by recipient identityId, populated during fetchFormData. */
     private _pendingReviewUrlsByReviewerId: Map<string, string[]> = new Map()
     private readonly fusionFormNamePattern: string
     private readonly fusionFormExpirationDays: number
     private readonly fusionFormAttributes?: string[]
+    private readonly ledger: DecisionLedger
+    private ledgerPersisted: boolean
 
     // ------------------------------------------------------------------------
     // Constructor
@@ -60,6 +89,8 @@ export class FormService {
         this.fusionFormNamePattern = config.fusionFormNamePattern
         this.fusionFormExpirationDays = config.fusionFormExpirationDays
         this.fusionFormAttributes = config.fusionFormAttributes
+        this.ledger = new DecisionLedger(config.fusionDecisionLedger)
+        this.ledgerPersisted = Array.isArray(config.fusionDecisionLedger)
     }
 
     // ------------------------------------------------------------------------
@@ -75,6 +106,8 @@ export class FormService {
 
         this._fusionIdentityDecisions = []
         this.fusionAssignmentDecisionMap = new Map()
+        this._identityMergeDecisions = []
+        this.pendingIdentityMergePairs = new Set()
         this._pendingReviewUrlsByReviewerId = new Map()
 
         const forms = await this.fetchFormsByName(this.fusionFormNamePattern)
@@ -127,12 +160,102 @@ export class FormService {
         this.log.debug('Form cleanup completed')
     }
 
+    /**
+     * Append a finished decision to the decision ledger. Decisions already recorded are ignored.
+     */
+    public recordFusionDecision(decision: FusionDecision): void {
+        if (this.ledger.append(decision)) {
+            this.log.debug(
+                `Recorded fusion decision for account ${decision.account.name} by ${decision.submitter.name} in ledger`
+            )
+        }
+    }
+
+    /**
+     * Decision ledger entries about a fusion account's identity or any of its accounts
+     */
+    public getDecisionLedgerEntries(fusionAccount: FusionAccount): FusionDecisionLedgerEntry[] {
+        const accountIds = [...fusionAccount.accountIds]
+        if (fusionAccount.managedAccountId) {
+            accountIds.push(fusionAccount.managedAccountId)
+        }
+        return this.ledger.getEntries(fusionAccount.identityId, accountIds)
+    }
+
+    /**
+     * Latest unmerge or fusion action decision for each account that should become a new fusion account.
+     * They stay in the ledger after being applied; callers skip accounts that are no longer in the work queue.
+     */
+    public get queuedNewIdentityDecisions(): FusionDecision[] {
+        return this.ledger
+            .getActionEntries()
+            .filter((entry) => entry.newIdentity)
+            .map(fromLedgerEntry)
+    }
+
+    /**
+     * Latest unmerge action decision for each account, unless a fusion action decision came after it
+     */
+    public get unmergeDecisions(): FusionDecision[] {
+        return this.ledger
+            .getActionEntries()
+            .filter((entry) => entry.unmergedFrom)
+            .map(fromLedgerEntry)
+    }
+
+    /**
+     * Reviewer decisions kept in the decision ledger, including those whose form instances have been deleted
+     */
+    public get reviewerLedgerDecisions(): FusionDecision[] {
+        return this.ledger.getReviewerEntries().map(fromLedgerEntry)
+    }
+
+    /**
+     * Number of decisions recorded since the ledger was last saved
+     */
+    public get pendingLedgerEntries(): number {
+        return this.ledger.pendingEntries.length
+    }
+
+    /**
+     * Append newly recorded decisions to the ledger stored in the source configuration.
+     * Existing entries are never rewritten: each new entry is added at the end of the list.
+     */
+    public async saveDecisionLedger(): Promise<void> {
+        const entries = this.ledger.pendingEntries
+        if (entries.length === 0) {
+            this.log.debug('No new fusion decisions to record in ledger')
+            return
+        }
+
+        const operations: JsonPatchOperationV2025[] = this.ledgerPersisted
+            ? entries.map((entry) => ({ op: 'add', path: `${DECISION_LEDGER_CONFIG_PATH}/-`, value: entry }))
+            : [{ op: 'add', path: DECISION_LEDGER_CONFIG_PATH, value: entries }]
+        const fusionSourceId = this.sources.fusionSourceId
+        const requestParameters: SourcesV2025ApiUpdateSourceRequest = {
+            id: fusionSourceId,
+            jsonPatchOperationV2025: operations,
+        }
+        this.log.info(`Appending ${entries.length} fusion decision(s) to ledger`)
+        await this.sources.patchSourceConfig(fusionSourceId, requestParameters)
+        this.ledger.markSaved()
+        this.ledgerPersisted = true
+    }
+
+    /**
+     * Number of completed or cancelled form definitions queued for deletion by cleanUpForms
+     */
+    public get pendingFormDeletions(): number {
+        return this.formsToDelete.length
+    }
+
     /**
      * Create a fusion form for deduplication review
      */
     public async createFusionForm(
         fusionAccount: FusionAccount,
-        reviewers: Set<FusionAccount> | undefined
+        reviewers: Set<FusionAccount> | undefined,
+        clusterReview?: ClusterReview
     ): Promise<void> {
         assert(fusionAccount, 'Fusion account is required')
 
@@ -141,7 +264,7 @@ export class FormService {
         }
 
         const { candidates, formDefinition, formInput, expire, fusionSourceId } =
-            await this.prepareFormCreationData(fusionAccount, reviewers!.size)
+            await this.prepareFormCreationData(fusionAccount, reviewers!.size, clusterReview)
 
         if (formDefinition) {
             const existingInstances = await this.fetchFormInstancesByDefinitionId(formDefinition.id)
@@ -162,6 +285,53 @@ export class FormService {
         }
     }
 
+    /**
+     * Create a review form asking which of two duplicate fusion identities should absorb the other's accounts
+     */
+    public async createIdentityMergeForm(
+        duplicate: IdentityDuplicate,
+        reviewers: Set<FusionAccount> | undefined
+    ): Promise<void> {
+        const { fusionIdentity } = duplicate
+        if (!this.hasValidReviewers(reviewers, fusionIdentity.name || 'Unknown')) {
+            return
+        }
+
+        const candidates = buildIdentityMergeCandidates(duplicate)
+        const formName = buildIdentityMergeFormName(candidates, this.fusionFormNamePattern)
+        let formDefinition = await this.findFormDefinitionByName(formName)
+        if (!formDefinition) {
+            this.log.debug(`Form definition not found, creating new one: ${formName}`)
+            formDefinition = await this.createForm({
+                body: {
+                    name: formName,
+                    description: 'Review potential duplicate identities and decide which one keeps the accounts',
+                    owner: getFormOwner(this.sources),
+                    formElements: buildIdentityMergeFormFields(candidates, this.fusionFormAttributes),
+                    formInput: buildIdentityMergeFormInputs(candidates, this.fusionFormAttributes),
+                    formConditions: [],
+                },
+            })
+            softAssert(formDefinition?.id, 'Failed to create form definition')
+        }
+        if (!formDefinition?.id) {
+            return
+        }
+
+        const existingInstances = await this.fetchFormInstancesByDefinitionId(formDefinition.id)
+        this.associateExistingInstancesWithReviewers(existingInstances, reviewers!)
+        await this.createFormInstancesForReviewers(
+            reviewers!,
+            formDefinition,
+            buildIdentityMergeFormInput(candidates, this.fusionFormAttributes),
+            this.sources.fusionSourceId,
+            calculateExpirationDate(this.fusionFormExpirationDays),
+            fusionIdentity,
+            candidates,
+            this.extractExistingRecipientIds(existingInstances)
+        )
+    }
+
     /**
      * Validate that reviewers exist and are not empty
      */
@@ -178,7 +348,8 @@ export class FormService {
      */
     private async prepareFormCreationData(
         fusionAccount: FusionAccount,
-        reviewerCount: number
+        reviewerCount: number,
+        clusterReview?: ClusterReview
     ): Promise<{
         candidates: Candidate[]
         formName: string
@@ -189,15 +360,16 @@ export class FormService {
     }> {
         this.log.debug(`Building fusion form for account ${fusionAccount.name} with ${reviewerCount} reviewer(s)`)
 
-        const candidates = buildCandidateList(fusionAccount)
+        const candidates = buildCandidateList(fusionAccount, clusterReview?.matches)
         assert(candidates, 'Failed to build candidate list')
 
         const formName = buildFormName(fusionAccount, this.fusionFormNamePattern)
         assert(formName, 'Form name is required')
 
-        const formDefinition = await this.getOrCreateFormDefinition(formName, fusionAccount, candidates)
+        const clusterAccounts = clusterReview?.accounts
+        const formDefinition = await this.getOrCreateFormDefinition(formName, fusionAccount, candidates, clusterAccounts)
 
-        const formInput = buildFormInput(fusionAccount, candidates, this.fusionFormAttributes)
+        const formInput = buildFormInput(fusionAccount, candidates, this.fusionFormAttributes, clusterAccounts)
         assert(formInput, 'Form input is required')
 
         const expire = calculateExpirationDate(this.fusionFormExpirationDays)
@@ -215,12 +387,13 @@ export class FormService {
     private async getOrCreateFormDefinition(
         formName: string,
         fusionAccount: FusionAccount,
-        candidates: Candidate[]
+        candidates: Candidate[],
+        clusterAccounts?: FusionAccount[]
     ): Promise<FormDefinitionResponseV2025 | undefined> {
         let formDefinition = await this.findFormDefinitionByName(formName)
         if (!formDefinition) {
             this.log.debug(`Form definition not found, creating new one: ${formName}`)
-            formDefinition = await this.buildFusionFormDefinition(formName, fusionAccount, candidates)
+            formDefinition = await this.buildFusionFormDefinition(formName, fusionAccount, candidates, clusterAccounts)
             softAssert(formDefinition, 'Failed to create form definition')
             softAssert(formDefinition?.id, 'Form definition ID is required')
         } else {
@@ -395,6 +568,33 @@ export class FormService {
         }
     }
 
+    /**
+     * Get all finished decisions linking an account to an existing identity
+     */
+    public get fusionAssignmentDecisions(): FusionDecision[] {
+        return Array.from(this.fusionAssignmentDecisionMap.values())
+    }
+
+    /**
+     * Get all finished identity merge decisions
+     */
+    public get identityMergeDecisions(): IdentityMergeDecision[] {
+        return [...this._identityMergeDecisions]
+    }
+
+    /**
+     * Whether two identities already have an identity merge form waiting for a response,
+     * or a decision read in this run
+     */
+    public hasIdentityMergeReview(identityId: string, duplicateId: string): boolean {
+        if (this.pendingIdentityMergePairs.has(`${identityId}:${duplicateId}`)) return true
+        return this._identityMergeDecisions.some(
+            (decision) =>
+                (decision.identityId === identityId && decision.mergedIdentityId === duplicateId) ||
+                (decision.identityId === duplicateId && decision.mergedIdentityId === identityId)
+        )
+    }
+
     /**
      * Get all fusion identity decisions
      */
@@ -509,15 +709,25 @@ export class FormService {
         assert(this.fusionAssignmentDecisionMap, 'Fusion assignment decision map is not initialized')
         assert(formInstances, 'Form instances array is required')
 
+        if (extractIdentityMergePair(formInstances[0]?.formInput)) {
+            this.processIdentityMergeFormInstances(formInstances)
+            return
+        }
+
         const processingResult = this.analyzeFormInstances(formInstances)
         const accountInfoOverride = this.extractAccountInfoOverride(
             processingResult.accountId,
             processingResult.shouldRemoveAccountFromMap
         )
+        // Other accounts of a cluster review follow the same lifecycle as the form's account
+        const clusterAccounts = processingResult.clusterAccountIds
+            .map((id) => this.extractAccountInfoOverride(id, processingResult.shouldRemoveAccountFromMap))
+            .filter((account) => account !== undefined)
 
         const decisionsAdded = this.createDecisionsFromInstances(
             processingResult.instancesToProcess,
-            accountInfoOverride
+            accountInfoOverride,
+            clusterAccounts
         )
 
         if (processingResult.shouldDeleteForm && processingResult.formDefinitionId) {
@@ -531,6 +741,42 @@ export class FormService {
         }
     }
 
+    /**
+     * Process identity merge form instances. These forms have no managed account,
+     * so only the response and cancellation rules apply.
+     */
+    private processIdentityMergeFormInstances(formInstances: FormInstanceResponseV2025[]): void {
+        const { instancesToProcess, shouldDeleteForm, formDefinitionId, shouldRemoveAccountFromMap } =
+            this.analyzeFormInstances(formInstances)
+        // Same rule as for accounts: while waiting for a response, no other form is created for the pair
+        const pair = extractIdentityMergePair(formInstances[0].formInput)!
+        if (shouldRemoveAccountFromMap) {
+            this.pendingIdentityMergePairs.add(`${pair.identityId}:${pair.duplicateId}`)
+            this.pendingIdentityMergePairs.add(`${pair.duplicateId}:${pair.identityId}`)
+        }
+
+        for (const instance of instancesToProcess) {
+            const decision = createIdentityMergeDecision(instance, this.identities)
+            if (!decision) {
+                this.log.warn(`Failed to create identity merge decision for form instance: ${instance.id}`)
+                continue
+            }
+            if (decision.finished) {
+                this._identityMergeDecisions.push(decision)
+                const decisionType = decision.merge
+                    ? `merge ${decision.mergedIdentityId} into ${decision.identityId}`
+                    : 'not duplicates'
+                this.log.debug(
+                    `Processed identity merge decision, reviewer ${decision.submitter.id}, decision: ${decisionType}`
+                )
+            }
+        }
+
+        if (shouldDeleteForm && formDefinitionId) {
+            this.addFormToDelete(formDefinitionId)
+        }
+    }
+
     /**
      * Analyze form instances to determine which to process and extract metadata
      */
@@ -539,6 +785,7 @@ export class FormService {
         shouldDeleteForm: boolean
         formDefinitionId: string | undefined
         accountId: string | undefined
+        clusterAccountIds: string[]
         processedCount: number
         /**
          * Indicates whether the managed account should be removed from the
@@ -561,6 +808,7 @@ export class FormService {
         let processedCount = 0
         let formDefinitionId: string | undefined = undefined
         let accountId: string | undefined = undefined
+        let clusterAccountIds: string[] = []
         const instancesToProcess: FormInstanceResponseV2025[] = []
 
         let hasResponseInstance = false
@@ -573,6 +821,9 @@ export class FormService {
 
             formDefinitionId = formDefinitionId || instance.formDefinitionId
             accountId = accountId || this.extractAccountIdFromInstance(instance)
+            if (clusterAccountIds.length === 0) {
+                clusterAccountIds = extractClusterAccountIds(instance.formInput)
+            }
 
             anyInstance = true
 
@@ -640,6 +891,7 @@ export class FormService {
             shouldDeleteForm,
             formDefinitionId,
             accountId,
+            clusterAccountIds,
             processedCount,
             shouldRemoveAccountFromMap,
         }
@@ -727,7 +979,8 @@ export class FormService {
      */
     private createDecisionsFromInstances(
         instancesToProcess: FormInstanceResponseV2025[],
-        accountInfoOverride: { id: string; name: string; sourceName: string } | undefined
+        accountInfoOverride: { id: string; name: string; sourceName: string } | undefined,
+        clusterAccounts: { id: string; name: string; sourceName: string }[] = []
     ): number {
         let decisionsAdded = 0
 
@@ -737,6 +990,9 @@ export class FormService {
                 this.log.warn(`Failed to create fusion decision for form instance: ${instance.id}`)
                 continue
             }
+            if (clusterAccounts.length > 0) {
+                decision.clusterAccounts = clusterAccounts
+            }
 
             if (decision.finished) {
                 if (decision.newIdentity) {
@@ -770,14 +1026,15 @@ export class FormService {
     private async buildFusionFormDefinition(
         formName: string,
         fusionAccount: FusionAccount,
-        candidates: Candidate[]
+        candidates: Candidate[],
+        clusterAccounts?: FusionAccount[]
     ): Promise<FormDefinitionResponseV2025 | undefined> {
         if (candidates.length > MAX_CANDIDATES_FOR_FORM) {
             this.log.error(`Candidates must be less than or equal to ${MAX_CANDIDATES_FOR_FORM}`)
             return
         }
-        const formFields = buildFormFields(fusionAccount, candidates, this.fusionFormAttributes)
-        const formInputs = buildFormInputs(fusionAccount, candidates, this.fusionFormAttributes)
+        const formFields = buildFormFields(fusionAccount, candidates, this.fusionFormAttributes, clusterAccounts)
+        const formInputs = buildFormInputs(fusionAccount, candidates, this.fusionFormAttributes, clusterAccounts)
         const formConditions = buildFormConditions(candidates, this.fusionFormAttributes)
         const owner = getFormOwner(this.sources)
 
@@ -2,6 +2,7 @@ import { FusionAccount } from '../../model/account'
 import { OwnerDto } from 'sailpoint-api-client'
 import { SourceService } from '../sourceService'
 import { assert } from '../../utils/assert'
+import { FusionMatch, IdentityDuplicate } from '../scoringService'
 import { Candidate } from './types'
 
 // ============================================================================
@@ -11,11 +12,14 @@ import { Candidate } from './types'
 /**
  * Build candidate list from fusion matches
  */
-export const buildCandidateList = (fusionAccount: FusionAccount): Candidate[] => {
+export const buildCandidateList = (
+    fusionAccount: FusionAccount,
+    fusionMatches: FusionMatch[] = fusionAccount.fusionMatches
+): Candidate[] => {
     assert(fusionAccount, 'Fusion account is required')
-    assert(fusionAccount.fusionMatches, 'Fusion matches are required')
+    assert(fusionMatches, 'Fusion matches are required')
 
-    const candidates = fusionAccount.fusionMatches.map((match) => {
+    const candidates = fusionMatches.map((match) => {
         assert(match.fusionIdentity, 'Fusion identity is required in match')
         assert(match.fusionIdentity.identityId, 'Fusion identity ID is required')
         const attrs: Record<string, any> = match.fusionIdentity.attributes || {}
@@ -32,6 +36,21 @@ export const buildCandidateList = (fusionAccount: FusionAccount): Candidate[] =>
     return candidates
 }
 
+/**
+ * Build the two candidates of an identity merge review, the earlier identity first.
+ * Both carry the scores of the pair.
+ */
+export const buildIdentityMergeCandidates = (duplicate: IdentityDuplicate): Candidate[] =>
+    [duplicate.match.fusionIdentity, duplicate.fusionIdentity].map((fusionIdentity) => {
+        assert(fusionIdentity.identityId, 'Fusion identity ID is required')
+        return {
+            id: fusionIdentity.identityId,
+            name: fusionIdentity.displayName ?? '',
+            attributes: fusionIdentity.attributes || {},
+            scores: duplicate.match.scores || [],
+        }
+    })
+
 /**
  * Build form name from fusion account
  */
@@ -40,6 +59,14 @@ export const buildFormName = (fusionAccount: FusionAccount, fusionFormNamePatter
     return `${fusionFormNamePattern} - ${accountName} [${fusionAccount.sourceName}]`
 }
 
+/**
+ * Build form name for an identity merge review
+ */
+export const buildIdentityMergeFormName = (candidates: Candidate[], fusionFormNamePattern: string): string => {
+    const [identity, duplicate] = candidates
+    return `${fusionFormNamePattern} - ${identity.name || identity.id} / ${duplicate.name || duplicate.id} [Identities]`
+}
+
 /**
  * Calculate form expiration date
  */
@@ -5,12 +5,14 @@ export { FormService } from './formService'
 export { ALGORITHM_LABELS } from './constants'
 
 // Re-export types
-export type { Candidate } from './types'
+export type { Candidate, ClusterReview } from './types'
 
 // Re-export helpers (for testing and external use if needed)
 export {
     buildCandidateList,
     buildFormName,
+    buildIdentityMergeCandidates,
+    buildIdentityMergeFormName,
     calculateExpirationDate,
     getFormOwner,
 } from './helpers'
@@ -20,9 +22,15 @@ export {
     buildFormFields,
     buildFormConditions,
     buildFormInputs,
+    buildIdentityMergeFormFields,
+    buildIdentityMergeFormInput,
+    buildIdentityMergeFormInputs,
 } from './formBuilder'
 
 export {
     createFusionDecision,
+    createIdentityMergeDecision,
+    extractClusterAccountIds,
+    extractIdentityMergePair,
     getReviewerInfo,
 } from './formProcessor'
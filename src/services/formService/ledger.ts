@@ -0,0 +1,137 @@
+import { FusionDecision, FusionDecisionLedgerEntry } from '../../model/form'
+
+// ============================================================================
+// Decision Ledger Helpers
+// ============================================================================
+
+/**
+ * Ledger entry ID: the form instance for reviewer decisions, the account and identity (or fusion account)
+ * for system decisions.
+ * Unmerge and forced decisions can repeat for the same account, so their date is part of the ID.
+ */
+export const buildLedgerEntryId = (decision: FusionDecision): string => {
+    if (decision.formInstanceId) return decision.formInstanceId
+    const target = decision.identityId ?? (decision.mergedInto ? `fusion:${decision.mergedInto}` : 'new')
+    const id = `${decision.submitter.id}:${decision.account.id}:${target}`
+    if (decision.unmergedFrom) return `${id}:unmerge:${decision.decisionDate}`
+    if (decision.forced) return `${id}:forced:${decision.decisionDate}`
+    return id
+}
+
+export const toLedgerEntry = (decision: FusionDecision, timestamp: string): FusionDecisionLedgerEntry => ({
+    id: buildLedgerEntryId(decision),
+    timestamp: decision.decisionDate ?? timestamp,
+    submitter: { ...decision.submitter },
+    account: { ...decision.account },
+    newIdentity: decision.newIdentity,
+    identityId: decision.identityId,
+    comments: decision.comments,
+    formUrl: decision.formUrl,
+    scores: decision.scores?.map((score) => ({ ...score })),
+    unmergedFrom: decision.unmergedFrom,
+    forced: decision.forced,
+    clusterAccounts: decision.clusterAccounts?.map((account) => ({ ...account })),
+    mergedFrom: decision.mergedFrom,
+    mergedInto: decision.mergedInto,
+})
+
+export const fromLedgerEntry = (entry: FusionDecisionLedgerEntry): FusionDecision => ({
+    submitter: { ...entry.submitter },
+    account: { ...entry.account },
+    newIdentity: entry.newIdentity,
+    identityId: entry.identityId,
+    comments: entry.comments,
+    finished: true,
+    formUrl: entry.formUrl,
+    scores: entry.scores?.map((score) => ({ ...score })),
+    decisionDate: entry.timestamp,
+    unmergedFrom: entry.unmergedFrom,
+    forced: entry.forced,
+    clusterAccounts: entry.clusterAccounts?.map((account) => ({ ...account })),
+    mergedFrom: entry.mergedFrom,
+    mergedInto: entry.mergedInto,
+})
+
+// ============================================================================
+// DecisionLedger Class
+// ============================================================================
+
+/**
+ * Append-only record of finished fusion decisions, persisted with the connector state.
+ * Entries loaded from the state are never modified; new entries are kept as pending
+ * until they are saved.
+ */
+export class DecisionLedger {
+    private readonly entries: FusionDecisionLedgerEntry[]
+    private readonly ids: Set<string>
+    private pending: FusionDecisionLedgerEntry[] = []
+
+    constructor(entries?: FusionDecisionLedgerEntry[]) {
+        this.entries = Array.isArray(entries) ? [...entries] : []
+        this.ids = new Set(this.entries.map((entry) => entry.id))
+    }
+
+    /**
+     * Append a finished decision. Decisions already in the ledger are ignored.
+     * @returns Whether the decision was appended
+     */
+    public append(decision: FusionDecision): boolean {
+        if (!decision.finished) return false
+        const entry = toLedgerEntry(decision, new Date().toISOString())
+        if (this.ids.has(entry.id)) return false
+
+        this.ids.add(entry.id)
+        this.entries.push(entry)
+        this.pending.push(entry)
+        return true
+    }
+
+    public get size(): number {
+        return this.entries.length
+    }
+
+    /**
+     * Entries appended since the ledger was loaded or last saved
+     */
+    public get pendingEntries(): FusionDecisionLedgerEntry[] {
+        return [...this.pending]
+    }
+
+    public markSaved(): void {
+        this.pending = []
+    }
+
+    /**
+     * Latest entry for each account detached by the unmerge action or handled by the fusion action
+     */
+    public getActionEntries(): FusionDecisionLedgerEntry[] {
+        const latest = new Map<string, FusionDecisionLedgerEntry>()
+        for (const entry of this.entries) {
+            if (entry.unmergedFrom || entry.forced) latest.set(entry.account.id, entry)
+        }
+        return Array.from(latest.values())
+    }
+
+    /**
+     * Entries for decisions reviewers made on review forms, leaving out system decisions and the decisions
+     * of the unmerge and fusion actions and of identity merges
+     */
+    public getReviewerEntries(): FusionDecisionLedgerEntry[] {
+        return this.entries.filter(
+            (entry) => entry.submitter.id !== 'system' && !entry.unmergedFrom && !entry.forced && !entry.mergedFrom
+        )
+    }
+
+    /**
+     * Entries for decisions about the identity or any of the accounts
+     */
+    public getEntries(identityId: string | undefined, accountIds: Iterable<string>): FusionDecisionLedgerEntry[] {
+        const accounts = new Set(accountIds)
+        return this.entries.filter(
+            (entry) =>
+                (identityId !== undefined && entry.identityId === identityId) ||
+                accounts.has(entry.account.id) ||
+                (entry.clusterAccounts ?? []).some((account) => accounts.has(account.id))
+        )
+    }
+}
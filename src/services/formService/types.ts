@@ -1,3 +1,6 @@
+import { FusionAccount } from '../../model/account'
+import { FusionMatch } from '../scoringService'
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -11,3 +14,12 @@ export type Candidate = {
     attributes: Record<string, any>
     scores: any[]
 }
+
+/**
+ * Cluster resolved by a single review form: the form's account decides for the other accounts too,
+ * and the candidates are every identity in the cluster
+ */
+export type ClusterReview = {
+    accounts: FusionAccount[]
+    matches: FusionMatch[]
+}
@@ -0,0 +1,483 @@
+import { Account, IdentityDocument } from 'sailpoint-api-client'
+import { StandardCommand } from '@sailpoint/connector-sdk'
+import { FusionAccount } from '../../../model/account'
+import { FusionConfig } from '../../../model/config'
+import { FusionDecisionLedgerEntry } from '../../../model/form'
+import { AttributeService } from '../../attributeService'
+import { ClientService } from '../../clientService'
+import { FormService } from '../../formService'
+import { IdentityService } from '../../identityService'
+import { LogService } from '../../logService'
+import { SchemaService } from '../../schemaService'
+import { ScoringService } from '../../scoringService'
+import { SUPPRESSION_PREFIX } from '../../scoringService/suppressions'
+import { SourceService } from '../../sourceService'
+import { FusionService } from '../fusionService'
+
+jest.mock('../../serviceRegistry', () => ({
+    ServiceRegistry: { setCurrent: jest.fn(), getCurrent: jest.fn() },
+}))
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const baseConfig: Partial<FusionConfig> = {
+    sources: [{ name: 'HR' }, { name: 'CRM' }],
+    fusionAccountRefreshThresholdInSeconds: 0,
+    maxHistoryMessages: 10,
+    correlateOnAggregation: true,
+    matchingConfigs: [{ attribute: 'displayName', algorithm: 'jaro-winkler', fusionScore: 0 }],
+    fusionUseMatchBands: true,
+    fusionAutoCorrelationScore: 95,
+    fusionRejectScore: 60,
+    msDay: 86400000,
+}
+
+const managedAccount = (id: string, sourceName: string, displayName: string, identityId?: string): Account =>
+    ({
+        id,
+        name: displayName,
+        sourceName,
+        sourceId: `source-${sourceName}`,
+        identityId,
+        uncorrelated: !identityId,
+        modified: '2024-03-15T10:00:00.000Z',
+        attributes: { displayName },
+    }) as unknown as Account
+
+const identity = (id: string, displayName: string, accounts: Account[]): IdentityDocument =>
+    ({
+        id,
+        name: displayName,
+        attributes: { displayName },
+        accounts: accounts.map((x) => ({ id: x.id, source: { name: x.sourceName } })),
+    }) as unknown as IdentityDocument
+
+const fusionAccountRecord = (nativeIdentity: string, displayName: string, accountIds: string[], identityId?: string) =>
+    ({
+        nativeIdentity,
+        name: displayName,
+        sourceName: 'Fusion',
+        identityId,
+        modified: '2024-03-15T10:00:00.000Z',
+        attributes: { displayName, accounts: accountIds },
+    }) as unknown as Account
+
+type Setup = {
+    config?: Partial<FusionConfig>
+    managedAccounts?: Account[]
+    identities?: IdentityDocument[]
+    fusionAccounts?: Account[]
+}
+
+/**
+ * Fusion service with real scoring and decision ledger, and mocked platform calls
+ */
+const createFusion = ({ config = {}, managedAccounts = [], identities = [], fusionAccounts = [] }: Setup) => {
+    const fusionConfig = { ...baseConfig, ...config } as FusionConfig
+    const log = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), crash: jest.fn() } as unknown as LogService
+    const identitiesById = new Map(identities.map((x) => [x.id, x]))
+    const identityService = {
+        identities,
+        getIdentityById: jest.fn((id: string) => identitiesById.get(id)),
+        correlateAccounts: jest.fn(async () => true),
+        uncorrelateAccount: jest.fn(),
+    }
+    const accountsById = new Map(managedAccounts.map((x) => [x.id!, x]))
+    const sources = {
+        managedAccountsById: new Map(accountsById),
+        get managedAccounts() {
+            return Array.from(this.managedAccountsById.values())
+        },
+        fusionAccounts,
+        managedSources: [
+            { id: 'source-HR', name: 'HR' },
+            { id: 'source-CRM', name: 'CRM' },
+        ],
+        fusionSourceOwner: { id: 'owner' },
+        fusionSourceId: 'fusion-source',
+        fetchAccountById: jest.fn(async (id: string) => accountsById.get(id)),
+        fetchManagedAccount: jest.fn(async (id: string) => {
+            const account = accountsById.get(id)
+            if (account) sources.managedAccountsById.set(id, account)
+        }),
+        patchSourceConfig: jest.fn(),
+    }
+    const attributes = {
+        mapAttributes: jest.fn(),
+        refreshAttributes: jest.fn(),
+        refreshNonUniqueAttributes: jest.fn(),
+        refreshUniqueAttributes: jest.fn(),
+        registerUniqueAttributes: jest.fn(),
+        getSimpleKey: jest.fn((x: FusionAccount) => ({ simple: { id: x.nativeIdentity } })),
+        setStateValues: jest.fn(),
+        removeStateValues: jest.fn(),
+    }
+    const schemas = { fusionDisplayAttribute: 'displayName', getFusionAttributeSubset: jest.fn((x) => ({ ...x })) }
+    const forms = new FormService(fusionConfig, log, {} as ClientService, sources as unknown as SourceService)
+    jest.spyOn(forms, 'fusionIdentityDecisions', 'get').mockReturnValue([])
+    jest.spyOn(forms, 'createFusionForm').mockResolvedValue()
+    jest.spyOn(forms, 'recordFusionDecision')
+
+    const fusion = new FusionService(
+        fusionConfig,
+        log,
+        identityService as unknown as IdentityService,
+        sources as unknown as SourceService,
+        forms,
+        attributes as unknown as AttributeService,
+        new ScoringService(fusionConfig, log),
+        schemas as unknown as SchemaService,
+        StandardCommand.StdAccountList
+    )
+    return { fusion, forms, identities: identityService, sources, attributes }
+}
+
+const hr1 = managedAccount('hr-1', 'HR', 'John Smith', 'identity-1')
+const john = identity('identity-1', 'John Smith', [hr1])
+
+describe('FusionService', () => {
+    // ========================================================================
+    // Dry Run
+    // ========================================================================
+
+    describe('dry run', () => {
+        it('should plan correlations instead of correlating missing accounts', async () => {
+            const crm1 = managedAccount('crm-1', 'CRM', 'John Smith')
+            const { fusion, identities } = createFusion({
+                config: { dryRun: true },
+                managedAccounts: [hr1, crm1],
+                identities: [john],
+                fusionAccounts: [fusionAccountRecord('fusion-1', 'John Smith', ['hr-1', 'crm-1'], 'identity-1')],
+            })
+            await fusion.processFusionAccounts()
+
+            expect(identities.correlateAccounts).not.toHaveBeenCalled()
+            expect(fusion.generatePlan().actions).toEqual([
+                { type: 'correlate-accounts', target: 'John Smith', details: 'crm-1' },
+            ])
+        })
+
+        it('should plan review forms and new fusion accounts without creating forms', async () => {
+            const { fusion, forms } = createFusion({
+                config: { dryRun: true },
+                managedAccounts: [
+                    hr1,
+                    managedAccount('crm-1', 'CRM', 'John Smith'),
+                    managedAccount('crm-2', 'CRM', 'Jon Smyth'),
+                    managedAccount('crm-3', 'CRM', 'Mary Jones'),
+                ],
+                identities: [john],
+            })
+            await fusion.processIdentities()
+            await fusion.processManagedAccounts()
+
+            expect(forms.createFusionForm).not.toHaveBeenCalled()
+            const { counts } = fusion.generatePlan()
+            expect(counts).toEqual({ 'auto-correlate': 1, 'create-form': 1, 'create-fusion-account': 1 })
+        })
+    })
+
+    // ========================================================================
+    // Unmerge
+    // ========================================================================
+
+    describe('unmerge', () => {
+        const crm1 = managedAccount('crm-1', 'CRM', 'John Smith', 'identity-1')
+        const setup = (config: Partial<FusionConfig> = {}): Setup => ({
+            config,
+            managedAccounts: [hr1, crm1],
+            identities: [identity('identity-1', 'John Smith', [hr1, crm1])],
+            fusionAccounts: [fusionAccountRecord('fusion-1', 'John Smith', ['hr-1', 'crm-1'], 'identity-1')],
+        })
+
+        /**
+         * Unmerge the CRM account and return the decision ledger as it is saved in the source configuration
+         */
+        const unmergeCrmAccount = async (config: Partial<FusionConfig> = {}) => {
+            const { fusion, forms, identities, sources } = createFusion(setup(config))
+            await fusion.processFusionAccounts()
+            const fusionAccount = fusion.getFusionIdentity('identity-1')!
+            await fusion.unmergeAccount(fusionAccount, crm1)
+            await forms.saveDecisionLedger()
+            const [[, request]] = sources.patchSourceConfig.mock.calls
+            return { fusionAccount, forms, identities, ledger: request.jsonPatchOperationV2025[0].value }
+        }
+
+        /**
+         * Next aggregation, with the unmerged account back in the work queue
+         */
+        const nextAggregation = async (ledger: FusionDecisionLedgerEntry[], config: Partial<FusionConfig> = {}) => {
+            const uncorrelated = managedAccount('crm-1', 'CRM', 'John Smith')
+            const result = createFusion({
+                ...setup({ ...config, fusionDecisionLedger: ledger }),
+                managedAccounts: [hr1, uncorrelated],
+                identities: [john],
+                fusionAccounts: [fusionAccountRecord('fusion-1', 'John Smith', ['hr-1'], 'identity-1')],
+            })
+            const { fusion } = result
+            await fusion.processFusionAccounts()
+            await fusion.processIdentities()
+            await fusion.processFusionIdentityDecisions()
+            await fusion.processManagedAccounts()
+            return result
+        }
+
+        it('should uncorrelate the account and detach it from the fusion account', async () => {
+            const { fusionAccount, identities } = await unmergeCrmAccount()
+
+            expect(identities.uncorrelateAccount).toHaveBeenCalledWith('crm-1')
+            expect(fusionAccount.accountIds).toEqual(['hr-1'])
+            expect(fusionAccount.history.at(-1)).toMatch(/Unmerged John Smith \[CRM\]: queued for review$/)
+        })
+
+        it('should record the unmerge decision in the ledger', async () => {
+            const { forms, ledger } = await unmergeCrmAccount()
+
+            expect(forms.unmergeDecisions).toHaveLength(1)
+            expect(ledger).toEqual([
+                expect.objectContaining({
+                    submitter: expect.objectContaining({ id: 'system' }),
+                    account: { id: 'crm-1', name: 'John Smith', sourceName: 'CRM' },
+                    newIdentity: false,
+                    unmergedFrom: 'identity-1',
+                }),
+            ])
+        })
+
+        it('should suppress the pair so the account is not correlated back to the identity', async () => {
+            const { ledger } = await unmergeCrmAccount()
+            const { fusion, forms, attributes } = await nextAggregation(ledger)
+
+            expect(fusion.getFusionIdentity('identity-1')!.accountIds).toEqual(['hr-1'])
+            expect(forms.recordFusionDecision).not.toHaveBeenCalledWith(
+                expect.objectContaining({ identityId: 'identity-1' })
+            )
+            const [suppressionState] = attributes.setStateValues.mock.calls.at(-1)!
+            expect(Object.keys(suppressionState)).toEqual([`${SUPPRESSION_PREFIX}.crm-1:identity-1`])
+        })
+
+        it('should make the account a new fusion account in new mode', async () => {
+            const { ledger } = await unmergeCrmAccount({ fusionUnmergeMode: 'new' })
+            expect(ledger[0].newIdentity).toBe(true)
+
+            const { fusion } = await nextAggregation(ledger, { fusionUnmergeMode: 'new' })
+            expect(fusion.fusionAccounts.map((x) => x.accountIds)).toEqual([['crm-1']])
+        })
+    })
+
+    // ========================================================================
+    // Fusion Action
+    // ========================================================================
+
+    describe('fusion action', () => {
+        const crm1 = managedAccount('crm-1', 'CRM', 'John Smith', 'identity-1')
+        const crm2 = managedAccount('crm-2', 'CRM', 'Mary Jones')
+
+        const processFusionAccount = async () => {
+            const result = createFusion({
+                managedAccounts: [hr1, crm1, crm2],
+                identities: [identity('identity-1', 'John Smith', [hr1, crm1])],
+                fusionAccounts: [fusionAccountRecord('fusion-1', 'John Smith', ['hr-1', 'crm-1'], 'identity-1')],
+            })
+            // Only the accounts of the fusion account are loaded, as when an account is updated
+            result.sources.managedAccountsById.delete('crm-2')
+            await result.fusion.processFusionAccounts()
+            return { ...result, fusionAccount: result.fusion.getFusionIdentity('identity-1')! }
+        }
+
+        it('should merge an account claimed from the work queue without scoring', async () => {
+            const { fusion, fusionAccount, forms, identities, sources } = await processFusionAccount()
+            await sources.fetchManagedAccount('crm-2')
+            await fusion.forceMergeAccount(fusionAccount, crm2)
+
+            expect(fusionAccount.accountIds).toEqual(['hr-1', 'crm-1', 'crm-2'])
+            expect(sources.managedAccountsById.has('crm-2')).toBe(false)
+            expect(identities.correlateAccounts).toHaveBeenCalledWith(fusionAccount)
+            expect(forms.recordFusionDecision).toHaveBeenCalledWith(
+                expect.objectContaining({ identityId: 'identity-1', newIdentity: false, forced: true })
+            )
+        })
+
+        it('should not merge an account that is not in the work queue', async () => {
+            const { fusion, fusionAccount, identities } = await processFusionAccount()
+
+            await expect(fusion.forceMergeAccount(fusionAccount, crm2)).rejects.toThrow(
+                'Managed account has not been loaded'
+            )
+            expect(fusionAccount.accountIds).toEqual(['hr-1', 'crm-1'])
+            expect(identities.correlateAccounts).not.toHaveBeenCalled()
+        })
+
+        it('should detach an account and queue it as a new fusion account', async () => {
+            const { fusion, fusionAccount, forms, identities } = await processFusionAccount()
+            await fusion.forceNewFusionAccount(fusionAccount, crm1)
+
+            expect(identities.uncorrelateAccount).toHaveBeenCalledWith('crm-1')
+            expect(fusionAccount.accountIds).toEqual(['hr-1'])
+            expect(forms.queuedNewIdentityDecisions).toEqual([
+                expect.objectContaining({ account: expect.objectContaining({ id: 'crm-1' }), forced: true }),
+            ])
+        })
+    })
+
+    // ========================================================================
+    // New Account Deduplication
+    // ========================================================================
+
+    describe('new account deduplication', () => {
+        const config: Partial<FusionConfig> = { fusionDeduplicateNewAccounts: true }
+        const hrNew = managedAccount('hr-2', 'HR', 'John Smith')
+        const waitingRoot = fusionAccountRecord('fusion-2', 'John Smith', ['hr-2'])
+
+        const aggregate = async (setup: Setup) => {
+            const result = createFusion({ ...setup, config: { ...config, ...setup.config } })
+            const { fusion } = result
+            await fusion.processFusionAccounts()
+            await fusion.processIdentities()
+            await fusion.processManagedAccounts()
+            return result
+        }
+
+        it('should make new accounts in the auto-correlate band one fusion account', async () => {
+            const crmNew = managedAccount('crm-2', 'CRM', 'John Smith')
+            const { fusion, forms, sources } = await aggregate({ managedAccounts: [hrNew, crmNew] })
+
+            expect(fusion.fusionAccounts.map((x) => x.accountIds)).toEqual([['hr-2', 'crm-2']])
+            expect(sources.managedAccountsById.size).toBe(0)
+            expect(forms.createFusionForm).not.toHaveBeenCalled()
+            expect(forms.recordFusionDecision).toHaveBeenCalledWith(
+                expect.objectContaining({ account: expect.objectContaining({ id: 'crm-2' }), mergedInto: 'hr-2' })
+            )
+        })
+
+        it('should send a new cluster with accounts in the review band to cluster review', async () => {
+            const crmNew = managedAccount('crm-2', 'CRM', 'Jon Smyth')
+            const { fusion, forms } = await aggregate({ managedAccounts: [hrNew, crmNew] })
+
+            expect(fusion.fusionAccounts).toEqual([])
+            expect(forms.createFusionForm).toHaveBeenCalledTimes(1)
+            const [root, , clusterReview] = jest.mocked(forms.createFusionForm).mock.calls[0]
+            expect(root.managedAccountId).toBe('hr-2')
+            expect(clusterReview?.accounts.map((x) => x.managedAccountId)).toEqual(['crm-2'])
+            expect(clusterReview?.matches).toEqual([])
+        })
+
+        it('should keep accounts that match nothing apart', async () => {
+            const crmNew = managedAccount('crm-2', 'CRM', 'Mary Jones')
+            const { fusion, forms } = await aggregate({ managedAccounts: [hrNew, crmNew] })
+
+            expect(fusion.fusionAccounts.map((x) => x.accountIds)).toEqual([['hr-2'], ['crm-2']])
+            expect(forms.recordFusionDecision).not.toHaveBeenCalled()
+        })
+
+        it('should merge accounts in the auto-correlate band into a fusion account waiting for its identity', async () => {
+            const crmNew = managedAccount('crm-2', 'CRM', 'John Smith')
+            const { fusion, forms } = await aggregate({
+                managedAccounts: [hrNew, crmNew],
+                fusionAccounts: [waitingRoot],
+            })
+
+            expect(fusion.fusionAccounts.map((x) => x.accountIds)).toEqual([['hr-2', 'crm-2']])
+            expect(forms.recordFusionDecision).toHaveBeenCalledWith(
+                expect.objectContaining({ account: expect.objectContaining({ id: 'crm-2' }), mergedInto: 'fusion-2' })
+            )
+        })
+
+        it('should defer accounts in the review band of a fusion account waiting for its identity', async () => {
+            const crmNew = managedAccount('crm-2', 'CRM', 'Jon Smyth')
+            const { fusion, forms } = await aggregate({
+                managedAccounts: [hrNew, crmNew],
+                fusionAccounts: [waitingRoot],
+            })
+
+            const [root] = fusion.fusionAccounts
+            expect(fusion.fusionAccounts).toHaveLength(1)
+            expect(root.accountIds).toEqual(['hr-2'])
+            expect(root.history.some((x) => x.includes('deferred until it has an identity'))).toBe(true)
+            expect(forms.createFusionForm).not.toHaveBeenCalled()
+            expect(forms.recordFusionDecision).not.toHaveBeenCalled()
+        })
+
+        it('should plan deferred reviews in dry-run mode', async () => {
+            const crmNew = managedAccount('crm-2', 'CRM', 'Jon Smyth')
+            const { fusion } = await aggregate({
+                config: { dryRun: true },
+                managedAccounts: [hrNew, crmNew],
+                fusionAccounts: [waitingRoot],
+            })
+
+            expect(fusion.generatePlan().actions).toContainEqual({
+                type: 'defer-review',
+                target: 'Jon Smyth [CRM]',
+                details: 'John Smith [Fusion]',
+            })
+        })
+    })
+
+    // ========================================================================
+    // Duplicate Identities
+    // ========================================================================
+
+    describe('duplicate identities', () => {
+        const crm1 = managedAccount('crm-1', 'CRM', 'Jon Smith', 'identity-2')
+        const crm2 = managedAccount('crm-2', 'CRM', 'Mary Jones', 'identity-3')
+        const reviewer = identity('owner', 'Ada Lovelace', [])
+
+        const scan = async (config: Partial<FusionConfig> = {}) => {
+            const result = createFusion({
+                config: { fusionOwnerIsGlobalReviewer: true, ...config },
+                managedAccounts: [hr1, crm1, crm2],
+                identities: [
+                    john,
+                    identity('identity-2', 'Jon Smith', [crm1]),
+                    identity('identity-3', 'Mary Jones', [crm2]),
+                    reviewer,
+                ],
+            })
+            jest.spyOn(result.forms, 'createIdentityMergeForm').mockResolvedValue()
+            await result.fusion.processIdentities()
+            return result
+        }
+
+        it('should report the pairs of fusion identities that look like the same person', async () => {
+            const { fusion, forms } = await scan()
+            await fusion.processIdentityDuplicates(false)
+            const report = fusion.generateIdentityDuplicateReport()
+
+            expect(forms.createIdentityMergeForm).not.toHaveBeenCalled()
+            expect(report).toMatchObject({ identityScan: true, potentialDuplicates: 1 })
+            const [duplicate] = report.accounts
+            expect(duplicate.matches).toHaveLength(1)
+            expect([duplicate.accountId, duplicate.matches[0].identityId].sort()).toEqual(['identity-1', 'identity-2'])
+        })
+
+        it('should clear the duplicates once they are reported', async () => {
+            const { fusion } = await scan()
+            await fusion.processIdentityDuplicates(false)
+            fusion.generateIdentityDuplicateReport()
+
+            expect(fusion.generateIdentityDuplicateReport().accounts).toEqual([])
+        })
+
+        it('should send each duplicate pair to the reviewers of both identities', async () => {
+            const { fusion, forms } = await scan()
+            await fusion.processIdentityDuplicates(true)
+
+            expect(forms.createIdentityMergeForm).toHaveBeenCalledTimes(1)
+            const [[duplicate, reviewers]] = jest.mocked(forms.createIdentityMergeForm).mock.calls
+            const pair = [duplicate.fusionIdentity.identityId, duplicate.match.fusionIdentity.identityId]
+            expect(pair.sort()).toEqual(['identity-1', 'identity-2'])
+            expect(Array.from(reviewers!).map((x) => x.identityId)).toEqual(['owner'])
+        })
+
+        it('should plan merge forms in dry-run mode', async () => {
+            const { fusion, forms } = await scan({ dryRun: true })
+            await fusion.processIdentityDuplicates(true)
+
+            expect(forms.createIdentityMergeForm).not.toHaveBeenCalled()
+            expect(fusion.generatePlan().counts).toEqual({ 'create-form': 1 })
+        })
+    })
+})
@@ -1,8 +1,8 @@
 import { Account, IdentityDocument, SourcesV2025ApiUpdateSourceRequest } from 'sailpoint-api-client'
-import { StdAccountListOutput, StandardCommand } from '@sailpoint/connector-sdk'
+import { SimpleKey, StdAccountListOutput, StandardCommand } from '@sailpoint/connector-sdk'
 import { FusionConfig } from '../../model/config'
 import { LogService } from '../logService'
-import { FormService } from '../formService'
+import { ClusterReview, FormService } from '../formService'
 import { IdentityService } from '../identityService'
 import { SourceInfo, SourceService } from '../sourceService'
 import { FusionAccount } from '../../model/account'
@@ -11,11 +11,28 @@ import { assert } from '../../utils/assert'
 import { pickAttributes } from '../../utils/attributes'
 import { createUrlContext, UrlContext } from '../../utils/url'
 import { mapValuesToArray } from './collections'
-import { FusionDecision } from '../../model/form'
-import { FusionMatch } from '../scoringService'
+import { FusionDecision, IdentityMergeDecision } from '../../model/form'
+import {
+    DuplicateCluster,
+    FusionAccountCluster,
+    FusionMatch,
+    IdentityDuplicate,
+    MatchingEvaluation,
+    MatchingEvaluator,
+    SuppressedPair,
+} from '../scoringService'
 import { ScoringService } from '../scoringService'
 import { SchemaService } from '../schemaService'
-import { FusionReport, FusionReportAccount } from './types'
+import {
+    DryRunPlan,
+    FusionReport,
+    FusionReportAccount,
+    FusionReportCluster,
+    FusionReportMatch,
+    FusionReportSuppression,
+    PlannedAction,
+    PlannedActionType,
+} from './types'
 
 // ============================================================================
 // FusionService Class
@@ -33,15 +50,28 @@ export class FusionService {
     private potentialDuplicateAccounts: FusionAccount[] = []
     // All analyzed managed accounts (including non-matches)
     private analyzedManagedAccounts: FusionAccount[] = []
+    // Managed accounts that matched no fusion identity, waiting to be clustered against each other
+    private unmatchedManagedAccounts: FusionAccount[] = []
+    // Managed accounts in the review band, waiting to be clustered with their candidate identities
+    private reviewManagedAccounts: FusionAccount[] = []
+    private duplicateClusters: DuplicateCluster[] = []
+    private identityDuplicates: IdentityDuplicate[] = []
     private _reviewersBySourceId: Map<string, Set<FusionAccount>> = new Map()
     private readonly sourcesByName: Map<string, SourceInfo> = new Map()
     private readonly reset: boolean
+    private readonly dryRun: boolean
+    private plannedActions: PlannedAction[] = []
     private readonly correlateOnAggregation: boolean
     private readonly reportAttributes: string[]
     private readonly urlContext: UrlContext
     private readonly deleteEmpty: boolean
+    private readonly fusionDeduplicateNewAccounts: boolean
+    private readonly fusionUseClusterReview: boolean
+    private readonly fusionIdentityMergeForms: boolean
     public readonly fusionOwnerIsGlobalReviewer: boolean
     public readonly fusionReportOnAggregation: boolean
+    public readonly fusionScanIdentities: boolean
+    public readonly fusionUnmergeMode: 'review' | 'new'
     public newManagedAccountsCount: number = 0
     public readonly commandType?: StandardCommand
 
@@ -62,13 +92,19 @@ export class FusionService {
     ) {
         FusionAccount.configure(config)
         this.reset = config.reset
+        this.dryRun = config.dryRun ?? false
         this.correlateOnAggregation = config.correlateOnAggregation
         this.fusionOwnerIsGlobalReviewer = config.fusionOwnerIsGlobalReviewer ?? false
         this.fusionReportOnAggregation = config.fusionReportOnAggregation ?? false
+        this.fusionScanIdentities = config.fusionScanIdentities ?? false
+        this.fusionUnmergeMode = config.fusionUnmergeMode ?? 'review'
         this.reportAttributes = config.fusionFormAttributes ?? []
         this.urlContext = createUrlContext(config.baseurl)
         this.commandType = commandType
         this.deleteEmpty = config.deleteEmpty
+        this.fusionDeduplicateNewAccounts = config.fusionDeduplicateNewAccounts ?? false
+        this.fusionUseClusterReview = config.fusionUseClusterReview ?? false
+        this.fusionIdentityMergeForms = config.fusionIdentityMergeForms ?? false
     }
 
     // ------------------------------------------------------------------------
@@ -82,6 +118,50 @@ export class FusionService {
         return this.reset
     }
 
+    /**
+     * Check if dry-run mode is enabled. Write operations are recorded as planned actions instead.
+     */
+    public isDryRun(): boolean {
+        return this.dryRun
+    }
+
+    /**
+     * Record a write operation skipped in dry-run mode
+     */
+    public recordPlannedAction(type: PlannedActionType, target: string, details?: string): void {
+        this.log.debug(`Dry run: skipping ${type} for ${target}${details ? ` (${details})` : ''}`)
+        this.plannedActions.push({ type, target, details })
+    }
+
+    /**
+     * Build the dry-run plan from the recorded actions and release them
+     */
+    public generatePlan(): DryRunPlan {
+        const counts: DryRunPlan['counts'] = {}
+        for (const action of this.plannedActions) {
+            counts[action.type] = (counts[action.type] ?? 0) + 1
+        }
+        const plan: DryRunPlan = {
+            actions: this.plannedActions,
+            counts,
+            planDate: new Date(),
+        }
+        this.plannedActions = []
+        return plan
+    }
+
+    /**
+     * Get the fusion accounts as they were before this run, for output in dry-run mode
+     * so the platform keeps its current accounts unchanged
+     */
+    public listPreviousISCAccounts(): StdAccountListOutput[] {
+        return this.sources.fusionAccounts.map((account) => ({
+            key: SimpleKey(account.nativeIdentity!),
+            attributes: account.attributes ?? {},
+            disabled: account.disabled ?? false,
+        }))
+    }
+
     /**
      * Get fusion identity by identity ID
      */
@@ -229,7 +309,15 @@ export class FusionService {
         // Status/action will be updated after correlation promises resolve in getISCAccount
         const correlate = this.correlateOnAggregation && this.commandType === StandardCommand.StdAccountList
         if (correlate && fusionAccount.missingAccountIds.length > 0) {
-            await this.identities.correlateAccounts(fusionAccount)
+            if (this.dryRun) {
+                this.recordPlannedAction(
+                    'correlate-accounts',
+                    fusionAccount.name || fusionAccount.nativeIdentityOrUndefined || 'Unknown',
+                    fusionAccount.missingAccountIds.join(', ')
+                )
+            } else {
+                await this.identities.correlateAccounts(fusionAccount)
+            }
         }
 
         return fusionAccount
@@ -347,9 +435,212 @@ export class FusionService {
 
         // Apply only finished decisions to fusion identities.
         await Promise.all(identityFusionDecisions.map((x) => this.processIdentityFusionDecision(x)))
+
+        // Accounts detached by the unmerge or fusion actions become new fusion accounts once they are back in the work queue
+        const queuedDecisions = this.forms.queuedNewIdentityDecisions.filter((x) =>
+            this.sources.managedAccountsById.has(x.account.id)
+        )
+        await Promise.all(queuedDecisions.map((x) => this.processIdentityFusionDecision(x)))
+        if (this.dryRun) {
+            for (const decision of queuedDecisions) {
+                const target = `${decision.account.name} [${decision.account.sourceName}]`
+                this.recordPlannedAction('apply-decision', target, `new identity by ${decision.submitter.name}`)
+            }
+        }
+        const fusionDecisions = [...identityFusionDecisions, ...this.forms.fusionAssignmentDecisions]
+        this.learnFromFusionDecisions(fusionDecisions)
+        this.suppressRejectedCandidates(fusionDecisions)
+        fusionDecisions.forEach((x) => this.forms.recordFusionDecision(x))
+        if (this.dryRun) {
+            for (const decision of fusionDecisions.filter((x) => x.finished)) {
+                const target = `${decision.account.name} [${decision.account.sourceName}]`
+                const details = decision.newIdentity ? 'new identity' : `link to ${decision.identityId}`
+                this.recordPlannedAction('apply-decision', target, `${details} by ${decision.submitter.name}`)
+            }
+        }
         this.log.info('Identity fusion decisions processing completed')
     }
 
+    /**
+     * Apply finished identity merge decisions. The accounts of the merged identity are correlated to the
+     * identity the reviewer kept, and each moved account is recorded in the decision ledger.
+     * Requires fusion accounts and identities to be processed first.
+     */
+    public async processIdentityMergeDecisions(): Promise<void> {
+        const rejected = this.forms.identityMergeDecisions.filter((x) => this.scoring.suppressIdentityMergeDecision(x))
+        if (rejected.length > 0) {
+            this.log.info(`Suppressed ${rejected.length} identity pair(s) found not to be duplicates`)
+            this.updateSuppressionState()
+        }
+
+        const decisions = this.forms.identityMergeDecisions.filter((x) => x.merge)
+        if (decisions.length === 0) return
+
+        this.log.info(`Processing ${decisions.length} identity merge decision(s)`)
+        for (const decision of decisions) {
+            await this.mergeFusionIdentity(decision)
+        }
+    }
+
+    /**
+     * Move the accounts of the merged identity of a decision to the identity that was kept
+     */
+    private async mergeFusionIdentity(decision: IdentityMergeDecision): Promise<void> {
+        const kept = this.fusionIdentityMap.get(decision.identityId)
+        const merged = this.fusionIdentityMap.get(decision.mergedIdentityId)
+        if (!kept || !merged) {
+            this.log.warn(
+                `Skipping identity merge of ${decision.mergedIdentityId} into ${decision.identityId}: identity not found`
+            )
+            return
+        }
+
+        const keptName = kept.name || kept.displayName || decision.identityId
+        const mergedName = merged.name || merged.displayName || decision.mergedIdentityId
+        for (const accountId of merged.accountIds) {
+            const account = await this.sources.fetchAccountById(accountId)
+            const accountLabel = account ? `${account.name} [${account.sourceName}]` : accountId
+            merged.removeSourceAccount(accountId, `Moved ${accountLabel} to identity ${keptName}`)
+            kept.addMissingAccountId(accountId, `Account ${accountLabel} moved from identity ${mergedName}`)
+            this.forms.recordFusionDecision({
+                submitter: decision.submitter,
+                account: { id: accountId, name: account?.name ?? accountId, sourceName: account?.sourceName ?? '' },
+                newIdentity: false,
+                identityId: decision.identityId,
+                comments: decision.comments,
+                finished: true,
+                formUrl: decision.formUrl,
+                decisionDate: decision.decisionDate,
+                mergedFrom: decision.mergedIdentityId,
+            })
+        }
+
+        if (this.dryRun) {
+            const details = `merge ${mergedName} by ${decision.submitter.name}`
+            this.recordPlannedAction('apply-decision', keptName, details)
+            this.recordPlannedAction('correlate-accounts', keptName, kept.missingAccountIds.join(', '))
+        } else {
+            this.log.info(`Merging identity ${mergedName} into ${keptName}`)
+            await this.identities.correlateAccounts(kept)
+        }
+    }
+
+    /**
+     * Compare fusion identities with each other to find identities created separately for the same person,
+     * and create identity merge forms for pairs without a pending review when enabled.
+     * Requires fusion accounts and identities to be processed first.
+     */
+    public async processIdentityDuplicates(createForms: boolean = this.fusionIdentityMergeForms): Promise<void> {
+        const fusionIdentities = this.fusionIdentities.filter((x) => x.identityId && !x.isOrphan())
+        this.log.info(`Scanning ${fusionIdentities.length} fusion identities for duplicates`)
+        this.identityDuplicates = this.scoring.findDuplicateIdentities(fusionIdentities)
+        this.log.info(`Found ${this.identityDuplicates.length} potential duplicate identity pair(s)`)
+        if (!createForms) return
+
+        for (const duplicate of this.identityDuplicates) {
+            const identity = duplicate.match.fusionIdentity
+            const { fusionIdentity } = duplicate
+            if (this.forms.hasIdentityMergeReview(identity.identityId!, fusionIdentity.identityId!)) continue
+
+            // Reviewers of every source either identity has accounts from
+            const reviewers = new Set<FusionAccount>()
+            for (const sourceName of [...identity.sources, ...fusionIdentity.sources]) {
+                const sourceInfo = this.sourcesByName.get(sourceName)
+                if (!sourceInfo) continue
+                this.reviewersBySourceId.get(sourceInfo.id!)?.forEach((reviewer) => reviewers.add(reviewer))
+            }
+
+            const label = `${identity.name || identity.displayName} / ${fusionIdentity.name || fusionIdentity.displayName}`
+            if (this.dryRun) {
+                this.recordPlannedAction('create-form', label, `${reviewers.size} reviewer(s), duplicate identities`)
+            } else {
+                await this.forms.createIdentityMergeForm(duplicate, reviewers)
+            }
+        }
+    }
+
+    /**
+     * Report of the duplicate identity pairs found by the last scan
+     */
+    public generateIdentityDuplicateReport(): FusionReport {
+        const accounts: FusionReportAccount[] = this.identityDuplicates.map(({ fusionIdentity, match }) => ({
+            accountName: fusionIdentity.name || fusionIdentity.displayName || 'Unknown',
+            accountSource: fusionIdentity.sources.join(', '),
+            accountId: fusionIdentity.identityId,
+            accountEmail: fusionIdentity.email,
+            accountAttributes: pickAttributes(fusionIdentity.attributes as any, this.reportAttributes),
+            matchBand: match.band,
+            matches: [this.toReportMatch(match, true)],
+        }))
+        accounts.sort((a, b) => a.accountName.localeCompare(b.accountName))
+
+        const report: FusionReport = {
+            accounts,
+            totalAccounts: this.fusionIdentities.length,
+            potentialDuplicates: accounts.length,
+            reportDate: new Date(),
+            identityScan: true,
+        }
+        this.identityDuplicates = []
+
+        return report
+    }
+
+    /**
+     * Feed reviewer decisions to the scoring model and persist the learned statistics in the fusion state.
+     * System decisions (auto-correlation) are skipped since they would only reinforce the model itself.
+     * Decisions already learned from in an earlier run are skipped as well.
+     */
+    private learnFromFusionDecisions(fusionDecisions: FusionDecision[]): void {
+        let recorded = 0
+        for (const fusionDecision of fusionDecisions) {
+            if (fusionDecision.submitter.id === 'system') continue
+            recorded += this.scoring.recordFusionDecision(fusionDecision)
+        }
+
+        const forgotten = this.scoring.forgetLearnedDecisions(fusionDecisions)
+        if (forgotten.length > 0) {
+            this.attributes.removeStateValues(forgotten)
+        }
+        if (recorded > 0) {
+            this.log.info(`Learned ${recorded} attribute comparison(s) from reviewer decisions`)
+        }
+        this.attributes.setStateValues(this.scoring.matchStatisticsState)
+    }
+
+    /**
+     * Suppress the candidates reviewers rejected by choosing a new identity, so later runs
+     * do not send the same pairs to review again. Accounts detached by the unmerge action are
+     * suppressed against the identity they were detached from as well.
+     */
+    private suppressRejectedCandidates(fusionDecisions: FusionDecision[]): void {
+        let suppressed = 0
+        for (const fusionDecision of fusionDecisions) {
+            if (fusionDecision.submitter.id === 'system') continue
+            suppressed += this.scoring.suppressRejectedCandidates(fusionDecision)
+        }
+
+        if (suppressed > 0) {
+            this.log.info(`Suppressed ${suppressed} account-identity pair(s) rejected by reviewers`)
+        }
+        for (const fusionDecision of this.forms.unmergeDecisions) {
+            this.scoring.suppressUnmergedAccount(fusionDecision)
+        }
+        this.updateSuppressionState()
+    }
+
+    /**
+     * Persist the active suppressions in the fusion state and drop the expired ones
+     */
+    private updateSuppressionState(): void {
+        const expired = this.scoring.expiredSuppressionStateKeys
+        if (expired.length > 0) {
+            this.log.info(`Removing ${expired.length} expired suppression(s)`)
+            this.attributes.removeStateValues(expired)
+        }
+        this.attributes.setStateValues(this.scoring.suppressionState)
+    }
+
     /**
      * Process a single identity fusion decision
      */
@@ -415,26 +706,38 @@ export class FusionService {
         const { managedAccounts } = this.sources
         this.newManagedAccountsCount = managedAccounts.length
         this.log.info(`Processing ${managedAccounts.length} managed account(s)`)
+        this.scoring.indexFusionIdentities(this.fusionIdentities)
         await Promise.all(managedAccounts.map((x: Account) => this.processManagedAccount(x)))
+        this.logBlockingStats()
+        if (this.fusionUseClusterReview) {
+            await this.processReviewClusters()
+        }
+        if (this.fusionDeduplicateNewAccounts) {
+            await this.processUnmatchedManagedAccounts()
+        }
         this.log.info('Managed accounts processing completed')
     }
 
     /**
-     * Returns true when all attribute similarity scores in the match are 100 (perfect match).
-     * Excludes the synthetic 'average' score when overall scoring is used.
+     * Log how many identity comparisons were skipped by blocking during this run
      */
-    private static hasAllAttributeScoresPerfect(match: FusionMatch): boolean {
-        const attributeScores = match.scores.filter((s) => s.algorithm !== 'average')
-        return attributeScores.length > 0 && attributeScores.every((s) => s.score === 100)
+    private logBlockingStats(): void {
+        const { indexedIdentities, accountsScored, comparisons, skippedComparisons } = this.scoring.stats
+        if (indexedIdentities === 0) return
+        this.log.info(
+            `Blocking: ${accountsScored} account(s) scored against ${indexedIdentities} identities, ${comparisons} comparison(s) performed, ${skippedComparisons} skipped`
+        )
     }
 
     /**
-     * Builds a synthetic fusion decision for auto-correlation when all attribute scores are 100.
+     * Builds a synthetic fusion decision for auto-correlation of a match in the auto-correlate band.
      */
     private createAutoCorrelationDecision(
         fusionAccount: FusionAccount,
         account: Account,
-        identityId: string
+        fusionMatch: FusionMatch,
+        identityId: string,
+        reason: string
     ): FusionDecision {
         return {
             submitter: { id: 'system', email: '', name: 'System (auto-correlated)' },
@@ -445,50 +748,405 @@ export class FusionService {
             },
             newIdentity: false,
             identityId,
-            comments: 'Auto-correlated: all attribute scores were 100',
+            comments: `Auto-correlated: ${reason}`,
             finished: true,
+            scores: fusionMatch.scores.map((score) => ({
+                identityId,
+                attribute: score.attribute,
+                algorithm: score.algorithm ?? '',
+                score: score.score,
+                threshold: score.fusionScore,
+            })),
         }
     }
 
+    /**
+     * Builds a synthetic fusion decision recording that an account was detached from an identity
+     */
+    private createUnmergeDecision(account: Account, identityId: string, newIdentity: boolean): FusionDecision {
+        const outcome = newIdentity ? 'new fusion account' : 'queued for review'
+        return {
+            submitter: { id: 'system', email: '', name: 'System (unmerge)' },
+            account: {
+                id: account.id!,
+                name: account.name ?? '',
+                sourceName: account.sourceName ?? '',
+            },
+            newIdentity,
+            comments: `Unmerged from ${identityId}: ${outcome}`,
+            finished: true,
+            decisionDate: new Date().toISOString(),
+            unmergedFrom: identityId,
+        }
+    }
+
+    /**
+     * Detach a managed account from a fusion identity and uncorrelate it in ISC.
+     * The account returns to the work queue on the next aggregation, where it is either reviewed
+     * again or made a new fusion account, depending on the unmerge mode.
+     */
+    public async unmergeAccount(fusionAccount: FusionAccount, account: Account): Promise<void> {
+        const { identityId } = fusionAccount
+        assert(identityId, 'Fusion account has no identity to unmerge from')
+        assert(account.id, 'Managed account ID is required')
+
+        const newIdentity = this.fusionUnmergeMode === 'new'
+        const accountLabel = `${account.name} [${account.sourceName}]`
+        this.log.info(`Unmerging account ${accountLabel} from identity ${identityId}`)
+
+        await this.identities.uncorrelateAccount(account.id)
+        fusionAccount.removeSourceAccount(
+            account.id,
+            `Unmerged ${accountLabel}: ${newIdentity ? 'new fusion account' : 'queued for review'}`
+        )
+        this.forms.recordFusionDecision(this.createUnmergeDecision(account, identityId, newIdentity))
+    }
+
+    /**
+     * Builds a synthetic fusion decision for the fusion action, which bypasses scoring
+     */
+    private createForcedDecision(account: Account, identityId: string | undefined): FusionDecision {
+        return {
+            submitter: { id: 'system', email: '', name: 'System (fusion action)' },
+            account: {
+                id: account.id!,
+                name: account.name ?? '',
+                sourceName: account.sourceName ?? '',
+            },
+            newIdentity: identityId === undefined,
+            identityId,
+            comments: identityId ? `Forced merge into ${identityId}` : 'Forced new fusion account',
+            finished: true,
+            decisionDate: new Date().toISOString(),
+            forced: true,
+        }
+    }
+
+    /**
+     * Merge a managed account into a fusion identity without scoring, through the same path as a reviewer decision.
+     * The account must be in the work queue, where the decision claims it from. It is correlated to the identity right away.
+     */
+    public async forceMergeAccount(fusionAccount: FusionAccount, account: Account): Promise<void> {
+        const { identityId } = fusionAccount
+        assert(identityId, 'Fusion account has no identity to merge into')
+        assert(account.id, 'Managed account ID is required')
+        assert(this.sources.managedAccountsById.has(account.id), 'Managed account has not been loaded')
+        this.log.info(`Forcing merge of account ${account.name} [${account.sourceName}] into identity ${identityId}`)
+
+        const fusionDecision = this.createForcedDecision(account, identityId)
+        await this.processIdentityFusionDecision(fusionDecision)
+        await this.identities.correlateAccounts(fusionAccount)
+        this.forms.recordFusionDecision(fusionDecision)
+    }
+
+    /**
+     * Make a managed account a new fusion account without scoring. The account is uncorrelated
+     * from its identity and the new fusion account is created on the next aggregation.
+     */
+    public async forceNewFusionAccount(fusionAccount: FusionAccount, account: Account): Promise<void> {
+        assert(account.id, 'Managed account ID is required')
+        const accountLabel = `${account.name} [${account.sourceName}]`
+        this.log.info(`Forcing new fusion account for account ${accountLabel}`)
+
+        if (account.identityId) {
+            await this.identities.uncorrelateAccount(account.id)
+        }
+        if (fusionAccount.accountIds.includes(account.id)) {
+            fusionAccount.removeSourceAccount(account.id, `Detached ${accountLabel}: forced new fusion account`)
+        }
+        this.forms.recordFusionDecision(this.createForcedDecision(account, undefined))
+    }
+
     /**
      * Process a single managed account
      */
     public async processManagedAccount(account: Account): Promise<void> {
         const fusionAccount = await this.analyzeManagedAccount(account)
 
+        const accountLabel = `${account.name} [${fusionAccount.sourceName}]`
         if (fusionAccount.isMatch) {
-            const perfectMatch = fusionAccount.fusionMatches.find((m) =>
-                FusionService.hasAllAttributeScoresPerfect(m)
-            )
-            const identityId = perfectMatch?.fusionIdentity.identityId
-            if (this.config.fusionMergingIdentical && identityId) {
-                // Perfect match
-                this.log.debug(
-                    `Account ${account.name} [${fusionAccount.sourceName}] has all scores 100, auto-correlating to identity ${identityId}`
-                )
+            const autoMatch = fusionAccount.fusionMatches.find((m) => m.band === 'auto-correlate')
+            const identityId = autoMatch?.fusionIdentity.identityId
+            if (autoMatch && identityId) {
+                // Auto-correlate band
+                const reason = autoMatch.bandReason ?? 'match was in auto-correlate band'
+                this.log.debug(`Account ${accountLabel} ${reason}, auto-correlating to identity ${identityId}`)
                 const syntheticDecision = this.createAutoCorrelationDecision(
                     fusionAccount,
                     account,
-                    identityId
+                    autoMatch,
+                    identityId,
+                    reason
                 )
                 await this.processIdentityFusionDecision(syntheticDecision)
+                this.forms.recordFusionDecision(syntheticDecision)
+                this.fusionIdentityMap.get(identityId)?.addMatchBand('auto-correlate', accountLabel, reason)
+                if (this.dryRun) {
+                    this.recordPlannedAction('auto-correlate', accountLabel, `${identityId}: ${reason}`)
+                }
             } else {
-                // Match
-                const sourceInfo = this.sourcesByName.get(fusionAccount.sourceName)
-                assert(sourceInfo, 'Source info not found')
-                const reviewers = this.reviewersBySourceId.get(sourceInfo.id!)
-                await this.forms.createFusionForm(fusionAccount, reviewers)
+                // Review band
+                const reason = fusionAccount.fusionMatches.find((m) => m.bandReason)?.bandReason
+                fusionAccount.addMatchBand('review', accountLabel, reason)
+                if (this.fusionUseClusterReview) {
+                    // Reviewed once the review accounts of this run are clustered
+                    this.reviewManagedAccounts.push(fusionAccount)
+                } else {
+                    await this.createReviewForm(fusionAccount, accountLabel, this.getSourceReviewers(fusionAccount))
+                }
             }
         } else {
-            // Non-match
-            this.log.debug(`Account ${account.name} is not a duplicate, adding to fusion accounts`)
-            await this.attributes.refreshUniqueAttributes(fusionAccount)
-            const key = this.attributes.getSimpleKey(fusionAccount)
-            fusionAccount.setKey(key)
-            fusionAccount.setUnmatched()
+            // Non-match, or all matches in reject band
+            const rejected = fusionAccount.rejectedFusionMatches
+            if (rejected.length > 0) {
+                fusionAccount.addMatchBand('reject', accountLabel, rejected[0].bandReason)
+            }
+            if (this.fusionDeduplicateNewAccounts) {
+                // Created once the unmatched accounts of this run are clustered
+                this.unmatchedManagedAccounts.push(fusionAccount)
+            } else {
+                await this.addUnmatchedFusionAccount(fusionAccount, accountLabel)
+            }
+        }
+    }
 
-            // Use setter method to add to appropriate map
-            this.setFusionAccount(fusionAccount)
+    /**
+     * Reviewers of the source an account comes from
+     */
+    private getSourceReviewers(fusionAccount: FusionAccount): Set<FusionAccount> | undefined {
+        const sourceInfo = this.sourcesByName.get(fusionAccount.sourceName)
+        assert(sourceInfo, 'Source info not found')
+        return this.reviewersBySourceId.get(sourceInfo.id!)
+    }
+
+    /**
+     * Reviewers of the sources the accounts of a cluster come from
+     */
+    private getClusterReviewers(fusionAccounts: FusionAccount[]): Set<FusionAccount> {
+        const reviewers = new Set<FusionAccount>()
+        for (const fusionAccount of fusionAccounts) {
+            this.getSourceReviewers(fusionAccount)?.forEach((reviewer) => reviewers.add(reviewer))
+        }
+        return reviewers
+    }
+
+    /**
+     * Create the review form for an account in the review band, or record it in dry-run mode
+     */
+    private async createReviewForm(
+        fusionAccount: FusionAccount,
+        accountLabel: string,
+        reviewers: Set<FusionAccount> | undefined,
+        clusterReview?: ClusterReview
+    ): Promise<void> {
+        if (this.dryRun) {
+            const matches = clusterReview?.matches ?? fusionAccount.fusionMatches
+            const candidates = matches.map((m) => m.fusionIdentity.name).join(', ')
+            const cluster = clusterReview ? `, ${clusterReview.accounts.length} other account(s) in cluster` : ''
+            const details = `${reviewers?.size ?? 0} reviewer(s), candidates: ${candidates}${cluster}`
+            this.recordPlannedAction('create-form', accountLabel, details)
+        } else {
+            await this.forms.createFusionForm(fusionAccount, reviewers, clusterReview)
+        }
+    }
+
+    /**
+     * Group the accounts sent to review with their candidate identities and create one review form per cluster.
+     * The first account of each cluster carries the form; its candidates are every identity in the cluster,
+     * and the decision applies to the other accounts as well.
+     */
+    private async processReviewClusters(): Promise<void> {
+        const accounts = this.reviewManagedAccounts
+        this.reviewManagedAccounts = []
+        if (accounts.length === 0) return
+
+        const clusters = this.scoring.clusterPotentialDuplicates(accounts)
+        this.duplicateClusters = clusters
+        for (const cluster of clusters) {
+            // Keep processing order so the same account leads the cluster on every run
+            const [lead, ...others] = accounts.filter((x) => cluster.accounts.includes(x))
+            const accountLabel = `${lead.name} [${lead.sourceName}]`
+            if (others.length === 0) {
+                await this.createReviewForm(lead, accountLabel, this.getSourceReviewers(lead))
+                continue
+            }
+
+            // Candidate scores come from the lead when it matched the identity, from another member otherwise
+            const matches: FusionMatch[] = []
+            for (const identity of cluster.identities) {
+                const match = [lead, ...others]
+                    .map((x) => x.fusionMatches.find((m) => m.fusionIdentity === identity))
+                    .find((m) => m !== undefined)
+                if (match) matches.push(match)
+            }
+
+            this.log.debug(`Creating cluster review for ${accountLabel} with ${others.length} other account(s)`)
+            await this.createReviewForm(lead, accountLabel, this.getClusterReviewers([lead, ...others]), {
+                accounts: others,
+                matches,
+            })
+        }
+
+        const clustered = clusters.filter((x) => x.accounts.length > 1).length
+        if (clustered > 0) {
+            this.log.info(`Grouped ${accounts.length} review account(s) into ${clusters.length} cluster(s)`)
+        }
+    }
+
+    /**
+     * Add a managed account that matched no fusion identity as a new fusion account
+     */
+    private async addUnmatchedFusionAccount(fusionAccount: FusionAccount, accountLabel: string): Promise<void> {
+        this.log.debug(`Account ${accountLabel} is not a duplicate, adding to fusion accounts`)
+        await this.attributes.refreshUniqueAttributes(fusionAccount)
+        const key = this.attributes.getSimpleKey(fusionAccount)
+        fusionAccount.setKey(key)
+        fusionAccount.setUnmatched()
+
+        // Use setter method to add to appropriate map
+        this.setFusionAccount(fusionAccount)
+        if (this.dryRun) {
+            this.recordPlannedAction('create-fusion-account', accountLabel)
+        }
+    }
+
+    /**
+     * Cluster the managed accounts that matched no fusion identity against each other and against the
+     * fusion accounts still waiting for an identity, so a new person delivered by several sources in the
+     * same aggregation ends up in one fusion account.
+     *
+     * New clusters in which every member is in the auto-correlate band become a fusion account for their first
+     * account, with the members merged into it. New clusters with members in the review band are sent to review
+     * as a cluster: the first account carries the form and the decision applies to every account of the cluster.
+     * Members in the review band of a fusion account from an earlier run cannot be reviewed against it until it
+     * has an identity, so they stay out of the fusion accounts and are reviewed against it on the next aggregation.
+     */
+    private async processUnmatchedManagedAccounts(): Promise<void> {
+        const unmatched = this.unmatchedManagedAccounts
+        this.unmatchedManagedAccounts = []
+        if (unmatched.length === 0) return
+
+        const roots = this.fusionAccounts
+        const clusters = this.scoring.clusterFusionAccounts(roots, unmatched)
+        const existingRoots = new Set(roots)
+        let merged = 0
+        let reviewed = 0
+        let deferred = 0
+        for (const cluster of clusters) {
+            const isNewRoot = !existingRoots.has(cluster.root)
+            if (isNewRoot && cluster.members.some((x) => x.match.band !== 'auto-correlate')) {
+                await this.reviewUnmatchedCluster(cluster)
+                reviewed += cluster.members.length + 1
+                continue
+            }
+
+            if (isNewRoot) {
+                await this.addUnmatchedFusionAccount(cluster.root, `${cluster.root.name} [${cluster.root.sourceName}]`)
+            }
+            for (const member of cluster.members) {
+                if (member.match.band === 'auto-correlate') {
+                    await this.mergeClusterMember(cluster, member.fusionAccount, member.match)
+                    merged++
+                } else {
+                    this.deferClusterMember(cluster, member.fusionAccount, member.match)
+                    deferred++
+                }
+            }
+        }
+
+        if (merged > 0 || reviewed > 0 || deferred > 0) {
+            this.log.info(
+                `Clustered ${unmatched.length} unmatched account(s): ${merged} merged, ${reviewed} sent to review, ${deferred} deferred to review`
+            )
+        }
+    }
+
+    /**
+     * Send a new cluster with members in the review band to review. None of its accounts has a candidate
+     * identity, so the reviewer decides whether they make a new identity together; the root and its members
+     * stay out of the fusion accounts until the decision is made, like other accounts sent to review.
+     */
+    private async reviewUnmatchedCluster(cluster: FusionAccountCluster): Promise<void> {
+        const { root } = cluster
+        const rootLabel = `${root.name} [${root.sourceName}]`
+        const others = cluster.members.map((x) => x.fusionAccount)
+        for (const { fusionAccount, match } of cluster.members) {
+            const accountLabel = `${fusionAccount.name} [${fusionAccount.sourceName}]`
+            const band = match.band === 'auto-correlate' ? 'auto-correlate' : 'review'
+            const reason = match.bandReason ?? `match was in ${band} band`
+            root.addMatchBand('review', accountLabel, `${reason}, sent to cluster review`)
+            // Keep a reference for reporting, like the accounts sent to review
+            fusionAccount.addFusionMatch(match)
+            this.potentialDuplicateAccounts.push(fusionAccount)
+        }
+
+        this.log.debug(`Creating cluster review for new account ${rootLabel} with ${others.length} other account(s)`)
+        await this.createReviewForm(root, rootLabel, this.getClusterReviewers([root, ...others]), {
+            accounts: others,
+            matches: [],
+        })
+    }
+
+    /**
+     * Merge an account into the root of its cluster through a synthetic auto-correlation decision.
+     * The root has no identity yet, so the decision refers to the root's fusion account.
+     */
+    private async mergeClusterMember(
+        cluster: FusionAccountCluster,
+        fusionAccount: FusionAccount,
+        fusionMatch: FusionMatch
+    ): Promise<void> {
+        const { root } = cluster
+        const rootLabel = `${root.name} [${root.sourceName}]`
+        const accountLabel = `${fusionAccount.name} [${fusionAccount.sourceName}]`
+        const reason = `${fusionMatch.bandReason ?? 'match was in auto-correlate band'} against ${rootLabel}`
+        this.log.debug(`Account ${accountLabel} ${reason}, merging into new fusion account`)
+
+        const fusionDecision: FusionDecision = {
+            submitter: { id: 'system', email: '', name: 'System (auto-correlated)' },
+            account: {
+                id: fusionAccount.managedAccountId!,
+                name: fusionAccount.name ?? '',
+                sourceName: fusionAccount.sourceName,
+            },
+            newIdentity: false,
+            comments: `Auto-correlated: ${reason}`,
+            finished: true,
+            mergedInto: root.nativeIdentity,
+        }
+        root.addFusionDecisionLayer(fusionDecision)
+        // Use direct reference - the merged account is claimed from the working queue
+        root.addManagedAccountLayer(this.sources.managedAccountsById)
+        this.attributes.mapAttributes(root)
+        await this.attributes.refreshAttributes(root)
+        root.addMatchBand('auto-correlate', accountLabel, reason)
+        this.forms.recordFusionDecision(fusionDecision)
+        if (this.dryRun) {
+            this.recordPlannedAction('auto-correlate', accountLabel, reason)
+        }
+    }
+
+    /**
+     * Keep an account that needs review against a root without identity out of the fusion accounts.
+     * It stays uncorrelated and is compared with the root's identity on the next aggregation.
+     */
+    private deferClusterMember(
+        cluster: FusionAccountCluster,
+        fusionAccount: FusionAccount,
+        fusionMatch: FusionMatch
+    ): void {
+        const { root } = cluster
+        const accountLabel = `${fusionAccount.name} [${fusionAccount.sourceName}]`
+        const rootLabel = `${root.name} [${root.sourceName}]`
+        const reason = `${fusionMatch.bandReason ?? 'match was in review band'} against ${rootLabel}`
+        this.log.debug(`Account ${accountLabel} deferred to review: ${reason}`)
+
+        root.addMatchBand('review', accountLabel, `${reason}, deferred until it has an identity`)
+        // Keep a reference for reporting, like the accounts sent to review
+        fusionAccount.addFusionMatch(fusionMatch)
+        this.potentialDuplicateAccounts.push(fusionAccount)
+        if (this.dryRun) {
+            this.recordPlannedAction('defer-review', accountLabel, rootLabel)
         }
     }
 
@@ -498,7 +1156,12 @@ export class FusionService {
     public async analyzeManagedAccounts(): Promise<void> {
         const { managedAccounts } = this.sources
 
+        this.scoring.indexFusionIdentities(this.fusionIdentities)
         await Promise.all(managedAccounts.map((x: Account) => this.analyzeManagedAccount(x)))
+        this.logBlockingStats()
+        if (this.fusionUseClusterReview) {
+            this.duplicateClusters = this.scoring.clusterPotentialDuplicates(this.potentialDuplicateAccounts)
+        }
     }
 
     /**
@@ -524,6 +1187,73 @@ export class FusionService {
         return fusionAccount
     }
 
+    /**
+     * Replay finished reviewer decisions with the candidate matching configurations
+     * (the current ones when no candidates are configured) and measure how they would have performed.
+     * Decisions are read from the decision ledger, which keeps them after their forms are deleted.
+     * Requires fusion accounts and identities to be processed first.
+     */
+    public async evaluateFusionDecisions(): Promise<MatchingEvaluation> {
+        const candidates = this.config.fusionEvaluationMatchingConfigs ?? []
+        // Without candidates, each account is replayed with the matching profile of its source
+        const matchingConfigs = candidates.length > 0 ? candidates : undefined
+        const fusionDecisions = this.forms.reviewerLedgerDecisions
+        const evaluated = matchingConfigs
+            ? `${matchingConfigs.length} attribute match(es)`
+            : 'current matching profiles'
+        this.log.info(`Evaluating ${evaluated} against ${fusionDecisions.length} reviewer decision(s)`)
+
+        const evaluator = new MatchingEvaluator()
+        const fusionIdentities = this.fusionIdentities
+        this.scoring.indexFusionIdentities(fusionIdentities)
+        for (const fusionDecision of fusionDecisions) {
+            const accountId = fusionDecision.account.id
+            if (!this.sources.managedAccountsById.has(accountId)) {
+                await this.sources.fetchManagedAccount(accountId)
+            }
+            const account = this.sources.managedAccountsById.get(accountId)
+            const identityFound = fusionDecision.newIdentity || this.fusionIdentityMap.has(fusionDecision.identityId!)
+            if (!account || !identityFound) {
+                this.log.debug(`Skipping evaluation of decision for account ${fusionDecision.account.name}`)
+                evaluator.skipDecision()
+                continue
+            }
+
+            const fusionAccount = await this.preProcessManagedAccount(account)
+            this.scoring.evaluateFusionDecision(
+                fusionAccount,
+                this.getEvaluationCandidates(fusionAccount, fusionIdentities, fusionDecision),
+                fusionDecision,
+                evaluator,
+                matchingConfigs
+            )
+        }
+
+        const evaluation = evaluator.result
+        this.log.info(
+            `Evaluation completed - precision: ${evaluation.precision ?? 'N/A'}, recall: ${evaluation.recall ?? 'N/A'}, false merges: ${evaluation.falseMerges}, missed merges: ${evaluation.missedMerges}`
+        )
+        return evaluation
+    }
+
+    /**
+     * Identities a decision is replayed against: the blocking candidates of the account, as in an aggregation,
+     * along with the identity the reviewer chose and the identities shown on the form
+     */
+    private getEvaluationCandidates(
+        fusionAccount: FusionAccount,
+        fusionIdentities: FusionAccount[],
+        fusionDecision: FusionDecision
+    ): FusionAccount[] {
+        const candidates = new Set(this.scoring.getCandidates(fusionAccount, fusionIdentities))
+        const identityIds = [fusionDecision.identityId, ...(fusionDecision.scores ?? []).map((x) => x.identityId)]
+        for (const identityId of identityIds) {
+            const fusionIdentity = identityId ? this.fusionIdentityMap.get(identityId) : undefined
+            if (fusionIdentity) candidates.add(fusionIdentity)
+        }
+        return Array.from(candidates)
+    }
+
     // ------------------------------------------------------------------------
     // Public Output/Listing Methods
     // ------------------------------------------------------------------------
@@ -593,6 +1323,9 @@ export class FusionService {
         attributes.sources = attrConcat(Array.from(fusionAccount.sources))
         attributes.accounts = Array.from(fusionAccount.accountIds)
         attributes.history = fusionAccount.history
+        attributes.decisions = this.forms
+            .getDecisionLedgerEntries(fusionAccount)
+            .map((entry) => JSON.stringify(entry))
         attributes['missing-accounts'] = Array.from(fusionAccount.missingAccountIds)
         attributes.reviews = Array.from(fusionAccount.reviews)
         attributes.statuses = Array.from(fusionAccount.statuses)
@@ -680,20 +1413,10 @@ export class FusionService {
         for (const fusionAccount of this.potentialDuplicateAccounts) {
             const fusionMatches = fusionAccount.fusionMatches
             if (fusionMatches && fusionMatches.length > 0) {
-                const matches = fusionMatches.map((match) => ({
-                    identityName: match.fusionIdentity.name || match.fusionIdentity.displayName || 'Unknown',
-                    identityId: match.fusionIdentity.identityId,
-                    identityUrl: this.urlContext.identity(match.fusionIdentity.identityId),
-                    isMatch: true,
-                    scores: match.scores.map((score) => ({
-                        attribute: score.attribute,
-                        algorithm: score.algorithm,
-                        score: score.score,
-                        fusionScore: score.fusionScore,
-                        isMatch: score.isMatch,
-                        comment: score.comment,
-                    })),
-                }))
+                const matches = fusionMatches.map((match) => this.toReportMatch(match, true))
+                const matchBand = fusionMatches.some((match) => match.band === 'auto-correlate')
+                    ? 'auto-correlate'
+                    : 'review'
 
                 accounts.push({
                     accountName: fusionAccount.name || fusionAccount.displayName || 'Unknown',
@@ -701,6 +1424,7 @@ export class FusionService {
                     accountId: fusionAccount.managedAccountId ?? fusionAccount.nativeIdentityOrUndefined,
                     accountEmail: fusionAccount.email,
                     accountAttributes: pickAttributes(fusionAccount.attributes as any, this.reportAttributes),
+                    matchBand,
                     matches,
                 })
             }
@@ -719,21 +1443,100 @@ export class FusionService {
 
         const potentialDuplicates = accounts.length
 
+        // Pairs are already reported with the accounts, only larger clusters add information
+        const clusters = this.duplicateClusters
+            .filter((cluster) => cluster.accounts.length + cluster.identities.length > 2)
+            .map((cluster) => this.toReportCluster(cluster))
+        const suppressions = this.scoring.suppressedPairs.map((pair) => this.toReportSuppression(pair))
+
         const report: FusionReport = {
             accounts: allAccounts,
             totalAccounts: this.newManagedAccountsCount,
             potentialDuplicates,
             reportDate: new Date(),
+            clusters: clusters.length > 0 ? clusters : undefined,
+            suppressions: suppressions.length > 0 ? suppressions : undefined,
         }
 
         // Release memory from analyzed accounts after report generation
         this.log.debug('Clearing analyzed managed accounts from memory')
         this.analyzedManagedAccounts = []
         this.potentialDuplicateAccounts = []
+        this.duplicateClusters = []
 
         return report
     }
 
+    /**
+     * Convert a duplicate cluster to its report representation
+     */
+    private toReportCluster(cluster: DuplicateCluster): FusionReportCluster {
+        const label = (fusionAccount: FusionAccount): string =>
+            cluster.identities.includes(fusionAccount)
+                ? fusionAccount.name || fusionAccount.displayName || 'Unknown'
+                : `${fusionAccount.name || fusionAccount.displayName || 'Unknown'} [${fusionAccount.sourceName}]`
+
+        return {
+            accounts: cluster.accounts.map((fusionAccount) => ({
+                accountName: fusionAccount.name || fusionAccount.displayName || 'Unknown',
+                accountSource: fusionAccount.sourceName,
+                accountId: fusionAccount.managedAccountId ?? fusionAccount.nativeIdentityOrUndefined,
+            })),
+            identities: cluster.identities.map((fusionIdentity) => ({
+                identityName: fusionIdentity.name || fusionIdentity.displayName || 'Unknown',
+                identityId: fusionIdentity.identityId,
+                identityUrl: this.urlContext.identity(fusionIdentity.identityId),
+            })),
+            scores: cluster.edges.map((edge) => ({
+                source: label(edge.source),
+                target: label(edge.target),
+                score: edge.score,
+            })),
+        }
+    }
+
+    /**
+     * Convert a suppressed pair to its report representation, naming each side after
+     * the identity or managed account with that ID
+     */
+    private toReportSuppression(pair: SuppressedPair): FusionReportSuppression {
+        const name = (id: string): string => {
+            const fusionIdentity = this.fusionIdentityMap.get(id)
+            if (fusionIdentity) return fusionIdentity.name || fusionIdentity.displayName || id
+            const account = this.sources.managedAccountsById.get(id)
+            return account ? `${account.name} [${account.sourceName}]` : id
+        }
+
+        return {
+            names: [name(pair.ids[0]), name(pair.ids[1])],
+            since: pair.since,
+            expires: pair.expires,
+        }
+    }
+
+    /**
+     * Convert a fusion match to its report representation
+     */
+    private toReportMatch(match: FusionMatch, isMatch: boolean): FusionReportMatch {
+        return {
+            identityName: match.fusionIdentity.name || match.fusionIdentity.displayName || 'Unknown',
+            identityId: match.fusionIdentity.identityId,
+            identityUrl: this.urlContext.identity(match.fusionIdentity.identityId),
+            isMatch,
+            band: match.band,
+            scores: match.scores.map((score) => ({
+                attribute: score.attribute,
+                algorithm: score.algorithm,
+                score: score.score,
+                fusionScore: score.fusionScore,
+                weight: score.weight,
+                isMatch: score.isMatch,
+                comment: score.comment,
+                explanation: score.explanation,
+            })),
+        }
+    }
+
     /**
      * Generate non-match accounts for reporting
      */
@@ -751,13 +1554,16 @@ export class FusionService {
             const accountId = fusionAccount.managedAccountId ?? fusionAccount.nativeIdentityOrUndefined
             // Skip if this account is already included as a match
             if (!matchAccountIds.has(accountId)) {
+                // Non-matches only list candidates that scored as matches but fell in the reject band
+                const rejected = fusionAccount.rejectedFusionMatches
                 nonMatchAccounts.push({
                     accountName: fusionAccount.name || fusionAccount.displayName || 'Unknown',
                     accountSource: fusionAccount.sourceName,
                     accountId,
                     accountEmail: fusionAccount.email,
                     accountAttributes: pickAttributes(fusionAccount.attributes as any, this.reportAttributes),
-                    matches: [], // Non-matches have no potential matches
+                    matchBand: rejected.length > 0 ? 'reject' : undefined,
+                    matches: rejected.map((match) => this.toReportMatch(match, false)),
                 })
             }
         }
@@ -2,4 +2,14 @@
 export { FusionService } from './fusionService'
 
 // Re-export types
-export type { FusionReport, FusionReportAccount, FusionReportMatch, FusionReportScore } from './types'
+export type {
+    DryRunPlan,
+    FusionReport,
+    FusionReportAccount,
+    FusionReportCluster,
+    FusionReportMatch,
+    FusionReportScore,
+    FusionReportSuppression,
+    PlannedAction,
+    PlannedActionType,
+} from './types'
@@ -1,3 +1,5 @@
+import { MatchingEvaluation, ScoreExplanation } from '../scoringService'
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -7,8 +9,10 @@ export type FusionReportScore = {
     algorithm?: string
     score: number
     fusionScore?: number
+    weight?: number
     isMatch: boolean
     comment?: string
+    explanation?: ScoreExplanation
 }
 
 export type FusionReportMatch = {
@@ -16,6 +20,7 @@ export type FusionReportMatch = {
     identityId?: string
     identityUrl?: string
     isMatch: boolean
+    band?: string
     scores?: FusionReportScore[]
 }
 
@@ -25,12 +30,82 @@ export type FusionReportAccount = {
     accountId?: string
     accountEmail?: string
     accountAttributes?: Record<string, any>
+    /**
+     * Match band that decided how the account was handled (auto-correlate, review or reject)
+     */
+    matchBand?: string
     matches: FusionReportMatch[]
 }
 
+export type PlannedActionType =
+    | 'reset'
+    | 'aggregate-sources'
+    | 'correlate-accounts'
+    | 'apply-decision'
+    | 'auto-correlate'
+    | 'create-form'
+    | 'create-fusion-account'
+    | 'defer-review'
+    | 'delete-forms'
+    | 'send-report'
+    | 'save-state'
+    | 'save-ledger'
+
+/**
+ * Write operation skipped in dry-run mode
+ */
+export type PlannedAction = {
+    type: PlannedActionType
+    target: string
+    details?: string
+}
+
+export type DryRunPlan = {
+    actions: PlannedAction[]
+    counts: Partial<Record<PlannedActionType, number>>
+    planDate: Date | string
+}
+
+/**
+ * Pair a reviewer found not to be duplicates, skipped by matching until it expires
+ */
+export type FusionReportSuppression = {
+    /**
+     * Account ("name [source]") or identity name of each side, or its ID when it is no longer known
+     */
+    names: [string, string]
+    since: Date | string
+    expires?: Date | string
+}
+
+export type FusionReportCluster = {
+    accounts: { accountName: string; accountSource: string; accountId?: string }[]
+    identities: { identityName: string; identityId?: string; identityUrl?: string }[]
+    /**
+     * Overall scores of the matches that joined the cluster
+     */
+    scores: { source: string; target: string; score: number }[]
+}
+
 export type FusionReport = {
     accounts: FusionReportAccount[]
     totalAccounts?: number
     potentialDuplicates?: number
     reportDate?: Date | string
+    /**
+     * Replay of reviewer decisions with the evaluated matching configurations
+     */
+    evaluation?: MatchingEvaluation
+    /**
+     * Clusters of potential duplicates with more than one account or identity
+     */
+    clusters?: FusionReportCluster[]
+    /**
+     * Whether the accounts are fusion identities compared with each other rather than managed accounts
+     */
+    identityScan?: boolean
+    /**
+     * Active suppressions of reviewer-rejected pairs
+     */
+    suppressions?: FusionReportSuppression[]
 }
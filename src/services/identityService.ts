@@ -200,6 +200,25 @@ export class IdentityService {
         return true
     }
 
+    /**
+     * Remove a managed account's correlation so it no longer belongs to any identity
+     */
+    public async uncorrelateAccount(accountId: string): Promise<void> {
+        const { accountsApi } = this.client
+        const requestParameters: AccountsApiUpdateAccountRequest = {
+            id: accountId,
+            requestBody: [
+                {
+                    op: 'remove',
+                    path: '/identityId',
+                },
+            ],
+        }
+
+        this.log.debug(`Uncorrelating account ${accountId}`)
+        await this.client.execute(() => accountsApi.updateAccount(requestParameters))
+    }
+
     // ------------------------------------------------------------------------
     // Public Utility Methods
     // ------------------------------------------------------------------------
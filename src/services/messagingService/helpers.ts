@@ -1,6 +1,8 @@
 import Handlebars from 'handlebars'
 import type { TemplateDelegate as HandlebarsTemplateDelegate } from 'handlebars'
 import { FUSION_REVIEW_TEMPLATE, FUSION_REPORT_TEMPLATE } from '../../model/messages'
+import { describeScore } from '../scoringService'
+import type { MatchingEvaluation, ScoreExplanation } from '../scoringService'
 
 // ============================================================================
 // Handlebars Helpers
@@ -16,8 +18,20 @@ export const registerHandlebarsHelpers = (): void => {
         lig3: 'LIG3',
         dice: 'Dice',
         'double-metaphone': 'Double Metaphone',
+        date: 'Date',
+        email: 'Email',
+        phone: 'Phone',
+        address: 'Address',
+        veto: 'Veto Rule',
         custom: 'Custom',
         average: 'Average Score',
+        probabilistic: 'Match Weight',
+    }
+
+    const matchBandLabels: Record<string, string> = {
+        'auto-correlate': 'Auto-correlated',
+        review: 'Sent to review',
+        reject: 'Rejected',
     }
 
     // Format attribute values for display
@@ -48,6 +62,28 @@ export const registerHandlebarsHelpers = (): void => {
         return String(Math.round(num))
     })
 
+    // Format a score for display: percentage for similarity scores, signed value for match weights
+    Handlebars.registerHelper('formatScore', (value: any, algorithm?: string) => {
+        const num = typeof value === 'number' ? value : Number.parseFloat(String(value))
+        if (Number.isNaN(num)) return '0%'
+        if (algorithm === 'probabilistic') return String(Math.round(num * 10) / 10)
+        return `${Math.round(num)}%`
+    })
+
+    // Format a 0-1 ratio (precision, recall) as a percentage
+    Handlebars.registerHelper('formatRatio', (value: any) => {
+        const num = typeof value === 'number' ? value : Number.parseFloat(String(value))
+        if (Number.isNaN(num)) return 'N/A'
+        return `${Math.round(num * 1000) / 10}%`
+    })
+
+    // Label of a 10-point score distribution bucket by index (the last bucket holds perfect scores)
+    Handlebars.registerHelper('scoreBucketLabel', (index: any) => {
+        const bucket = Number.parseInt(String(index), 10)
+        if (Number.isNaN(bucket)) return ''
+        return bucket >= 10 ? '100' : `${bucket * 10}-${bucket * 10 + 9}`
+    })
+
     // Simple numeric multiply helper (useful for width calculations)
     Handlebars.registerHelper('multiply', (a: any, b: any) => {
         const left = typeof a === 'number' ? a : Number.parseFloat(String(a))
@@ -86,13 +122,25 @@ export const registerHandlebarsHelpers = (): void => {
         return algorithmLabels[String(algorithm)] ?? String(algorithm)
     })
 
-    // Identify the "Average Score" rollup row
+    // Friendly match band names
+    Handlebars.registerHelper('bandLabel', (band?: string) => {
+        if (!band) return 'N/A'
+        return matchBandLabels[String(band)] ?? String(band)
+    })
+
+    // Identify the "Average Score" and "Match Weight" rollup rows
     Handlebars.registerHelper('isAverageScoreRow', (attribute?: string, algorithm?: string) => {
         const attr = String(attribute ?? '')
         const alg = String(algorithm ?? '')
-        return attr === 'Average Score' || alg === 'average'
+        return attr === 'Average Score' || alg === 'average' || alg === 'probabilistic'
     })
 
+    // Identify the rows of broken veto rules, shown with their reason
+    Handlebars.registerHelper('isVetoRow', (algorithm?: string) => algorithm === 'veto')
+
+    // Lines explaining how a score was reached (scorer comment and explanation)
+    Handlebars.registerHelper('scoreDetails', (score: any) => (score ? describeScore(score) : []))
+
     // Chunk an array into rows for table rendering
     Handlebars.registerHelper('chunk', (arr: any[], size: any) => {
         const n = Math.max(1, Number.parseInt(String(size), 10) || 1)
@@ -164,12 +212,25 @@ export type FusionReportEmailData = {
                 fusionScore?: number
                 isMatch: boolean
                 comment?: string
+                explanation?: ScoreExplanation
             }>
         }>
     }>
     totalAccounts: number
     potentialDuplicates: number
     reportDate: Date | string
+    evaluation?: MatchingEvaluation
+    identityScan?: boolean
+    clusters?: Array<{
+        accounts: Array<{ accountName: string; accountSource: string; accountId?: string }>
+        identities: Array<{ identityName: string; identityId?: string; identityUrl?: string }>
+        scores: Array<{ source: string; target: string; score: number }>
+    }>
+    suppressions?: Array<{
+        names: [string, string]
+        since: Date | string
+        expires?: Date | string
+    }>
 }
 
 // ============================================================================
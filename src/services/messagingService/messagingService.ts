@@ -183,6 +183,7 @@ export class MessagingService {
                             fusionScore: s.fusionScore,
                             isMatch: s.isMatch,
                             comment: s.comment,
+                            explanation: s.explanation,
                         })),
                     })),
                 },
@@ -238,7 +239,11 @@ export class MessagingService {
             return
         }
 
-        const subject = `Identity Fusion Report - ${report.potentialDuplicates || 0} Potential Duplicate(s) Found`
+        const subject = report.evaluation
+            ? `Identity Fusion Matching Evaluation - ${report.evaluation.decisions} Decision(s) Replayed`
+            : report.identityScan
+              ? `Identity Fusion Duplicate Identities - ${report.potentialDuplicates || 0} Pair(s) Found`
+              : `Identity Fusion Report - ${report.potentialDuplicates || 0} Potential Duplicate(s) Found`
         const emailData: FusionReportEmailData = {
             ...report,
             totalAccounts: report.totalAccounts || report.accounts.length,
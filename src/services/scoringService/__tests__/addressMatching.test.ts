@@ -0,0 +1,78 @@
+import { matchAddresses, parseAddressParts } from '../addressMatching'
+
+describe('parseAddressParts', () => {
+    it('should split a US address into normalized components', () => {
+        expect(parseAddressParts('123 Main Street, Apt 4, Seattle, Washington 98101-1234')).toEqual({
+            number: '123',
+            street: 'main st',
+            unit: '4',
+            city: 'seattle',
+            state: 'WA',
+            postalCode: '98101',
+        })
+    })
+
+    it('should read a state code at the end of the city segment', () => {
+        expect(parseAddressParts('456 Oak Ave #12, Springfield IL')).toEqual({
+            number: '456',
+            street: 'oak ave',
+            unit: '12',
+            city: 'springfield',
+            state: 'IL',
+        })
+    })
+
+    it('should not read lowercase words of a city as a state code', () => {
+        expect(parseAddressParts('1 Beach Rd, Playa del Rey ca')?.state).toBeUndefined()
+    })
+
+    it('should read UK postcodes', () => {
+        expect(parseAddressParts('10 Downing Street, London SW1A 2AA')).toEqual({
+            number: '10',
+            street: 'downing st',
+            city: 'london',
+            postalCode: 'SW1A2AA',
+        })
+    })
+
+    it('should abbreviate city words', () => {
+        expect(parseAddressParts('Saint Louis, MO')).toEqual({ city: 'st louis', state: 'MO' })
+    })
+
+    it('should not read empty values', () => {
+        expect(parseAddressParts(' , ')).toBeUndefined()
+    })
+})
+
+describe('matchAddresses', () => {
+    it('should match the same address written with different conventions', () => {
+        const result = matchAddresses('123 Main Street, Apt 4, Seattle, Washington', '123 Main St #4, Seattle WA 98101')
+        expect(result.score).toBe(100)
+        expect(result.comment).toBe('Same address')
+    })
+
+    it('should name the components that differ', () => {
+        const result = matchAddresses('123 Main St, Seattle WA', '125 Main St, Seattle WA')
+        expect(result.score).toBeLessThan(100)
+        expect(result.comment).toBe('Differs in street number')
+        expect(result.explanation?.components?.find((x) => x.name === 'Street number')?.score).toBe(0)
+    })
+
+    it('should score misspelled streets by similarity', () => {
+        const result = matchAddresses('123 Main St, Seattle WA', '123 Mian St, Seattle WA')
+        expect(result.score).toBeGreaterThan(80)
+        expect(result.comment).toMatch(/^Differs in street \(\d+%\)$/)
+    })
+
+    it('should cap the score of addresses without a street on both sides', () => {
+        const result = matchAddresses('Seattle, WA', '123 Main St, Seattle WA')
+        expect(result.score).toBe(50)
+        expect(result.comment).toBe('Same area, no street to compare')
+    })
+
+    it('should not match values that are not addresses', () => {
+        const result = matchAddresses(' ', '123 Main St, Seattle WA')
+        expect(result.score).toBe(0)
+        expect(result.comment).toMatch(/^Not a recognized address/)
+    })
+})
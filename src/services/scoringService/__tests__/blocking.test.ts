@@ -0,0 +1,78 @@
+import { FusionAccount } from '../../../model/account'
+import { BlockingKeyConfig } from '../../../model/config'
+import { buildBlockingKeys, buildBlockingValues, CandidateIndex } from '../blocking'
+
+const account = (attributes: Record<string, any>): FusionAccount => ({ attributes }) as unknown as FusionAccount
+
+describe('buildBlockingValues', () => {
+    it('should take a normalized prefix of the configured length', () => {
+        expect(buildBlockingValues('José', { attribute: 'firstName', method: 'prefix' })).toEqual(['jos'])
+        expect(buildBlockingValues("O'Brien", { attribute: 'lastName', method: 'prefix', length: 4 })).toEqual(['obri'])
+    })
+
+    it('should give both phonetic codes of a name', () => {
+        expect(buildBlockingValues('Smith', { attribute: 'lastName', method: 'phonetic' })).toEqual(['SM0', 'XMT'])
+    })
+
+    it('should read the local part and the domain of an email', () => {
+        const value = 'John.Doe+hr@Example.com'
+        expect(buildBlockingValues(value, { attribute: 'email', method: 'email-local' })).toEqual(['johndoe'])
+        expect(buildBlockingValues(value, { attribute: 'email', method: 'email-domain' })).toEqual(['example.com'])
+        expect(buildBlockingValues('not-an-email', { attribute: 'email', method: 'email-local' })).toEqual([])
+    })
+
+    it('should normalize dates to ISO format', () => {
+        expect(buildBlockingValues('2024-03-15', { attribute: 'birthDate', method: 'date' })).toEqual(['2024-03-15'])
+        expect(buildBlockingValues('not a date', { attribute: 'birthDate', method: 'date' })).toEqual([])
+    })
+
+    it('should give no value for values without letters or digits', () => {
+        expect(buildBlockingValues('--', { attribute: 'employeeId', method: 'exact' })).toEqual([])
+    })
+})
+
+describe('buildBlockingKeys', () => {
+    it('should prefix the values with the blocking key position', () => {
+        const blockingKeys: BlockingKeyConfig[] = [
+            { attribute: 'lastName', method: 'prefix' },
+            { attribute: 'email', method: 'email-domain' },
+        ]
+        const keys = buildBlockingKeys(account({ lastName: 'Smith', email: 'jsmith@example.com' }), blockingKeys)
+        expect(keys).toEqual(['0:smi', '1:example.com'])
+    })
+
+    it('should build a key for each value of a multi-valued attribute', () => {
+        const keys = buildBlockingKeys(account({ email: ['a@one.com', 'b@two.com'] }), [
+            { attribute: 'email', method: 'email-domain' },
+        ])
+        expect(keys).toEqual(['0:one.com', '0:two.com'])
+    })
+})
+
+describe('CandidateIndex', () => {
+    const blockingKeys: BlockingKeyConfig[] = [{ attribute: 'lastName', method: 'prefix' }]
+    const smith = account({ lastName: 'Smith' })
+    const jones = account({ lastName: 'Jones' })
+    const unnamed = account({})
+
+    it('should only return identities sharing a blocking key, and identities without keys', () => {
+        const index = new CandidateIndex([smith, jones, unnamed], blockingKeys)
+        const candidates = index.getCandidates(account({ lastName: 'Smithers' }))
+        expect(candidates).toHaveLength(2)
+        expect(candidates).toEqual(expect.arrayContaining([smith, unnamed]))
+    })
+
+    it('should return every identity for an account without keys', () => {
+        const index = new CandidateIndex([smith, jones], blockingKeys)
+        expect(index.getCandidates(account({}))).toEqual([smith, jones])
+    })
+
+    it('should return added accounts as candidates', () => {
+        const index = new CandidateIndex([smith], blockingKeys)
+        const jonas = account({ lastName: 'Jonas' })
+        index.add(jonas)
+        expect(index.size).toBe(2)
+        expect(index.keyCount).toBe(2)
+        expect(index.getCandidates(account({ lastName: 'Jones' }))).toEqual([jonas])
+    })
+})
@@ -0,0 +1,91 @@
+import { FusionAccount } from '../../../model/account'
+import { buildDuplicateClusters, DisjointSet } from '../clustering'
+import { ClusterEdge } from '../types'
+
+const node = (name: string): FusionAccount => ({ name }) as unknown as FusionAccount
+
+const edge = (source: FusionAccount, target: FusionAccount, score: number): ClusterEdge => ({ source, target, score })
+
+describe('DisjointSet', () => {
+    it('should merge sets and keep their members', () => {
+        const sets = new DisjointSet<string>()
+        sets.add('a')
+        sets.add('b')
+        sets.add('c')
+        sets.union('a', 'b')
+
+        expect(sets.find('a')).toBe(sets.find('b'))
+        expect(sets.find('c')).not.toBe(sets.find('a'))
+        expect(sets.membersOf('b').sort()).toEqual(['a', 'b'])
+        expect(sets.sets).toHaveLength(2)
+    })
+
+    it('should add unknown items as sets of their own', () => {
+        const sets = new DisjointSet<string>()
+        expect(sets.find('a')).toBe('a')
+        expect(sets.membersOf('a')).toEqual(['a'])
+    })
+})
+
+describe('buildDuplicateClusters', () => {
+    const identity = node('identity')
+    const account1 = node('account1')
+    const account2 = node('account2')
+    const isIdentity = (x: FusionAccount) => x === identity
+
+    // Both accounts match the identity, but only weakly match each other
+    const chain = [edge(account1, identity, 90), edge(account2, identity, 85), edge(account1, account2, 30)]
+
+    it('should chain every edge with single linkage', () => {
+        const clusters = buildDuplicateClusters(chain, isIdentity, 'single', 50)
+        expect(clusters).toHaveLength(1)
+        expect(clusters[0].accounts).toHaveLength(2)
+        expect(clusters[0].identities).toEqual([identity])
+        expect(clusters[0].edges).toHaveLength(3)
+    })
+
+    it('should only join groups with an edge for every pair under complete linkage', () => {
+        const withoutAccountEdge = chain.slice(0, 2)
+        const clusters = buildDuplicateClusters(withoutAccountEdge, isIdentity, 'complete', 50)
+        expect(clusters).toHaveLength(2)
+        expect(clusters[0]).toEqual({ accounts: [account1], identities: [identity], edges: [withoutAccountEdge[0]] })
+        expect(clusters[1]).toEqual({ accounts: [account2], identities: [], edges: [] })
+
+        expect(buildDuplicateClusters(chain, isIdentity, 'complete', 50)).toHaveLength(1)
+    })
+
+    it('should only join groups whose average score reaches the threshold under average linkage', () => {
+        // account2 joins account1 and the identity with an average of (85 + 30) / 2
+        expect(buildDuplicateClusters(chain, isIdentity, 'average', 50)).toHaveLength(1)
+        const clusters = buildDuplicateClusters(chain, isIdentity, 'average', 60)
+        expect(clusters).toHaveLength(2)
+        expect(clusters.map((cluster) => cluster.accounts)).toEqual(expect.arrayContaining([[account1], [account2]]))
+    })
+
+    it('should not count identity pairs in the linkage', () => {
+        const identity2 = node('identity2')
+        const clusters = buildDuplicateClusters(
+            [edge(account1, identity, 90), edge(account1, identity2, 80)],
+            (x) => x === identity || x === identity2,
+            'complete',
+            50
+        )
+        expect(clusters).toHaveLength(1)
+        expect(clusters[0].identities).toHaveLength(2)
+    })
+
+    it('should keep the strongest score of repeated edges', () => {
+        const clusters = buildDuplicateClusters(
+            [
+                edge(account1, identity, 90),
+                edge(account2, identity, 90),
+                edge(account2, account1, 20),
+                edge(account1, account2, 70),
+            ],
+            isIdentity,
+            'average',
+            75
+        )
+        expect(clusters).toHaveLength(1)
+    })
+})
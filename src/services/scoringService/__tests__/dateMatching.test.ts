@@ -0,0 +1,58 @@
+import { DATE_MATCH_SCORES, matchDates, parseDateParts } from '../dateMatching'
+
+describe('parseDateParts', () => {
+    it('should read the same date in different formats', () => {
+        const expected = { year: 1985, month: 3, day: 4 }
+        expect(parseDateParts('1985-03-04')).toEqual(expected)
+        expect(parseDateParts('March 4, 1985')).toEqual(expected)
+        expect(parseDateParts('4 March 1985')).toEqual(expected)
+    })
+
+    it('should read year-only values', () => {
+        expect(parseDateParts('1985')).toEqual({ year: 1985 })
+    })
+
+    it('should not read empty values or text', () => {
+        expect(parseDateParts('  ')).toBeUndefined()
+        expect(parseDateParts('unknown')).toBeUndefined()
+    })
+})
+
+describe('matchDates', () => {
+    it('should match the same date in different formats', () => {
+        const result = matchDates('1985-03-04', 'March 4, 1985')
+        expect(result.score).toBe(DATE_MATCH_SCORES.exact)
+        expect(result.explanation?.normalized).toEqual({ account: '1985-03-04', identity: '1985-03-04' })
+    })
+
+    it('should recognize day and month swapped', () => {
+        const result = matchDates('1985-03-04', '1985-04-03')
+        expect(result.score).toBe(DATE_MATCH_SCORES.swapped)
+        expect(result.comment).toBe('Same date with day and month swapped')
+    })
+
+    it('should recognize a single mistyped digit', () => {
+        expect(matchDates('1985-03-04', '1985-03-14').score).toBe(DATE_MATCH_SCORES.oneDigit)
+        expect(matchDates('1985-03-04', '1986-03-04').score).toBe(DATE_MATCH_SCORES.oneDigit)
+    })
+
+    it('should score a year-only value against a full date by the year', () => {
+        expect(matchDates('1985', '1985-03-04').score).toBe(DATE_MATCH_SCORES.yearOnly)
+        expect(matchDates('1985', '1990-03-04').score).toBe(DATE_MATCH_SCORES.different)
+    })
+
+    it('should score full dates agreeing only on the year', () => {
+        expect(matchDates('1985-01-20', '1985-11-02').score).toBe(DATE_MATCH_SCORES.sameYear)
+    })
+
+    it('should not match unrelated dates', () => {
+        expect(matchDates('1985-03-04', '1972-11-28').score).toBe(DATE_MATCH_SCORES.different)
+    })
+
+    it('should only match unparsed values when they are identical', () => {
+        expect(matchDates('unknown', 'unknown').score).toBe(DATE_MATCH_SCORES.exact)
+        const result = matchDates('unknown', '1985-03-04')
+        expect(result.score).toBe(DATE_MATCH_SCORES.different)
+        expect(result.comment).toBe('Not a recognized date: unknown')
+    })
+})
@@ -0,0 +1,54 @@
+import { matchEmails, normalizeEmail } from '../emailMatching'
+
+describe('normalizeEmail', () => {
+    it('should lowercase the address and split it at the last @', () => {
+        expect(normalizeEmail(' John.Doe@Example.COM ')).toEqual({ local: 'john.doe', domain: 'example.com' })
+        expect(normalizeEmail('"a@b"@example.com')).toEqual({ local: '"a@b"', domain: 'example.com' })
+    })
+
+    it('should ignore dots and plus-tags only for the given domains', () => {
+        const gmail = new Set(['gmail.com'])
+        expect(normalizeEmail('J.Doe+hr@gmail.com', gmail)).toEqual({ local: 'jdoe', domain: 'gmail.com' })
+        expect(normalizeEmail('J.Doe+hr@example.com', gmail)).toEqual({ local: 'j.doe+hr', domain: 'example.com' })
+    })
+
+    it('should not read values without a local part or domain', () => {
+        expect(normalizeEmail('jdoe')).toBeUndefined()
+        expect(normalizeEmail('@example.com')).toBeUndefined()
+        expect(normalizeEmail('jdoe@')).toBeUndefined()
+    })
+})
+
+describe('matchEmails', () => {
+    it('should match the same address regardless of case', () => {
+        const result = matchEmails('JDoe@Example.com', 'jdoe@example.com')
+        expect(result.score).toBe(100)
+        expect(result.comment).toBe('Same mailbox, same domain')
+    })
+
+    it('should match normalized mailboxes of the given domains', () => {
+        expect(matchEmails('j.doe+hr@gmail.com', 'jdoe@gmail.com', new Set(['gmail.com'])).score).toBe(100)
+        expect(matchEmails('j.doe+hr@gmail.com', 'jdoe@gmail.com').score).toBeLessThan(100)
+    })
+
+    it('should lower the score less for related domains than for different domains', () => {
+        const related = matchEmails('jdoe@mail.example.com', 'jdoe@example.com')
+        const different = matchEmails('jdoe@example.com', 'jdoe@other.org')
+        expect(related.score).toBe(90)
+        expect(related.comment).toBe('Same mailbox, related domains (mail.example.com / example.com)')
+        expect(different.score).toBe(80)
+    })
+
+    it('should score similar mailboxes by spelling', () => {
+        const result = matchEmails('jsmith@example.com', 'jsmyth@example.com')
+        expect(result.score).toBeGreaterThan(80)
+        expect(result.score).toBeLessThan(100)
+        expect(result.explanation?.components?.[0].name).toBe('Mailbox')
+    })
+
+    it('should not match invalid addresses', () => {
+        const result = matchEmails('jdoe', 'jdoe@example.com')
+        expect(result.score).toBe(0)
+        expect(result.comment).toBe('Not a valid email address: jdoe')
+    })
+})
@@ -0,0 +1,79 @@
+import { MatchingEvaluator } from '../evaluation'
+import { ScoreReport } from '../types'
+
+const score = (
+    attribute: string,
+    value: number,
+    algorithm: ScoreReport['algorithm'] = 'jaro-winkler'
+): ScoreReport => ({
+    attribute,
+    algorithm,
+    score: value,
+    isMatch: value >= 80,
+})
+
+describe('MatchingEvaluator', () => {
+    it('should classify comparisons against the reviewer decision', () => {
+        const evaluator = new MatchingEvaluator()
+        evaluator.addDecision()
+        evaluator.addDecision()
+        evaluator.skipDecision()
+        evaluator.record([], true, true, false, true) // true positive
+        evaluator.record([], true, false, false, true) // missed merge
+        evaluator.record([], false, true, true, true) // false auto-correlation
+        evaluator.record([], false, true, false, true) // false merge sent to review
+        evaluator.record([], false, false, false, true) // true negative
+
+        expect(evaluator.result).toEqual({
+            decisions: 2,
+            skippedDecisions: 1,
+            comparisons: 5,
+            truePositives: 1,
+            falseMerges: 2,
+            missedMerges: 1,
+            falseAutoCorrelations: 1,
+            precision: 0.3333,
+            recall: 0.5,
+            distributions: [],
+        })
+    })
+
+    it('should leave precision and recall undefined without predictions or matches', () => {
+        const evaluator = new MatchingEvaluator()
+        evaluator.record([], false, false, false, true)
+        expect(evaluator.result.precision).toBeUndefined()
+        expect(evaluator.result.recall).toBeUndefined()
+    })
+
+    it('should tally attribute scores in buckets of ten', () => {
+        const evaluator = new MatchingEvaluator()
+        evaluator.record([score('email', 100), score('displayName', 85)], true, true, false, true)
+        evaluator.record([score('email', 42), score('displayName', 9)], false, false, false, true)
+
+        const [email, displayName] = evaluator.result.distributions
+        expect(email.attribute).toBe('email')
+        expect(email.matches[10]).toBe(1)
+        expect(email.nonMatches[4]).toBe(1)
+        expect(email.matchAverage).toBe(100)
+        expect(email.nonMatchAverage).toBe(42)
+        expect(displayName.matches[8]).toBe(1)
+        expect(displayName.nonMatches[0]).toBe(1)
+    })
+
+    it('should leave match weights, veto rows and untallied non-matches out of the distributions', () => {
+        const evaluator = new MatchingEvaluator()
+        evaluator.record(
+            [score('Match Weight', 12, 'probabilistic'), score('employeeId', 0, 'veto'), score('email', 90)],
+            true,
+            true,
+            false,
+            false
+        )
+        evaluator.record([score('email', 30)], false, false, false, false)
+
+        const { distributions } = evaluator.result
+        expect(distributions).toHaveLength(1)
+        expect(distributions[0].attribute).toBe('email')
+        expect(distributions[0].nonMatchAverage).toBeUndefined()
+    })
+})
@@ -0,0 +1,105 @@
+import { MatchingConfig } from '../../../model/config'
+import { joinAttributeValues, permutations, scoreJaroWinkler, toAttributeValues } from '../helpers'
+
+describe('scoreJaroWinkler', () => {
+    const matching: MatchingConfig = { attribute: 'displayName', algorithm: 'jaro-winkler', fusionScore: 80 }
+
+    it('should explain the prefix bonus of similar values', () => {
+        const report = scoreJaroWinkler('Martha', 'Marhta', matching)
+        expect(report.score).toBe(96)
+        expect(report.explanation?.components).toEqual([
+            { name: 'Jaro', score: 94 },
+            { name: 'Prefix bonus (3 chars)', score: 2 },
+        ])
+    })
+
+    it('should not explain a prefix bonus below a Jaro similarity of 0.7', () => {
+        const report = scoreJaroWinkler('Johnathan', 'Joe', matching)
+        const [jaro, ...rest] = report.explanation?.components ?? []
+        expect(jaro.score).toBeLessThan(70)
+        expect(jaro.score).toBe(report.score)
+        expect(rest).toEqual([])
+    })
+
+    it('should not explain a prefix bonus without a common prefix', () => {
+        const report = scoreJaroWinkler('Smith', 'Mith', matching)
+        expect(report.explanation?.components).toEqual([{ name: 'Jaro', score: report.score }])
+    })
+})
+
+describe('toAttributeValues', () => {
+    it('should split list attributes into their values', () => {
+        expect(toAttributeValues(['jsmith@acme.com', '', null, 'john@home.org'])).toEqual([
+            'jsmith@acme.com',
+            'john@home.org',
+        ])
+    })
+
+    it('should split concatenated attributes into their bracketed values', () => {
+        expect(toAttributeValues('[jsmith@acme.com] [john@home.org]')).toEqual(['jsmith@acme.com', 'john@home.org'])
+    })
+
+    it('should keep single values whole, brackets included', () => {
+        expect(toAttributeValues('John Smith')).toEqual(['John Smith'])
+        expect(toAttributeValues('Smith [contractor]')).toEqual(['Smith [contractor]'])
+    })
+
+    it('should return no values for empty attributes', () => {
+        expect(toAttributeValues(undefined)).toEqual([])
+        expect(toAttributeValues('')).toEqual([])
+        expect(toAttributeValues([])).toEqual([])
+    })
+})
+
+describe('permutations', () => {
+    it('should return every ordering of the items', () => {
+        expect(permutations(['a', 'b', 'c'])).toEqual([
+            ['a', 'b', 'c'],
+            ['a', 'c', 'b'],
+            ['b', 'a', 'c'],
+            ['b', 'c', 'a'],
+            ['c', 'a', 'b'],
+            ['c', 'b', 'a'],
+        ])
+    })
+
+    it('should return a single ordering of one or no items', () => {
+        expect(permutations(['a'])).toEqual([['a']])
+        expect(permutations([])).toEqual([[]])
+    })
+})
+
+describe('joinAttributeValues', () => {
+    const attributes = { firstname: 'John', middlename: 'Paul', lastname: 'Smith', suffix: 'Jr', title: 'Dr' }
+
+    it('should join the attributes in their configured order', () => {
+        expect(joinAttributeValues(attributes, ['firstname', 'lastname'], false)).toEqual(['John Smith'])
+    })
+
+    it('should join the attributes in every order when arranging them', () => {
+        expect(joinAttributeValues(attributes, ['firstname', 'lastname'], true)).toEqual(['John Smith', 'Smith John'])
+
+        const names = ['firstname', 'middlename', 'lastname', 'suffix']
+        expect(joinAttributeValues(attributes, names, true)).toHaveLength(24)
+    })
+
+    it('should join more than four attributes in their configured order only', () => {
+        const names = ['title', 'firstname', 'middlename', 'lastname', 'suffix']
+        expect(joinAttributeValues(attributes, names, true)).toEqual(['Dr John Paul Smith Jr'])
+    })
+
+    it('should skip missing attributes and join the first value of multi-valued ones', () => {
+        const values = { ...attributes, lastname: ['Smith', 'Jones'] }
+        expect(joinAttributeValues(values, ['firstname', 'nickname', 'lastname'], true)).toEqual([
+            'John Smith',
+            'Smith John',
+        ])
+        expect(joinAttributeValues(values, ['nickname'], true)).toEqual([])
+    })
+
+    it('should not repeat identical arrangements', () => {
+        expect(joinAttributeValues({ firstname: 'Lee', lastname: 'Lee' }, ['firstname', 'lastname'], true)).toEqual([
+            'Lee Lee',
+        ])
+    })
+})
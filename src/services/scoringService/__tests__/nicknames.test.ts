@@ -0,0 +1,53 @@
+import { matchWithAliases } from '../nameMatching'
+import { NameAliasDictionary } from '../nicknames'
+
+describe('NameAliasDictionary', () => {
+    const dictionary = new NameAliasDictionary()
+
+    it('should treat names of the same bundled group as aliases', () => {
+        expect(dictionary.areAliases('Bob', 'Robert')).toBe(true)
+        expect(dictionary.areAliases('liz', 'ELIZABETH')).toBe(true)
+        expect(dictionary.areAliases('Bob', 'Richard')).toBe(false)
+    })
+
+    it('should treat a diminutive of several names as an alias of each', () => {
+        expect(dictionary.areAliases('Al', 'Albert')).toBe(true)
+        expect(dictionary.areAliases('Al', 'Alexander')).toBe(true)
+        expect(dictionary.areAliases('Albert', 'Alexander')).toBe(false)
+    })
+
+    it('should not treat a name as its own alias, or unknown names as aliases', () => {
+        expect(dictionary.areAliases('Robert', 'robert')).toBe(false)
+        expect(dictionary.areAliases('Zebulon', 'Zeb')).toBe(false)
+    })
+
+    it('should add tenant groups from the configuration', () => {
+        const configured = NameAliasDictionary.fromConfig(['Zebulon, Zeb', 'José, Pepe', 'Solo'])
+        expect(configured.areAliases('Zeb', 'Zebulon')).toBe(true)
+        expect(configured.areAliases('Jose', 'Pepe')).toBe(true)
+        expect(configured.areAliases('Bob', 'Robert')).toBe(true)
+        expect(configured.size).toBe(new NameAliasDictionary().size + 2)
+    })
+
+    it('should start empty from no groups', () => {
+        const empty = new NameAliasDictionary([])
+        expect(empty.size).toBe(0)
+        expect(empty.areAliases('Bob', 'Robert')).toBe(false)
+    })
+})
+
+describe('matchWithAliases', () => {
+    const dictionary = new NameAliasDictionary()
+
+    it('should count aliases as matching given names', () => {
+        const withAliases = matchWithAliases('Bob Smith', 'Robert Smith', dictionary)
+        const withoutAliases = matchWithAliases('Bob Smith', 'Robert Smith', new NameAliasDictionary([]))
+        expect(withAliases.score).toBeGreaterThan(withoutAliases.score)
+        expect(withAliases.aliases).toEqual([['bob', 'robert']])
+        expect(withoutAliases.aliases).toEqual([])
+    })
+
+    it('should score identical names as a perfect match', () => {
+        expect(matchWithAliases('Robert Smith', 'Robert Smith', dictionary).score).toBe(1)
+    })
+})
@@ -0,0 +1,49 @@
+import { matchPhoneNumbers, PHONE_MATCH_SCORES, toE164 } from '../phoneMatching'
+
+describe('toE164', () => {
+    it('should normalize national numbers with the default region', () => {
+        expect(toE164('(555) 010-2000')).toBe('+15550102000')
+        expect(toE164('020 7946 0958', 'GB')).toBe('+442079460958')
+    })
+
+    it('should keep the country of international numbers', () => {
+        expect(toE164('+44 20 7946 0958')).toBe('+442079460958')
+        expect(toE164('+1 555 010 2000', 'GB')).toBe('+15550102000')
+    })
+
+    it('should drop extensions', () => {
+        expect(toE164('555-010-2000 ext. 42')).toBe('+15550102000')
+    })
+
+    it('should not normalize values that cannot be phone numbers', () => {
+        expect(toE164('12')).toBeUndefined()
+        expect(toE164('n/a')).toBeUndefined()
+    })
+})
+
+describe('matchPhoneNumbers', () => {
+    it('should match the same number written differently', () => {
+        const result = matchPhoneNumbers('+1 (555) 010-2000', '5550102000')
+        expect(result.score).toBe(PHONE_MATCH_SCORES.exact)
+        expect(result.explanation?.normalized).toEqual({ account: '+15550102000', identity: '+15550102000' })
+    })
+
+    it('should read national numbers in the default region', () => {
+        expect(matchPhoneNumbers('+44 20 7946 0958', '020 7946 0958', 'GB').score).toBe(PHONE_MATCH_SCORES.exact)
+        expect(matchPhoneNumbers('+44 20 7946 0958', '020 7946 0958', 'US').score).not.toBe(PHONE_MATCH_SCORES.exact)
+    })
+
+    it('should recognize a number missing its area code', () => {
+        const result = matchPhoneNumbers('555-010-2000', '010-2000')
+        expect(result.score).toBe(PHONE_MATCH_SCORES.trailingDigits)
+    })
+
+    it('should recognize a single mistyped digit', () => {
+        expect(matchPhoneNumbers('555-010-2000', '555-010-2001').score).toBe(PHONE_MATCH_SCORES.oneDigit)
+    })
+
+    it('should not match different numbers or values without digits', () => {
+        expect(matchPhoneNumbers('555-010-2000', '555-020-3111').score).toBe(PHONE_MATCH_SCORES.different)
+        expect(matchPhoneNumbers('n/a', '555-010-2000').comment).toBe('Not a phone number')
+    })
+})
@@ -0,0 +1,101 @@
+import { LEARNED_DECISION_PREFIX, MATCH_STATISTICS_PREFIX, MatchStatistics } from '../probabilistic'
+
+describe('MatchStatistics', () => {
+    // ========================================================================
+    // Fellegi-Sunter Weights
+    // ========================================================================
+
+    describe('weights', () => {
+        it('should use the priors for attributes without decisions', () => {
+            const weights = new MatchStatistics().getWeights('email')
+            expect(weights.m).toBeCloseTo(0.9)
+            expect(weights.u).toBeCloseTo(0.1)
+            expect(weights.agreement).toBeCloseTo(Math.log2(9))
+            expect(weights.disagreement).toBeCloseTo(Math.log2(1 / 9))
+        })
+
+        it('should blend recorded decisions with the priors', () => {
+            const statistics = new MatchStatistics()
+            statistics.record('lastName', true, true)
+            statistics.record('lastName', true, false)
+            statistics.record('lastName', false, true)
+            statistics.record('lastName', false, false)
+
+            const weights = statistics.getWeights('lastName')
+            expect(weights.m).toBeCloseTo((1 + 0.9 * 2) / (2 + 2))
+            expect(weights.u).toBeCloseTo((1 + 0.1 * 2) / (2 + 2))
+            expect(statistics.getSampleSize('lastName')).toBe(4)
+            expect(statistics.getSampleSize('email')).toBe(0)
+        })
+
+        it('should lower the agreement weight of attributes that agree on non-matches', () => {
+            const statistics = new MatchStatistics()
+            for (let i = 0; i < 10; i++) {
+                statistics.record('department', true, true)
+                statistics.record('department', false, true)
+            }
+            expect(statistics.getWeights('department').agreement).toBeLessThan(1)
+            expect(statistics.getWeights('email').agreement).toBeGreaterThan(3)
+        })
+    })
+
+    // ========================================================================
+    // Fusion State
+    // ========================================================================
+
+    describe('state', () => {
+        it('should round-trip through fusion state entries', () => {
+            const statistics = new MatchStatistics()
+            statistics.record('first.name', true, true)
+            statistics.markLearned('form-1', 1000)
+
+            const state = statistics.toState()
+            expect(state).toEqual({
+                [`${MATCH_STATISTICS_PREFIX}.first.name.matchAgree`]: 1,
+                [`${MATCH_STATISTICS_PREFIX}.first.name.matchTotal`]: 1,
+                [`${MATCH_STATISTICS_PREFIX}.first.name.nonMatchAgree`]: 0,
+                [`${MATCH_STATISTICS_PREFIX}.first.name.nonMatchTotal`]: 0,
+                [`${LEARNED_DECISION_PREFIX}.form-1`]: 1000,
+            })
+
+            const restored = new MatchStatistics(state)
+            expect(restored.getWeights('first.name')).toEqual(statistics.getWeights('first.name'))
+            expect(restored.hasLearned('form-1')).toBe(true)
+        })
+
+        it('should ignore unrelated and malformed state entries', () => {
+            const statistics = new MatchStatistics({
+                counter: 5,
+                [`${MATCH_STATISTICS_PREFIX}.email.unknown`]: 3,
+                [`${MATCH_STATISTICS_PREFIX}.email.matchTotal`]: 'many',
+                [`${LEARNED_DECISION_PREFIX}.form-1`]: 'yesterday',
+            })
+            expect(statistics.toState()).toEqual({})
+            expect(statistics.hasLearned('form-1')).toBe(false)
+        })
+    })
+
+    // ========================================================================
+    // Learned Decisions
+    // ========================================================================
+
+    describe('learned decisions', () => {
+        it('should remember the decisions learned from', () => {
+            const statistics = new MatchStatistics()
+            expect(statistics.hasLearned('form-1')).toBe(false)
+            statistics.markLearned('form-1')
+            expect(statistics.hasLearned('form-1')).toBe(true)
+        })
+
+        it('should forget the decisions no longer presented and return their state keys', () => {
+            const statistics = new MatchStatistics()
+            statistics.markLearned('form-1')
+            statistics.markLearned('form-2')
+
+            const forgotten = statistics.forgetLearnedDecisionsExcept(new Set(['form-2']))
+            expect(forgotten).toEqual([`${LEARNED_DECISION_PREFIX}.form-1`])
+            expect(statistics.hasLearned('form-1')).toBe(false)
+            expect(statistics.hasLearned('form-2')).toBe(true)
+        })
+    })
+})
@@ -0,0 +1,46 @@
+import { MatchingConfig } from '../../../model/config'
+import { ScorerRegistry } from '../scorerRegistry'
+import { Scorer } from '../types'
+
+describe('ScorerRegistry', () => {
+    const matching: MatchingConfig = { attribute: 'displayName', fusionScore: 80 }
+
+    it('should register the built-in algorithms', () => {
+        const registry = new ScorerRegistry()
+        expect(registry.names).toEqual([
+            'name-matcher',
+            'jaro-winkler',
+            'dice',
+            'double-metaphone',
+            'lig3',
+            'date',
+            'email',
+            'phone',
+            'address',
+        ])
+    })
+
+    it('should score with a built-in algorithm', () => {
+        const scorer = new ScorerRegistry().get('jaro-winkler')!
+        const report = scorer('John Smith', 'John Smith', matching)
+        expect(report.score).toBe(100)
+        expect(report.isMatch).toBe(true)
+    })
+
+    it('should register and replace custom scorers by name', () => {
+        const registry = new ScorerRegistry()
+        const always: Scorer = (_, __, config) => ({ ...config, score: 100, isMatch: true })
+        const never: Scorer = (_, __, config) => ({ ...config, score: 0, isMatch: false })
+
+        expect(registry.has('employee-id')).toBe(false)
+        expect(registry.get('employee-id')).toBeUndefined()
+
+        registry.register('employee-id', always)
+        expect(registry.has('employee-id')).toBe(true)
+        expect(registry.get('employee-id')!('a', 'b', matching).isMatch).toBe(true)
+
+        registry.register('employee-id', never)
+        expect(registry.get('employee-id')!('a', 'b', matching).isMatch).toBe(false)
+        expect(registry.names.filter((name) => name === 'employee-id')).toHaveLength(1)
+    })
+})
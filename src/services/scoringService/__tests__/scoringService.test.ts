@@ -0,0 +1,402 @@
+import { FusionAccount } from '../../../model/account'
+import { FusionConfig, MatchingConfig } from '../../../model/config'
+import { LogService } from '../../logService'
+import { normalizeVetoValue } from '../helpers'
+import { ScoringService } from '../scoringService'
+import { SUPPRESSION_PREFIX } from '../suppressions'
+import { FusionMatch, MatchBand, ScoreReport } from '../types'
+
+const log = { debug: jest.fn(), crash: jest.fn() } as unknown as LogService
+
+const createScoring = (config: Partial<FusionConfig>): ScoringService =>
+    new ScoringService(
+        {
+            matchingConfigs: [{ attribute: 'displayName', algorithm: 'jaro-winkler', fusionScore: 0 }],
+            msDay: 86400000,
+            ...config,
+        } as FusionConfig,
+        log
+    )
+
+const fusionAccount = (attributes: Record<string, any>, ids: Partial<FusionAccount> = {}): FusionAccount =>
+    ({ attributes, accountIds: [], sourceName: 'HR', ...ids }) as unknown as FusionAccount
+
+/**
+ * Match recorded when scoring an account against an identity, or undefined when the pair is not a match
+ * or was rejected
+ */
+const getMatch = (
+    scoring: ScoringService,
+    account: FusionAccount,
+    identity: FusionAccount
+): FusionMatch | undefined => {
+    const matches: FusionMatch[] = []
+    const recorder = {
+        ...account,
+        addFusionMatch: (match: FusionMatch) => matches.push(match),
+        addRejectedFusionMatch: jest.fn(),
+    }
+    scoring.scoreFusionAccount(recorder as unknown as FusionAccount, [identity])
+    return matches[0]
+}
+
+/**
+ * Band of the match between two accounts, or undefined when the pair is not a match or was rejected
+ */
+const getBand = (scoring: ScoringService, account: FusionAccount, identity: FusionAccount): MatchBand | undefined =>
+    getMatch(scoring, account, identity)?.band
+
+/**
+ * Scores of the match between two accounts, or undefined when the pair is not a match or was rejected
+ */
+const getScores = (
+    scoring: ScoringService,
+    account: FusionAccount,
+    identity: FusionAccount
+): ScoreReport[] | undefined => getMatch(scoring, account, identity)?.scores
+
+describe('ScoringService', () => {
+    // ========================================================================
+    // Overall Score
+    // ========================================================================
+
+    describe('overall score', () => {
+        const average = { fusionUseAverageScore: true, fusionAverageScore: 0 }
+        const identity = fusionAccount({ displayName: 'John Smith', department: 'Sales', email: 'jsmith@acme.com' })
+        const account = fusionAccount({ displayName: 'John Smith', department: 'Finance' })
+        const matchingConfigs: MatchingConfig[] = [
+            { attribute: 'displayName', algorithm: 'jaro-winkler', fusionScore: 0, weight: 3 },
+            { attribute: 'department', algorithm: 'jaro-winkler', fusionScore: 0 },
+        ]
+        const averageScore = (scoring: ScoringService, x: FusionAccount = account) =>
+            getScores(scoring, x, identity)?.find((score) => score.algorithm === 'average')
+
+        it('should weight each attribute score in the overall score', () => {
+            const scores = getScores(createScoring({ ...average, matchingConfigs }), account, identity)!
+            const [displayName, department, overall] = scores
+
+            expect(displayName.score).toBe(100)
+            expect(overall.score).toBeCloseTo((3 * 100 + department.score) / 4)
+            expect(overall.comment).toBe('Weighted average score is above threshold')
+        })
+
+        it('should average attribute scores equally without weights', () => {
+            const configs = matchingConfigs.map(({ attribute, algorithm, fusionScore }) => ({
+                attribute,
+                algorithm,
+                fusionScore,
+            }))
+            const scores = getScores(createScoring({ ...average, matchingConfigs: configs }), account, identity)!
+            const [, department, overall] = scores
+
+            expect(overall.score).toBeCloseTo((100 + department.score) / 2)
+            expect(overall.comment).toBe('Average score is above threshold')
+        })
+
+        it('should compare the overall score with the threshold', () => {
+            const scoring = createScoring({ ...average, matchingConfigs, fusionAverageScore: 99 })
+            expect(averageScore(scoring)).toBeUndefined()
+        })
+
+        it('should leave attributes missing on either side out of the overall score', () => {
+            const configs: MatchingConfig[] = [
+                { attribute: 'displayName', algorithm: 'jaro-winkler', fusionScore: 0 },
+                { attribute: 'email', algorithm: 'jaro-winkler', fusionScore: 0 },
+            ]
+            const scoring = createScoring({ ...average, matchingConfigs: configs })
+
+            expect(getScores(scoring, account, identity)!.map((x) => x.attribute)).toEqual([
+                'displayName',
+                'Average Score',
+            ])
+            expect(averageScore(scoring)?.score).toBe(100)
+        })
+
+        it('should score attributes missing on either side as 0 when penalizing missing values', () => {
+            const configs: MatchingConfig[] = [
+                { attribute: 'displayName', algorithm: 'jaro-winkler', fusionScore: 0 },
+                { attribute: 'email', algorithm: 'jaro-winkler', fusionScore: 0, weight: 3 },
+            ]
+            const scoring = createScoring({
+                ...average,
+                matchingConfigs: configs,
+                fusionPenalizeMissingAttributes: true,
+            })
+
+            const email = getScores(scoring, account, identity)!.find((x) => x.attribute === 'email')
+            expect(email).toMatchObject({ score: 0, isMatch: false, comment: 'Attribute missing on account' })
+            expect(averageScore(scoring)?.score).toBe(25)
+        })
+
+        it('should not penalize missing values outside overall score mode', () => {
+            const configs: MatchingConfig[] = [
+                { attribute: 'displayName', algorithm: 'jaro-winkler', fusionScore: 0 },
+                { attribute: 'email', algorithm: 'jaro-winkler', fusionScore: 0 },
+            ]
+            const scoring = createScoring({ matchingConfigs: configs, fusionPenalizeMissingAttributes: true })
+
+            expect(getScores(scoring, account, identity)!.map((x) => x.attribute)).toEqual(['displayName'])
+        })
+    })
+
+    // ========================================================================
+    // Multi-valued Attributes
+    // ========================================================================
+
+    describe('multi-valued attributes', () => {
+        const matchingConfigs: MatchingConfig[] = [{ attribute: 'email', algorithm: 'jaro-winkler', fusionScore: 90 }]
+        const identity = fusionAccount({ email: ['john.smith@acme.com', 'jsmith@home.org'] })
+
+        it('should score the best pair of values', () => {
+            const scoring = createScoring({ matchingConfigs })
+            const [email] = getScores(scoring, fusionAccount({ email: '[mary@acme.com] [jsmith@home.org]' }), identity)!
+
+            expect(email.score).toBe(100)
+            expect(email.values).toEqual({ account: 'jsmith@home.org', identity: 'jsmith@home.org' })
+            expect(email.comment).toBe('Best of 2 × 2 values: jsmith@home.org / jsmith@home.org')
+        })
+
+        it('should not match when no pair of values reaches the threshold', () => {
+            const scoring = createScoring({ matchingConfigs })
+            const account = fusionAccount({ email: ['mary@acme.com', 'mjones@home.org'] })
+            expect(getScores(scoring, account, identity)).toBeUndefined()
+        })
+
+        it('should compare single values without reporting a pair', () => {
+            const scoring = createScoring({ matchingConfigs })
+            const account = fusionAccount({ email: 'jsmith@home.org' })
+            const [email] = getScores(scoring, account, fusionAccount({ email: 'jsmith@home.org' }))!
+
+            expect(email.score).toBe(100)
+            expect(email.values).toBeUndefined()
+        })
+    })
+
+    // ========================================================================
+    // Cross-attribute Matching
+    // ========================================================================
+
+    describe('cross-attribute matching', () => {
+        const identity = fusionAccount({ displayName: 'John Smith' })
+
+        it('should compare joined account attributes with the identity attribute', () => {
+            const scoring = createScoring({
+                matchingConfigs: [
+                    {
+                        attribute: 'displayName',
+                        accountAttributes: ['firstname', 'lastname'],
+                        algorithm: 'jaro-winkler',
+                        fusionScore: 95,
+                    },
+                ],
+            })
+            const [displayName] = getScores(scoring, fusionAccount({ firstname: 'John', lastname: 'Smith' }), identity)!
+            expect(displayName.score).toBe(100)
+        })
+
+        it('should line up swapped attributes by arranging the side with more attributes', () => {
+            const scoring = createScoring({
+                matchingConfigs: [
+                    {
+                        attribute: 'displayName',
+                        accountAttributes: ['lastname', 'firstname'],
+                        algorithm: 'jaro-winkler',
+                        fusionScore: 95,
+                    },
+                ],
+            })
+            const [displayName] = getScores(scoring, fusionAccount({ firstname: 'John', lastname: 'Smith' }), identity)!
+            expect(displayName.score).toBe(100)
+            expect(displayName.values).toEqual({ account: 'John Smith', identity: 'John Smith' })
+        })
+
+        it('should compare the identity attributes when only they are configured', () => {
+            const scoring = createScoring({
+                matchingConfigs: [
+                    {
+                        attribute: 'displayName',
+                        identityAttributes: ['lastname', 'firstname'],
+                        algorithm: 'jaro-winkler',
+                        fusionScore: 95,
+                    },
+                ],
+            })
+            const account = fusionAccount({ displayName: 'John Smith' })
+            const [displayName] = getScores(scoring, account, fusionAccount({ firstname: 'John', lastname: 'Smith' }))!
+            expect(displayName.score).toBe(100)
+        })
+    })
+
+    // ========================================================================
+    // Source Matching Profiles
+    // ========================================================================
+
+    describe('source matching profiles', () => {
+        const matchingConfigs: MatchingConfig[] = [
+            { attribute: 'displayName', algorithm: 'jaro-winkler', fusionScore: 90 },
+        ]
+        const crmProfile = {
+            name: 'CRM',
+            useMatchingProfile: true,
+            matchingConfigs: [{ attribute: 'email', algorithm: 'jaro-winkler', fusionScore: 100 }] as MatchingConfig[],
+        }
+        const identity = fusionAccount({ displayName: 'John Smith', email: 'jsmith@acme.com' })
+        const hrAccount = fusionAccount({ displayName: 'John Smith', email: 'john@home.org' }, { sourceName: 'HR' })
+        const crmAccount = fusionAccount({ displayName: 'J. Smith', email: 'jsmith@acme.com' }, { sourceName: 'CRM' })
+
+        /**
+         * Accounts clustered with the identity
+         */
+        const matchedAccounts = (scoring: ScoringService, accounts: FusionAccount[]): FusionAccount[] => {
+            const [cluster] = scoring.clusterFusionAccounts([identity], accounts).filter((x) => x.root === identity)
+            return cluster.members.map((x) => x.fusionAccount)
+        }
+
+        it('should score the accounts of a source with its own profile', () => {
+            const scoring = createScoring({ matchingConfigs, sources: [crmProfile] })
+            expect(matchedAccounts(scoring, [crmAccount])).toEqual([crmAccount])
+        })
+
+        it('should score the accounts of other sources with the global profile', () => {
+            const scoring = createScoring({ matchingConfigs, sources: [{ name: 'HR' }, crmProfile] })
+            expect(matchedAccounts(scoring, [hrAccount])).toEqual([hrAccount])
+        })
+
+        it('should score with the global profile when the source profile is turned off', () => {
+            const scoring = createScoring({ matchingConfigs, sources: [{ ...crmProfile, useMatchingProfile: false }] })
+            expect(matchedAccounts(scoring, [crmAccount])).toEqual([])
+        })
+
+        it('should compare identities with the global profile', () => {
+            const scoring = createScoring({ matchingConfigs, sources: [crmProfile] })
+            expect(scoring.findDuplicateIdentities([identity, crmAccount])).toEqual([])
+            const [duplicate] = scoring.findDuplicateIdentities([identity, hrAccount])
+            expect(duplicate.match.scores.map((x) => x.attribute)).toEqual(['displayName'])
+        })
+    })
+
+    // ========================================================================
+    // Match Bands
+    // ========================================================================
+
+    describe('match bands', () => {
+        const bands = { fusionUseMatchBands: true, fusionAutoCorrelationScore: 95, fusionRejectScore: 60 }
+        const identity = fusionAccount({ displayName: 'John Smith' })
+
+        it('should auto-correlate matches at or above the auto-correlation score', () => {
+            const scoring = createScoring(bands)
+            expect(getBand(scoring, fusionAccount({ displayName: 'John Smith' }), identity)).toBe('auto-correlate')
+        })
+
+        it('should send matches within the band to review', () => {
+            const scoring = createScoring(bands)
+            expect(getBand(scoring, fusionAccount({ displayName: 'Jon Smyth' }), identity)).toBe('review')
+        })
+
+        it('should reject matches below the reject score', () => {
+            const scoring = createScoring(bands)
+            expect(getBand(scoring, fusionAccount({ displayName: 'Mary Jones' }), identity)).toBeUndefined()
+        })
+
+        it('should send every match to review without match bands', () => {
+            const scoring = createScoring({})
+            expect(getBand(scoring, fusionAccount({ displayName: 'John Smith' }), identity)).toBe('review')
+            expect(getBand(scoring, fusionAccount({ displayName: 'Mary Jones' }), identity)).toBe('review')
+        })
+
+        it('should auto-correlate identical matches when merging identical accounts', () => {
+            const scoring = createScoring({ fusionMergingIdentical: true })
+            expect(getBand(scoring, fusionAccount({ displayName: 'John Smith' }), identity)).toBe('auto-correlate')
+            expect(getBand(scoring, fusionAccount({ displayName: 'Jon Smith' }), identity)).toBe('review')
+        })
+    })
+
+    // ========================================================================
+    // Veto Rules
+    // ========================================================================
+
+    describe('veto rules', () => {
+        const config: Partial<FusionConfig> = { fusionMergingIdentical: true }
+        const identity = fusionAccount({ displayName: 'John Smith', employeeId: 'AB-123', ssn: '123-45-6789' })
+
+        it('should compare identifiers ignoring case, spaces and punctuation', () => {
+            expect(normalizeVetoValue('AB-123 456')).toBe(normalizeVetoValue('ab123456'))
+            expect(normalizeVetoValue(' - ')).toBe('')
+        })
+
+        it('should reject matches with a conflicting identifier under a reject rule', () => {
+            const scoring = createScoring({
+                ...config,
+                fusionVetoRules: [{ attribute: 'employeeId', action: 'reject' }],
+            })
+            const account = fusionAccount({ displayName: 'John Smith', employeeId: 'XY-999' })
+            expect(getBand(scoring, account, identity)).toBeUndefined()
+        })
+
+        it('should send matches with a conflicting identifier to review under a review rule', () => {
+            const scoring = createScoring({
+                ...config,
+                fusionVetoRules: [{ attribute: 'employeeId', action: 'review' }],
+            })
+            const [duplicate] = scoring.findDuplicateIdentities([
+                identity,
+                fusionAccount({ displayName: 'John Smith', employeeId: 'XY-999' }),
+            ])
+            expect(duplicate.match.band).toBe('review')
+            expect(duplicate.match.bandReason).toBe('veto rule: employeeId differs (XY-999 / AB-123)')
+        })
+
+        it('should not veto matches with the same identifier written differently', () => {
+            const scoring = createScoring({
+                ...config,
+                fusionVetoRules: [{ attribute: 'employeeId', action: 'reject' }],
+            })
+            const account = fusionAccount({ displayName: 'John Smith', employeeId: 'ab 123' })
+            expect(getBand(scoring, account, identity)).toBe('auto-correlate')
+        })
+
+        it('should not veto matches missing the identifier on either side', () => {
+            const scoring = createScoring({ ...config, fusionVetoRules: [{ attribute: 'ssn', action: 'reject' }] })
+            expect(getBand(scoring, fusionAccount({ displayName: 'John Smith' }), identity)).toBe('auto-correlate')
+        })
+    })
+
+    // ========================================================================
+    // Suppressed Pairs
+    // ========================================================================
+
+    describe('suppressed pairs', () => {
+        const identity = fusionAccount({ displayName: 'John Smith' }, { identityId: 'identity-1' })
+        const account = fusionAccount({ displayName: 'John Smith' }, { managedAccountId: 'account-1' })
+        const fusionState = { [`${SUPPRESSION_PREFIX}.account-1:identity-1`]: Date.now() }
+
+        it('should not match pairs a reviewer rejected', () => {
+            const scoring = createScoring({ fusionState })
+            expect(scoring.suppressedPairs).toHaveLength(1)
+            expect(scoring.getCandidates(account, [identity])).toEqual([identity])
+            const [cluster] = scoring.clusterFusionAccounts([identity], [account]).filter((x) => x.root === identity)
+            expect(cluster.members).toEqual([])
+        })
+
+        it('should match rejected pairs when suppression is turned off', () => {
+            const scoring = createScoring({ fusionState, fusionSuppressRejectedPairs: false })
+            const [cluster] = scoring.clusterFusionAccounts([identity], [account])
+            expect(cluster.members.map((x) => x.fusionAccount)).toEqual([account])
+        })
+
+        it('should suppress the identity an account was unmerged from', () => {
+            const scoring = createScoring({})
+            scoring.suppressUnmergedAccount({
+                submitter: { id: 'reviewer-1', email: '', name: 'Reviewer' },
+                account: { id: 'account-1', name: 'jsmith', sourceName: 'HR' },
+                newIdentity: true,
+                comments: '',
+                finished: true,
+                unmergedFrom: 'identity-1',
+                decisionDate: new Date().toISOString(),
+            })
+            const [cluster] = scoring.clusterFusionAccounts([identity], [account]).filter((x) => x.root === identity)
+            expect(cluster.members).toEqual([])
+        })
+    })
+})
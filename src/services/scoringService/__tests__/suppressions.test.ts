@@ -0,0 +1,87 @@
+import { SUPPRESSION_PREFIX, SuppressionList } from '../suppressions'
+
+const DAY = 86400000
+
+describe('SuppressionList', () => {
+    it('should suppress a pair in either order', () => {
+        const suppressions = new SuppressionList()
+        suppressions.add('account-1', 'identity-1')
+        expect(suppressions.isSuppressed(['account-1'], 'identity-1')).toBe(true)
+        expect(suppressions.isSuppressed(['identity-1'], 'account-1')).toBe(true)
+        expect(suppressions.isSuppressed(['account-2'], 'identity-1')).toBe(false)
+    })
+
+    it('should match any of the IDs of an identity and its accounts', () => {
+        const suppressions = new SuppressionList()
+        suppressions.add('account-2', 'identity-1')
+        expect(suppressions.isSuppressed([undefined, 'account-1', 'account-2'], 'identity-1')).toBe(true)
+        expect(suppressions.isSuppressed(['account-2'], undefined)).toBe(false)
+    })
+
+    it('should not suppress a pair of the same ID', () => {
+        const suppressions = new SuppressionList()
+        suppressions.add('identity-1', 'identity-1')
+        expect(suppressions.size).toBe(0)
+    })
+
+    it('should keep the latest verdict on a pair', () => {
+        const suppressions = new SuppressionList()
+        const now = Date.now()
+        suppressions.add('a', 'b', now)
+        suppressions.add('b', 'a', now - DAY)
+        expect(suppressions.size).toBe(1)
+        expect(suppressions.toState()).toEqual({ [`${SUPPRESSION_PREFIX}.a:b`]: now })
+    })
+
+    it('should round-trip through fusion state entries', () => {
+        const suppressions = new SuppressionList()
+        suppressions.add('account-1', 'identity-1', 1000)
+        const restored = new SuppressionList({ ...suppressions.toState(), counter: 3 })
+        expect(restored.size).toBe(1)
+        expect(restored.isSuppressed(['identity-1'], 'account-1')).toBe(true)
+    })
+
+    it('should list active pairs most recent first', () => {
+        const suppressions = new SuppressionList(undefined, 30 * DAY)
+        const now = Date.now()
+        suppressions.add('a', 'b', now - DAY)
+        suppressions.add('c', 'd', now)
+
+        const [latest, earlier] = suppressions.activePairs
+        expect(latest.ids).toEqual(['c', 'd'])
+        expect(latest.since).toEqual(new Date(now))
+        expect(latest.expires).toEqual(new Date(now + 30 * DAY))
+        expect(earlier.ids).toEqual(['a', 'b'])
+    })
+
+    // ========================================================================
+    // Expiration
+    // ========================================================================
+
+    describe('expiration', () => {
+        const now = 100 * DAY
+
+        it('should drop expired pairs on load and report their state keys', () => {
+            const state = {
+                [`${SUPPRESSION_PREFIX}.a:b`]: now - 40 * DAY,
+                [`${SUPPRESSION_PREFIX}.c:d`]: now - 10 * DAY,
+            }
+            const suppressions = new SuppressionList(state, 30 * DAY, now)
+            expect(suppressions.isSuppressed(['a'], 'b')).toBe(false)
+            expect(suppressions.isSuppressed(['c'], 'd')).toBe(true)
+            expect(suppressions.expiredStateKeys).toEqual([`${SUPPRESSION_PREFIX}.a:b`])
+        })
+
+        it('should keep pairs without expiration', () => {
+            const suppressions = new SuppressionList({ [`${SUPPRESSION_PREFIX}.a:b`]: 0 }, 0, now)
+            expect(suppressions.isSuppressed(['a'], 'b')).toBe(true)
+            expect(suppressions.activePairs[0].expires).toBeUndefined()
+        })
+
+        it('should ignore verdicts that have already expired', () => {
+            const suppressions = new SuppressionList(undefined, 30 * DAY)
+            suppressions.add('a', 'b', Date.now() - 40 * DAY)
+            expect(suppressions.size).toBe(0)
+        })
+    })
+})
@@ -0,0 +1,46 @@
+import { hasNonLatinLetters, romanizationVariants } from '../transliteration'
+
+describe('hasNonLatinLetters', () => {
+    it('should detect letters outside the Latin script', () => {
+        expect(hasNonLatinLetters('Харитонов')).toBe(true)
+        expect(hasNonLatinLetters('Γιώργος')).toBe(true)
+        expect(hasNonLatinLetters('王小明')).toBe(true)
+    })
+
+    it('should not count Latin letters with diacritics, digits or punctuation', () => {
+        expect(hasNonLatinLetters('José Müller-Łukasz')).toBe(false)
+        expect(hasNonLatinLetters("O'Brien 123")).toBe(false)
+    })
+})
+
+describe('romanizationVariants', () => {
+    it('should return Latin values unchanged', () => {
+        expect(romanizationVariants('Zoë Müller')).toEqual(['Zoë Müller'])
+    })
+
+    it('should expand Cyrillic into the variants of each romanization system', () => {
+        const variants = romanizationVariants('Харитонов')
+        expect(variants[0]).toBe('Haritonov')
+        expect(variants).toContain('Kharitonov')
+        expect(variants).toContain('Charitonov')
+    })
+
+    it('should keep the case of replaced letters', () => {
+        expect(romanizationVariants('Юрий')).toEqual(expect.arrayContaining(['Yuriy', 'Iurii', 'Jurij']))
+    })
+
+    it('should romanize Greek diphthongs as ELOT 743 does', () => {
+        const variants = romanizationVariants('Ευάγγελος')
+        expect(variants[0]).toBe('Eyaggelos')
+        expect(variants).toContain('Evangelos')
+    })
+
+    it('should romanize Chinese characters as pinyin', () => {
+        expect(romanizationVariants('王小明')).toEqual(['Wang Xiao Ming'])
+    })
+
+    it('should not return duplicate variants', () => {
+        const variants = romanizationVariants('Иван')
+        expect(new Set(variants).size).toBe(variants.length)
+    })
+})
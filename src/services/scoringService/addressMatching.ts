@@ -0,0 +1,256 @@
+/**
+ * Postal address matching.
+ * Both values are parsed into components (street number, street, unit, city, state, postal code), and each
+ * component present on both sides is scored on its own: "123 Main Street, Apt 4, Seattle, Washington" and
+ * "123 Main St #4, Seattle WA 98101" agree on every component they share. Abbreviations are normalized and
+ * states resolved to their codes with the geographic data of the Velocity address helpers, so spelling
+ * conventions of the sources do not lower the score.
+ * parse-address-string, behind AddressParse, reports its result asynchronously and cannot serve synchronous
+ * scorers, so values are split here the same way it does.
+ */
+
+import { UK, US } from '../attributeService/geoData'
+import { jaroWinklerSimilarity } from './stringComparison'
+import { ScoreComponent, ScoreExplanation } from './types'
+
+type AddressParts = {
+    number?: string
+    street?: string
+    unit?: string
+    city?: string
+    state?: string
+    postalCode?: string
+}
+
+type AddressComponent = keyof AddressParts
+
+export type AddressMatchResult = {
+    score: number
+    comment: string
+    explanation?: ScoreExplanation
+}
+
+// Relative weight of each component in the address score, and its name in comments and score details
+const COMPONENTS: Record<AddressComponent, { name: string; weight: number }> = {
+    number: { name: 'Street number', weight: 2 },
+    street: { name: 'Street', weight: 3 },
+    unit: { name: 'Unit', weight: 1 },
+    city: { name: 'City', weight: 2 },
+    state: { name: 'State', weight: 1 },
+    postalCode: { name: 'Postal code', weight: 2 },
+}
+
+// Without a street on both sides, agreeing values only place both addresses in the same area
+const NO_STREET_MAX_SCORE = 50
+
+// Street types and directions in their USPS / Royal Mail abbreviated forms
+const STREET_ABBREVIATIONS: Record<string, string> = {
+    street: 'st',
+    avenue: 'ave',
+    av: 'ave',
+    road: 'rd',
+    boulevard: 'blvd',
+    drive: 'dr',
+    lane: 'ln',
+    court: 'ct',
+    place: 'pl',
+    square: 'sq',
+    terrace: 'ter',
+    parkway: 'pkwy',
+    highway: 'hwy',
+    circle: 'cir',
+    trail: 'trl',
+    crescent: 'cres',
+    close: 'cl',
+    gardens: 'gdns',
+    center: 'ctr',
+    centre: 'ctr',
+    heights: 'hts',
+    north: 'n',
+    south: 's',
+    east: 'e',
+    west: 'w',
+    northeast: 'ne',
+    northwest: 'nw',
+    southeast: 'se',
+    southwest: 'sw',
+}
+
+const CITY_ABBREVIATIONS: Record<string, string> = {
+    saint: 'st',
+    fort: 'ft',
+    mount: 'mt',
+}
+
+// Unit designator (Apt, Suite, #...) followed by the unit number
+const UNIT_PATTERN = /(?:\b(?:apt|apartment|suite|ste|unit|room|rm|flat)\b\.?|#)\s*#?\s*([a-z0-9][a-z0-9-]*)/i
+
+// Postal codes are only read at the end of the value, where they cannot be mistaken for street numbers
+const US_ZIP_PATTERN = /\b(\d{5})(?:-\d{4})?$/
+const UK_POSTCODE_PATTERN = /\b([a-z]{1,2}\d[a-z\d]?)\s*(\d[a-z]{2})$/i
+
+const normalizeWords = (value: string, abbreviations: Record<string, string>): string =>
+    value
+        .toLowerCase()
+        .replace(/[.,']/g, '')
+        .split(/\s+/)
+        .filter((word) => word.length > 0)
+        .map((word) => abbreviations[word] ?? word)
+        .join(' ')
+
+/**
+ * Code of a US state or UK region given by code or name (WA, Washington, Kent), or undefined
+ */
+const resolveState = (value: string): string | undefined => {
+    const trimmed = value.trim().replace(/\.$/, '')
+    if (!trimmed) return undefined
+    return (
+        US.getStateByCode(trimmed)?.isoCode ??
+        US.getStateByName(trimmed)?.isoCode ??
+        UK.getUKRegionByCode(trimmed)?.isoCode ??
+        UK.getUKRegionByName(trimmed)?.isoCode
+    )
+}
+
+/**
+ * Split a state off the end of a city segment ("Springfield IL", "Portland Oregon").
+ * Two-letter codes must be uppercase so city words such as "La" are not read as states.
+ */
+const splitCityState = (city: string): { city: string; state?: string } => {
+    const words = city.trim().split(/\s+/)
+    for (const count of [2, 1]) {
+        if (words.length <= count) continue
+        const tail = words.slice(-count).join(' ')
+        const isCode = count === 1 && /^[A-Z]{2}$/.test(tail)
+        const state = isCode
+            ? US.getStateByCode(tail)?.isoCode
+            : (US.getStateByName(tail) ?? UK.getUKRegionByName(tail))?.isoCode
+        if (state) return { city: words.slice(0, -count).join(' '), state }
+    }
+    return { city }
+}
+
+/**
+ * Split a postal code off the end of a segment ("Seattle WA 98101-1234", "London SW1A 2AA").
+ * ZIP+4 codes keep their first five digits and UK postcodes lose their space.
+ */
+const splitPostalCode = (segment: string): { rest: string; postalCode?: string } => {
+    const uk = segment.match(UK_POSTCODE_PATTERN)
+    if (uk) return { rest: segment.slice(0, uk.index).trim(), postalCode: `${uk[1]}${uk[2]}`.toUpperCase() }
+    const zip = segment.match(US_ZIP_PATTERN)
+    if (zip) return { rest: segment.slice(0, zip.index).trim(), postalCode: zip[1] }
+    return { rest: segment }
+}
+
+/**
+ * Parse an address into normalized components. Components the value does not contain are left out.
+ * Like parse-address-string, the value is read as comma-separated segments: the postal code and state
+ * at the end, the first segment with a digit as the street and the last remaining segment as the city.
+ */
+export const parseAddressParts = (value: string): AddressParts | undefined => {
+    const parts: AddressParts = {}
+    let segments = value
+        .split(',')
+        .map((x) => x.trim())
+        .filter((x) => x.length > 0)
+
+    // Units are often a segment of their own ("123 Main St, Suite 200, ...")
+    const unit = value.match(UNIT_PATTERN)
+    if (unit) {
+        parts.unit = unit[1].toLowerCase()
+        segments = segments.map((x) => x.replace(unit[0], '').trim()).filter((x) => x.length > 0)
+    }
+
+    const last = segments.pop()
+    if (last !== undefined) {
+        const { rest, postalCode } = splitPostalCode(last)
+        parts.postalCode = postalCode
+        const state = resolveState(rest)
+        if (state) {
+            parts.state = state
+        } else {
+            const split = splitCityState(rest)
+            parts.state = split.state
+            if (split.city) segments.push(split.city)
+        }
+    }
+
+    const streetIndex = segments.findIndex((x) => /\d/.test(x))
+    if (streetIndex >= 0) {
+        const streetLine = segments[streetIndex]
+        const street = streetLine.match(/^(\d+[a-z]?(?:-\d+)?)\b\s*(.*)$/i)
+        parts.number = street?.[1].toLowerCase()
+        parts.street = normalizeWords(street ? street[2] : streetLine, STREET_ABBREVIATIONS) || undefined
+    }
+    const cityIndex = segments.length - 1
+    if (cityIndex >= 0 && cityIndex !== streetIndex) {
+        parts.city = normalizeWords(segments[cityIndex], CITY_ABBREVIATIONS) || undefined
+    }
+
+    const hasComponents = Object.values(parts).some((x) => x !== undefined)
+    return hasComponents ? parts : undefined
+}
+
+const formatParts = (parts: AddressParts): string =>
+    [
+        [parts.number, parts.street].filter((x) => x).join(' '),
+        parts.unit ? `unit ${parts.unit}` : '',
+        parts.city ?? '',
+        [parts.state, parts.postalCode].filter((x) => x).join(' '),
+    ]
+        .filter((x) => x)
+        .join(', ')
+
+// Streets and cities are compared by spelling, the other components must agree exactly
+const scoreComponent = (component: AddressComponent, value1: string, value2: string): number => {
+    if (value1 === value2) return 100
+    if (component === 'street' || component === 'city') {
+        return Math.round(jaroWinklerSimilarity(value1, value2) * 100)
+    }
+    return 0
+}
+
+/**
+ * Compare two postal addresses.
+ * Each component present on both sides is scored (street and city by Jaro-Winkler similarity, the others
+ * by exact agreement) and the score is the weighted average of the component scores. Components missing
+ * on either side are left out, as sources often deliver partial addresses. Without a street on both sides
+ * the score is capped at 50.
+ */
+export const matchAddresses = (value1: string, value2: string): AddressMatchResult => {
+    const parts1 = parseAddressParts(value1)
+    const parts2 = parseAddressParts(value2)
+    if (!parts1 || !parts2) {
+        const unparsed = !parts1 ? value1 : value2
+        return { score: 0, comment: `Not a recognized address: ${unparsed}` }
+    }
+
+    const components: ScoreComponent[] = []
+    const differing: string[] = []
+    let total = 0
+    let weights = 0
+    for (const component of Object.keys(COMPONENTS) as AddressComponent[]) {
+        const { name, weight } = COMPONENTS[component]
+        const [componentValue1, componentValue2] = [parts1[component], parts2[component]]
+        if (!componentValue1 || !componentValue2) continue
+        const score = scoreComponent(component, componentValue1, componentValue2)
+        components.push({ name, score, weight })
+        if (score < 100) differing.push(score > 0 ? `${name.toLowerCase()} (${score}%)` : name.toLowerCase())
+        total += score * weight
+        weights += weight
+    }
+
+    const normalized = { account: formatParts(parts1), identity: formatParts(parts2) }
+    if (weights === 0) {
+        return { score: 0, comment: 'No address components to compare', explanation: { normalized } }
+    }
+
+    const hasStreet = components.some((x) => x.name === COMPONENTS.street.name)
+    const average = Math.round(total / weights)
+    const score = hasStreet ? average : Math.min(average, NO_STREET_MAX_SCORE)
+    const agreement =
+        differing.length > 0 ? `Differs in ${differing.join(', ')}` : hasStreet ? 'Same address' : 'Same area'
+    const comment = hasStreet ? agreement : `${agreement}, no street to compare`
+
+    return { score, comment, explanation: { normalized, components } }
+}
@@ -0,0 +1,163 @@
+import { doubleMetaphone } from 'double-metaphone'
+import parse from 'any-date-parser'
+import { FusionAccount } from '../../model/account'
+import { BlockingKeyConfig } from '../../model/config'
+import { toAttributeValues } from './helpers'
+
+// ============================================================================
+// Blocking Key Helpers
+// ============================================================================
+
+const DEFAULT_PREFIX_LENGTH = 3
+
+/**
+ * Lowercase, strip diacritics and keep only letters and digits
+ */
+const normalizeBlockingValue = (value: string): string => {
+    return value
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
+        .replace(/[^a-z0-9]/g, '')
+}
+
+const splitEmail = (value: string): { local: string; domain: string } | undefined => {
+    const email = value.trim().toLowerCase()
+    const at = email.lastIndexOf('@')
+    if (at <= 0 || at === email.length - 1) return undefined
+    return { local: email.slice(0, at), domain: email.slice(at + 1) }
+}
+
+const toISODate = (value: string): string | undefined => {
+    const date = parse.fromAny(value)
+    if (!(date instanceof Date) || isNaN(date.getTime())) return undefined
+    return date.toISOString().split('T')[0]
+}
+
+/**
+ * Build the blocking key values for a single attribute value according to the key method.
+ * Returns an empty list when the value cannot produce a key.
+ */
+export const buildBlockingValues = (value: string, blockingKey: BlockingKeyConfig): string[] => {
+    switch (blockingKey.method) {
+        case 'prefix': {
+            const normalized = normalizeBlockingValue(value)
+            const length = blockingKey.length ?? DEFAULT_PREFIX_LENGTH
+            return normalized ? [normalized.substring(0, length)] : []
+        }
+        case 'phonetic': {
+            const normalized = normalizeBlockingValue(value)
+            if (!normalized) return []
+            const [primary, secondary] = doubleMetaphone(normalized)
+            return Array.from(new Set([primary, secondary].filter((code) => code)))
+        }
+        case 'email-local': {
+            const email = splitEmail(value)
+            const local = email ? normalizeBlockingValue(email.local.split('+')[0]) : ''
+            return local ? [local] : []
+        }
+        case 'email-domain': {
+            const email = splitEmail(value)
+            return email ? [email.domain] : []
+        }
+        case 'date': {
+            const date = toISODate(value)
+            return date ? [date] : []
+        }
+        case 'exact': {
+            const normalized = normalizeBlockingValue(value)
+            return normalized ? [normalized] : []
+        }
+    }
+    return []
+}
+
+/**
+ * Build all blocking keys for a fusion account. Keys are prefixed with the blocking key
+ * position so values from different attributes never collide.
+ */
+export const buildBlockingKeys = (fusionAccount: FusionAccount, blockingKeys: BlockingKeyConfig[]): string[] => {
+    const keys: string[] = []
+    blockingKeys.forEach((blockingKey, index) => {
+        for (const item of toAttributeValues(fusionAccount.attributes[blockingKey.attribute])) {
+            for (const blockingValue of buildBlockingValues(item, blockingKey)) {
+                keys.push(`${index}:${blockingValue}`)
+            }
+        }
+    })
+    return keys
+}
+
+// ============================================================================
+// CandidateIndex Class
+// ============================================================================
+
+/**
+ * Inverted index of fusion identities by blocking key.
+ * Built once per run so each managed account is only compared against identities
+ * sharing at least one blocking key, instead of every fusion identity.
+ *
+ * Identities without any blocking key value cannot be ruled out and are always
+ * returned as candidates. Accounts without any blocking key value are compared
+ * against every indexed identity.
+ */
+export class CandidateIndex {
+    private readonly index: Map<string, FusionAccount[]> = new Map()
+    private readonly unkeyed: FusionAccount[] = []
+    private readonly all: FusionAccount[]
+
+    constructor(
+        fusionIdentities: FusionAccount[],
+        private readonly blockingKeys: BlockingKeyConfig[]
+    ) {
+        this.all = []
+        for (const fusionIdentity of fusionIdentities) {
+            this.add(fusionIdentity)
+        }
+    }
+
+    /**
+     * Index one more fusion account, for indexes that grow while accounts are being clustered
+     */
+    public add(fusionIdentity: FusionAccount): void {
+        this.all.push(fusionIdentity)
+        const keys = buildBlockingKeys(fusionIdentity, this.blockingKeys)
+        if (keys.length === 0) {
+            this.unkeyed.push(fusionIdentity)
+            return
+        }
+        for (const key of new Set(keys)) {
+            const bucket = this.index.get(key) ?? []
+            bucket.push(fusionIdentity)
+            this.index.set(key, bucket)
+        }
+    }
+
+    public get size(): number {
+        return this.all.length
+    }
+
+    public get keyCount(): number {
+        return this.index.size
+    }
+
+    /**
+     * Get the fusion identities that share at least one blocking key with the account
+     */
+    public getCandidates(fusionAccount: FusionAccount): FusionAccount[] {
+        const keys = buildBlockingKeys(fusionAccount, this.blockingKeys)
+        if (keys.length === 0) {
+            return this.all
+        }
+
+        const candidates = new Set<FusionAccount>(this.unkeyed)
+        for (const key of keys) {
+            const bucket = this.index.get(key)
+            if (!bucket) continue
+            for (const fusionIdentity of bucket) {
+                candidates.add(fusionIdentity)
+            }
+        }
+        return Array.from(candidates)
+    }
+}
@@ -0,0 +1,167 @@
+import { FusionAccount } from '../../model/account'
+import { ClusterEdge, ClusterLinkage, DuplicateCluster } from './types'
+
+// ============================================================================
+// DisjointSet Class
+// ============================================================================
+
+/**
+ * Union-find over arbitrary items, with path compression and union by size.
+ * Each set keeps its members so linkage rules can inspect both sides of a union.
+ */
+export class DisjointSet<T> {
+    private readonly parents: Map<T, T> = new Map()
+    private readonly members: Map<T, T[]> = new Map()
+
+    public add(item: T): void {
+        if (this.parents.has(item)) return
+        this.parents.set(item, item)
+        this.members.set(item, [item])
+    }
+
+    public find(item: T): T {
+        this.add(item)
+        let root = item
+        while (this.parents.get(root) !== root) {
+            root = this.parents.get(root)!
+        }
+        // Path compression
+        let current = item
+        while (current !== root) {
+            const next = this.parents.get(current)!
+            this.parents.set(current, root)
+            current = next
+        }
+        return root
+    }
+
+    /**
+     * Members of the set the item belongs to
+     */
+    public membersOf(item: T): T[] {
+        return this.members.get(this.find(item))!
+    }
+
+    /**
+     * Merge the sets of both items
+     * @returns The root of the merged set
+     */
+    public union(a: T, b: T): T {
+        const rootA = this.find(a)
+        const rootB = this.find(b)
+        if (rootA === rootB) return rootA
+
+        const membersA = this.members.get(rootA)!
+        const membersB = this.members.get(rootB)!
+        const [root, child] = membersA.length >= membersB.length ? [rootA, rootB] : [rootB, rootA]
+        this.parents.set(child, root)
+        this.members.set(root, [...this.members.get(root)!, ...this.members.get(child)!])
+        this.members.delete(child)
+        return root
+    }
+
+    /**
+     * All sets, as lists of members
+     */
+    public get sets(): T[][] {
+        return Array.from(this.members.values())
+    }
+}
+
+// ============================================================================
+// Duplicate Clustering
+// ============================================================================
+
+const pairKey = (a: FusionAccount, b: FusionAccount, ids: Map<FusionAccount, number>): string => {
+    const idA = ids.get(a)!
+    const idB = ids.get(b)!
+    return idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`
+}
+
+/**
+ * Whether two groups may be merged under the linkage rule. Only pairs with at least one account
+ * count: identities are never compared with each other here, so an identity-identity pair says nothing.
+ * - single: any edge between the groups (always true, since an edge triggered the check)
+ * - complete: every pair across the groups has an edge
+ * - average: the average score across the groups, counting pairs without an edge as 0, reaches averageScore
+ */
+const satisfiesLinkage = (
+    groupA: FusionAccount[],
+    groupB: FusionAccount[],
+    scores: Map<string, number>,
+    ids: Map<FusionAccount, number>,
+    isIdentity: (fusionAccount: FusionAccount) => boolean,
+    linkage: ClusterLinkage,
+    averageScore: number
+): boolean => {
+    if (linkage === 'single') return true
+
+    let pairs = 0
+    let total = 0
+    for (const a of groupA) {
+        for (const b of groupB) {
+            if (isIdentity(a) && isIdentity(b)) continue
+            const score = scores.get(pairKey(a, b, ids))
+            if (score === undefined && linkage === 'complete') return false
+            pairs++
+            total += score ?? 0
+        }
+    }
+
+    return linkage === 'complete' || (pairs > 0 && total / pairs >= averageScore)
+}
+
+/**
+ * Group accounts and identities into clusters of mutually plausible duplicates.
+ * Edges are merged strongest first, and two clusters are only joined when the linkage rule holds,
+ * so a weak edge cannot chain otherwise unrelated clusters together (except with single linkage).
+ * Clusters without any account are dropped.
+ * @param edges - Match edges between an account and an identity or between two accounts
+ * @param isIdentity - Whether a node is an existing identity rather than an account under review
+ */
+export const buildDuplicateClusters = (
+    edges: ClusterEdge[],
+    isIdentity: (fusionAccount: FusionAccount) => boolean,
+    linkage: ClusterLinkage,
+    averageScore: number
+): DuplicateCluster[] => {
+    const ids: Map<FusionAccount, number> = new Map()
+    const scores: Map<string, number> = new Map()
+    const sets = new DisjointSet<FusionAccount>()
+    for (const edge of edges) {
+        for (const node of [edge.source, edge.target]) {
+            if (!ids.has(node)) ids.set(node, ids.size)
+            sets.add(node)
+        }
+        const key = pairKey(edge.source, edge.target, ids)
+        scores.set(key, Math.max(scores.get(key) ?? 0, edge.score))
+    }
+
+    const sorted = [...edges].sort((a, b) => b.score - a.score)
+    const accepted: ClusterEdge[] = []
+    for (const edge of sorted) {
+        if (sets.find(edge.source) === sets.find(edge.target)) {
+            accepted.push(edge)
+            continue
+        }
+        const groupA = sets.membersOf(edge.source)
+        const groupB = sets.membersOf(edge.target)
+        if (satisfiesLinkage(groupA, groupB, scores, ids, isIdentity, linkage, averageScore)) {
+            sets.union(edge.source, edge.target)
+            accepted.push(edge)
+        }
+    }
+
+    const clusters: DuplicateCluster[] = []
+    for (const members of sets.sets) {
+        const accounts = members.filter((x) => !isIdentity(x))
+        if (accounts.length === 0) continue
+        const memberSet = new Set(members)
+        clusters.push({
+            accounts,
+            identities: members.filter(isIdentity),
+            edges: accepted.filter((edge) => memberSet.has(edge.source) && memberSet.has(edge.target)),
+        })
+    }
+    return clusters
+}
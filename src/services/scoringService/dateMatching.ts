@@ -0,0 +1,127 @@
+/**
+ * Date matching for birth dates and other date-typed attributes.
+ * Values are parsed into calendar components first, so "1985-03-04", "March 4, 1985" and
+ * "04.03.1985" compare as the same date, and near misses typical of data entry
+ * (swapped day and month, a mistyped digit) are told apart from unrelated dates.
+ */
+
+import parse from 'any-date-parser'
+import { Datefns } from '../attributeService/dateUtils'
+import { ScoreExplanation } from './types'
+
+/**
+ * Calendar components of a parsed date. Month and day are missing for year-only values.
+ */
+type DateParts = {
+    year: number
+    month?: number
+    day?: number
+}
+
+export type DateMatchResult = {
+    score: number
+    comment: string
+    explanation?: ScoreExplanation
+}
+
+// Scores by outcome, from strongest to weakest agreement
+export const DATE_MATCH_SCORES = {
+    exact: 100,
+    // Day and month swapped: the usual US / European format mix-up
+    swapped: 85,
+    // A single digit differs in yyyymmdd form: a typo in the day, month or year
+    oneDigit: 75,
+    // One value only has a year, and it agrees with the other value
+    yearOnly: 60,
+    // Full dates in the same year, but with a different day and month
+    sameYear: 30,
+    different: 0,
+}
+
+const toDigits = (parts: Required<DateParts>): string =>
+    `${parts.year}`.padStart(4, '0') + `${parts.month}`.padStart(2, '0') + `${parts.day}`.padStart(2, '0')
+
+const isComplete = (parts: DateParts): parts is Required<DateParts> =>
+    parts.month !== undefined && parts.day !== undefined
+
+// yyyy-mm-dd, or yyyy for year-only values
+const formatParts = (parts: DateParts): string =>
+    isComplete(parts) ? toDigits(parts).replace(/^(\d{4})(\d{2})/, '$1-$2-') : `${parts.year}`
+
+/**
+ * Parse a value into calendar components with any-date-parser, falling back to
+ * the Datefns parser (native Date parsing) for values it cannot read
+ */
+export const parseDateParts = (value: string): DateParts | undefined => {
+    const trimmed = value.trim()
+    if (!trimmed) return undefined
+
+    const attempt = parse.attempt(trimmed)
+    if (!attempt.invalid && attempt.year !== undefined) {
+        if (attempt.month !== undefined && attempt.day !== undefined) {
+            return { year: attempt.year, month: attempt.month, day: attempt.day }
+        }
+        if (attempt.month === undefined && attempt.day === undefined) {
+            return { year: attempt.year }
+        }
+    }
+
+    if (!Datefns.isValid(trimmed)) return undefined
+    const [year, month, day] = Datefns.format(Datefns.parse(trimmed), 'yyyy-MM-dd').split('-').map(Number)
+    return { year, month, day }
+}
+
+// Score parsed dates by the rules described on matchDates
+const compareDateParts = (parts1: DateParts, parts2: DateParts): DateMatchResult => {
+    if (!isComplete(parts1) || !isComplete(parts2)) {
+        return parts1.year === parts2.year
+            ? { score: DATE_MATCH_SCORES.yearOnly, comment: `Same year, no day and month to compare (${parts1.year})` }
+            : { score: DATE_MATCH_SCORES.different, comment: `Different years (${parts1.year} / ${parts2.year})` }
+    }
+
+    const digits1 = toDigits(parts1)
+    const digits2 = toDigits(parts2)
+    if (digits1 === digits2) {
+        return { score: DATE_MATCH_SCORES.exact, comment: 'Same date' }
+    }
+
+    if (parts1.year === parts2.year && parts1.day === parts2.month && parts1.month === parts2.day) {
+        return { score: DATE_MATCH_SCORES.swapped, comment: 'Same date with day and month swapped' }
+    }
+
+    const differentDigits = Array.from(digits1).filter((digit, index) => digit !== digits2[index]).length
+    if (differentDigits === 1) {
+        return { score: DATE_MATCH_SCORES.oneDigit, comment: `One digit differs (${digits1} / ${digits2})` }
+    }
+
+    if (parts1.year === parts2.year) {
+        return { score: DATE_MATCH_SCORES.sameYear, comment: `Only the year matches (${parts1.year})` }
+    }
+
+    return { score: DATE_MATCH_SCORES.different, comment: 'Different dates' }
+}
+
+/**
+ * Compare two date values.
+ * - Exact: same year, month and day, whatever the original format
+ * - Swapped: same year, and the day of one is the month of the other and vice versa
+ * - One digit: the yyyymmdd forms differ in exactly one digit (1985-03-04 vs 1985-03-14 or 1986-03-04)
+ * - Year only: one value has no day and month, and the years agree
+ * - Same year: both dates are complete and only the year agrees
+ * Values that cannot be parsed as dates only match when they are identical strings.
+ */
+export const matchDates = (value1: string, value2: string): DateMatchResult => {
+    const parts1 = parseDateParts(value1)
+    const parts2 = parseDateParts(value2)
+
+    if (!parts1 || !parts2) {
+        if (value1.trim() !== '' && value1.trim() === value2.trim()) {
+            return { score: DATE_MATCH_SCORES.exact, comment: 'Identical values (not parsed as dates)' }
+        }
+        const unparsed = !parts1 ? value1 : value2
+        return { score: DATE_MATCH_SCORES.different, comment: `Not a recognized date: ${unparsed}` }
+    }
+
+    const explanation = { normalized: { account: formatParts(parts1), identity: formatParts(parts2) } }
+    return { ...compareDateParts(parts1, parts2), explanation }
+}
@@ -0,0 +1,91 @@
+/**
+ * Email address matching.
+ * The local part (mailbox) and the domain are compared separately: the mailbox identifies the person,
+ * while the domain mostly tells which system issued the address. Mailbox spelling differences are scored
+ * with Jaro-Winkler and a different domain lowers the score without ruling the pair out.
+ */
+
+import { jaroWinklerSimilarity } from './stringComparison'
+import { ScoreExplanation } from './types'
+
+type EmailParts = {
+    local: string
+    domain: string
+}
+
+export type EmailMatchResult = {
+    score: number
+    comment: string
+    explanation?: ScoreExplanation
+}
+
+// Score factor applied to the mailbox similarity depending on how the domains relate
+const DOMAIN_FACTORS = {
+    same: 1,
+    // One domain is a subdomain of the other (mail.corp.com / corp.com)
+    related: 0.9,
+    different: 0.8,
+}
+
+/**
+ * Lowercase the address and split it into local part and domain. For the given domains, dots
+ * and plus-tags in the local part are ignored, as the mail provider delivers them to the same mailbox
+ * (j.doe+hr@gmail.com is jdoe@gmail.com).
+ */
+export const normalizeEmail = (value: string, normalizedDomains: Set<string> = new Set()): EmailParts | undefined => {
+    const email = value.trim().toLowerCase()
+    const at = email.lastIndexOf('@')
+    if (at <= 0 || at === email.length - 1) return undefined
+
+    let local = email.slice(0, at)
+    const domain = email.slice(at + 1)
+    if (normalizedDomains.has(domain)) {
+        local = local.split('+')[0].replace(/\./g, '')
+    }
+    return { local, domain }
+}
+
+const relateDomains = (domain1: string, domain2: string): keyof typeof DOMAIN_FACTORS => {
+    if (domain1 === domain2) return 'same'
+    if (domain1.endsWith(`.${domain2}`) || domain2.endsWith(`.${domain1}`)) return 'related'
+    return 'different'
+}
+
+/**
+ * Compare two email addresses
+ * @param normalizedDomains - Lowercase domains whose local parts ignore dots and plus-tags (e.g. gmail.com)
+ */
+export const matchEmails = (value1: string, value2: string, normalizedDomains?: Set<string>): EmailMatchResult => {
+    const email1 = normalizeEmail(value1, normalizedDomains)
+    const email2 = normalizeEmail(value2, normalizedDomains)
+    if (!email1 || !email2) {
+        const invalid = !email1 ? value1 : value2
+        return { score: 0, comment: `Not a valid email address: ${invalid}` }
+    }
+
+    const localSimilarity = email1.local === email2.local ? 1 : jaroWinklerSimilarity(email1.local, email2.local)
+    const domains = relateDomains(email1.domain, email2.domain)
+    const score = Math.round(localSimilarity * DOMAIN_FACTORS[domains] * 100)
+
+    const mailbox = localSimilarity === 1 ? 'Same mailbox' : `Mailbox ${Math.round(localSimilarity * 100)}% similar`
+    const domain = {
+        same: 'same domain',
+        related: `related domains (${email1.domain} / ${email2.domain})`,
+        different: `different domains (${email1.domain} / ${email2.domain})`,
+    }[domains]
+
+    return {
+        score,
+        comment: `${mailbox}, ${domain}`,
+        explanation: {
+            normalized: {
+                account: `${email1.local}@${email1.domain}`,
+                identity: `${email2.local}@${email2.domain}`,
+            },
+            components: [
+                { name: 'Mailbox', score: Math.round(localSimilarity * 100) },
+                { name: 'Domain factor', score: DOMAIN_FACTORS[domains] * 100 },
+            ],
+        },
+    }
+}
@@ -0,0 +1,135 @@
+import { AttributeScoreDistribution, MatchingEvaluation, ScoreReport } from './types'
+
+// ============================================================================
+// Matching Evaluation
+// ============================================================================
+
+const BUCKET_COUNT = 11
+
+type ScoreTally = {
+    distribution: AttributeScoreDistribution
+    matchTotal: number
+    nonMatchTotal: number
+}
+
+const toBucket = (score: number): number => Math.min(Math.max(Math.floor(score / 10), 0), BUCKET_COUNT - 1)
+
+const toRatio = (numerator: number, denominator: number): number | undefined =>
+    denominator > 0 ? Math.round((numerator / denominator) * 10000) / 10000 : undefined
+
+/**
+ * Accumulates the outcome of replaying reviewer decisions through the scoring service.
+ * Every replayed account-identity pair is classified against the reviewer decision, and
+ * attribute scores are tallied for the reviewer-chosen identity (matches) and for the
+ * identities the reviewer saw or the configuration flagged but that were not chosen (non-matches).
+ */
+export class MatchingEvaluator {
+    private readonly tallies: Map<string, ScoreTally> = new Map()
+    private decisions = 0
+    private skippedDecisions = 0
+    private comparisons = 0
+    private truePositives = 0
+    private falseMerges = 0
+    private missedMerges = 0
+    private falseAutoCorrelations = 0
+
+    /**
+     * Count a replayed decision
+     */
+    public addDecision(): void {
+        this.decisions++
+    }
+
+    /**
+     * Count a decision that could not be replayed (account or chosen identity no longer available)
+     */
+    public skipDecision(): void {
+        this.skippedDecisions++
+    }
+
+    /**
+     * Record one account-identity comparison
+     * @param scores - Scores produced by the evaluated matching configurations
+     * @param isMatch - Whether the reviewer chose this identity
+     * @param predicted - Whether the evaluated configurations flag the pair as a match (review or auto-correlate)
+     * @param autoCorrelated - Whether the pair falls in the auto-correlate band
+     * @param tally - Whether to include the scores in the attribute distributions
+     */
+    public record(
+        scores: ScoreReport[],
+        isMatch: boolean,
+        predicted: boolean,
+        autoCorrelated: boolean,
+        tally: boolean
+    ): void {
+        this.comparisons++
+        if (isMatch && predicted) {
+            this.truePositives++
+        } else if (isMatch) {
+            this.missedMerges++
+        } else if (predicted) {
+            this.falseMerges++
+            if (autoCorrelated) this.falseAutoCorrelations++
+        }
+
+        if (!tally && !isMatch) return
+        for (const score of scores) {
+            // Match weights are not on the 0-100 scale, and veto rows are not comparisons
+            if (score.algorithm === 'probabilistic' || score.algorithm === 'veto') continue
+            const entry = this.getTally(score)
+            const bucket = toBucket(score.score)
+            if (isMatch) {
+                entry.distribution.matches[bucket]++
+                entry.matchTotal += score.score
+            } else {
+                entry.distribution.nonMatches[bucket]++
+                entry.nonMatchTotal += score.score
+            }
+        }
+    }
+
+    public get result(): MatchingEvaluation {
+        const distributions = Array.from(this.tallies.values()).map(({ distribution, matchTotal, nonMatchTotal }) => {
+            const matchCount = distribution.matches.reduce((total, count) => total + count, 0)
+            const nonMatchCount = distribution.nonMatches.reduce((total, count) => total + count, 0)
+            return {
+                ...distribution,
+                matchAverage: matchCount > 0 ? Math.round((matchTotal / matchCount) * 100) / 100 : undefined,
+                nonMatchAverage:
+                    nonMatchCount > 0 ? Math.round((nonMatchTotal / nonMatchCount) * 100) / 100 : undefined,
+            }
+        })
+
+        return {
+            decisions: this.decisions,
+            skippedDecisions: this.skippedDecisions,
+            comparisons: this.comparisons,
+            truePositives: this.truePositives,
+            falseMerges: this.falseMerges,
+            missedMerges: this.missedMerges,
+            falseAutoCorrelations: this.falseAutoCorrelations,
+            precision: toRatio(this.truePositives, this.truePositives + this.falseMerges),
+            recall: toRatio(this.truePositives, this.truePositives + this.missedMerges),
+            distributions,
+        }
+    }
+
+    private getTally(score: ScoreReport): ScoreTally {
+        const key = `${score.attribute}:${score.algorithm ?? ''}`
+        let tally = this.tallies.get(key)
+        if (!tally) {
+            tally = {
+                distribution: {
+                    attribute: score.attribute,
+                    algorithm: score.algorithm,
+                    matches: new Array(BUCKET_COUNT).fill(0),
+                    nonMatches: new Array(BUCKET_COUNT).fill(0),
+                },
+                matchTotal: 0,
+                nonMatchTotal: 0,
+            }
+            this.tallies.set(key, tally)
+        }
+        return tally
+    }
+}
@@ -0,0 +1,59 @@
+import { ScoreComponent, ScoreExplanation, TokenMatch } from './types'
+
+// ============================================================================
+// Score Explanation Formatting
+// ============================================================================
+
+const formatTokenMatch = (match: TokenMatch): string => {
+    switch (match.kind) {
+        case 'exact':
+            return match.account
+        case 'alias':
+            return `${match.account} = ${match.identity} (alias)`
+        case 'initial':
+            return `${match.account} = ${match.identity} (initial)`
+        case 'prefix':
+            return `${match.account} ~ ${match.identity} (same start)`
+        default:
+            return `${match.account} ~ ${match.identity} (${match.score}%)`
+    }
+}
+
+const formatComponent = (component: ScoreComponent): string =>
+    component.weight !== undefined
+        ? `${component.name} ${component.score}% × ${component.weight}`
+        : `${component.name} ${component.score}%`
+
+/**
+ * Plain-text lines describing a score for reviewers: the scorer comment, then the explanation details
+ */
+export const describeScore = (score: { comment?: string; explanation?: ScoreExplanation }): string[] => {
+    const lines: string[] = []
+    if (score.comment) lines.push(score.comment)
+
+    const explanation = score.explanation
+    if (!explanation) return lines
+
+    if (explanation.normalized) {
+        lines.push(`Compared: "${explanation.normalized.account}" / "${explanation.normalized.identity}"`)
+    }
+    if (explanation.matchedTokens && explanation.matchedTokens.length > 0) {
+        lines.push(`Matched: ${explanation.matchedTokens.map(formatTokenMatch).join(', ')}`)
+    }
+    if (explanation.unmatchedTokens) {
+        const { account, identity } = explanation.unmatchedTokens
+        const sides = [
+            account.length > 0 ? `account ${account.join(', ')}` : undefined,
+            identity.length > 0 ? `identity ${identity.join(', ')}` : undefined,
+        ].filter((side) => side !== undefined)
+        if (sides.length > 0) lines.push(`Unmatched: ${sides.join('; ')}`)
+    }
+    if (explanation.phoneticCodes) {
+        const { account, identity } = explanation.phoneticCodes
+        lines.push(`Phonetic codes: ${account.join(' ') || '-'} / ${identity.join(' ') || '-'}`)
+    }
+    if (explanation.components && explanation.components.length > 0) {
+        lines.push(`Components: ${explanation.components.map(formatComponent).join(', ')}`)
+    }
+    return lines
+}
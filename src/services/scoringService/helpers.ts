@@ -1,13 +1,90 @@
 import { doubleMetaphone } from 'double-metaphone'
+import { CountryCode } from 'libphonenumber-js'
 import { MatchingConfig } from '../../model/config'
-import { ScoreReport } from './types'
-import { jaroWinkler, diceCoefficient } from './stringComparison'
-import { match as nameMatch } from './nameMatching'
+import { attrSplit } from '../attributeService/helpers'
+import { ScoreComponent, ScoreExplanation, ScoreReport, Scorer, TokenMatch } from './types'
+import { jaroWinkler, diceCoefficient, commonPrefixLength, getBigrams, jaroSimilarity } from './stringComparison'
+import { matchWithAliases } from './nameMatching'
+import { matchDates } from './dateMatching'
+import { matchEmails } from './emailMatching'
+import { DEFAULT_PHONE_REGION, matchPhoneNumbers } from './phoneMatching'
+import { matchAddresses } from './addressMatching'
+import { NameAliasDictionary } from './nicknames'
+import { hasNonLatinLetters, romanizationVariants } from './transliteration'
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+// Attributes beyond this count are joined in their configured order only
+const MAX_ARRANGED_ATTRIBUTES = 4
+
+// A whole value in the `[a] [b]` format produced by attrConcat
+const CONCATENATED_VALUES = /^\[[^\]]+\](\s+\[[^\]]+\])*$/
+
+/**
+ * Values of a possibly multi-valued attribute: the items of a list attribute, the bracketed values
+ * of a concatenated one, or the value itself. Empty values have no values.
+ */
+export const toAttributeValues = (value: any): string[] => {
+    if (!value) return []
+    if (Array.isArray(value)) {
+        return value.filter((item) => item !== undefined && item !== null && item !== '').map(String)
+    }
+    const text = String(value).trim()
+    return CONCATENATED_VALUES.test(text) ? attrSplit(text) : [String(value)]
+}
+
+/**
+ * Comparison key of an identifier for veto rules: lowercase letters and digits only,
+ * so "AB-123 456" and "ab123456" are the same value
+ */
+export const normalizeVetoValue = (value: string): string => value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+
+/**
+ * Every ordering of the items
+ */
+export const permutations = <T>(items: T[]): T[][] => {
+    if (items.length <= 1) return [items]
+    return items.flatMap((item, index) =>
+        permutations([...items.slice(0, index), ...items.slice(index + 1)]).map((rest) => [item, ...rest])
+    )
+}
+
+/**
+ * Join the first value of each attribute with spaces. Missing attributes are skipped.
+ * @param arrange - Also return the values joined in every other order
+ */
+export const joinAttributeValues = (attributes: Record<string, any>, names: string[], arrange: boolean): string[] => {
+    const values = names.map((name) => toAttributeValues(attributes[name])[0]).filter((value) => value !== undefined)
+    if (values.length === 0) return []
+
+    const arrangements = arrange && values.length <= MAX_ARRANGED_ATTRIBUTES ? permutations(values) : [values]
+    return Array.from(new Set(arrangements.map((arrangement) => arrangement.join(' '))))
+}
+
+/**
+ * Bigrams shared by both values and those found on one side only
+ */
+const explainDice = (accountAttribute: string, identityAttribute: string): ScoreExplanation => {
+    const accountBigrams = Array.from(getBigrams(accountAttribute))
+    const identityBigrams = Array.from(getBigrams(identityAttribute))
+    const shared = new Set(accountBigrams.filter((bigram) => identityBigrams.includes(bigram)))
+
+    return {
+        matchedTokens: Array.from(shared).map((bigram) => ({
+            account: bigram,
+            identity: bigram,
+            score: 100,
+            kind: 'exact',
+        })),
+        unmatchedTokens: {
+            account: accountBigrams.filter((bigram) => !shared.has(bigram)),
+            identity: identityBigrams.filter((bigram) => !shared.has(bigram)),
+        },
+    }
+}
+
 export const scoreDice = (accountAttribute: string, identityAttribute: string, matching: MatchingConfig): ScoreReport => {
     const similarity = diceCoefficient.similarity(accountAttribute, identityAttribute)
     const score = Math.round(similarity * 100)
@@ -19,6 +96,7 @@ export const scoreDice = (accountAttribute: string, identityAttribute: string, m
         ...matching,
         score,
         isMatch,
+        explanation: explainDice(accountAttribute, identityAttribute),
     }
 }
 
@@ -55,6 +133,12 @@ export const scoreDoubleMetaphone = (
         score,
         isMatch,
         comment,
+        explanation: {
+            phoneticCodes: {
+                account: accountCodes.filter((code) => code),
+                identity: identityCodes.filter((code) => code),
+            },
+        },
     }
 }
 
@@ -69,21 +153,60 @@ export const scoreJaroWinkler = (
     const threshold = matching.fusionScore ?? 0
     const isMatch = score >= threshold
 
+    // The Winkler bonus for a common prefix of up to 4 characters only applies from a Jaro similarity of 0.7
+    const jaro = accountAttribute === identityAttribute ? 1 : jaroSimilarity(accountAttribute, identityAttribute)
+    const prefixLength = commonPrefixLength(accountAttribute, identityAttribute, 4)
+    const components: ScoreComponent[] = [{ name: 'Jaro', score: Math.round(jaro * 100) }]
+    if (jaro >= 0.7 && prefixLength > 0) {
+        components.push({ name: `Prefix bonus (${prefixLength} chars)`, score: Math.round((similarity - jaro) * 100) })
+    }
+
     return {
         ...matching,
         score,
         isMatch,
+        explanation: { components },
     }
 }
 
-export const scoreNameMatcher = (
+/**
+ * Build a name matcher scorer that counts the given-name aliases of the dictionary as token matches
+ */
+export const createNameMatcherScorer =
+    (aliases: NameAliasDictionary) =>
+    (accountAttribute: string, identityAttribute: string, matching: MatchingConfig): ScoreReport => {
+        const result = matchWithAliases(accountAttribute, identityAttribute, aliases)
+        // matchWithAliases returns a normalized score (0-1), convert to 0-100
+        const score = Math.round(result.score * 100)
+
+        const threshold = matching.fusionScore ?? 0
+        const isMatch = score >= threshold
+
+        const comment =
+            result.aliases.length > 0
+                ? `Alias: ${result.aliases.map(([alias1, alias2]) => `${alias1} = ${alias2}`).join(', ')}`
+                : undefined
+
+        return {
+            ...matching,
+            score,
+            isMatch,
+            comment,
+            explanation: result.explanation,
+        }
+    }
+
+/**
+ * Name matcher with the bundled given-name aliases
+ */
+export const scoreNameMatcher = createNameMatcherScorer(new NameAliasDictionary())
+
+export const scoreDate = (
     accountAttribute: string,
     identityAttribute: string,
     matching: MatchingConfig
 ): ScoreReport => {
-    const similarity = nameMatch(accountAttribute, identityAttribute)
-    // nameMatch returns a normalized score (0-1), convert to 0-100
-    const score = Math.round(similarity * 100)
+    const { score, comment, explanation } = matchDates(accountAttribute, identityAttribute)
 
     const threshold = matching.fusionScore ?? 0
     const isMatch = score >= threshold
@@ -92,6 +215,110 @@ export const scoreNameMatcher = (
         ...matching,
         score,
         isMatch,
+        comment,
+        explanation,
+    }
+}
+
+/**
+ * Build an email scorer that ignores dots and plus-tags in local parts at the given domains
+ */
+export const createEmailScorer = (normalizedDomains: string[]) => {
+    const domains = new Set(normalizedDomains.map((domain) => domain.trim().toLowerCase()))
+    return (accountAttribute: string, identityAttribute: string, matching: MatchingConfig): ScoreReport => {
+        const { score, comment, explanation } = matchEmails(accountAttribute, identityAttribute, domains)
+
+        const threshold = matching.fusionScore ?? 0
+        const isMatch = score >= threshold
+
+        return {
+            ...matching,
+            score,
+            isMatch,
+            comment,
+            explanation,
+        }
+    }
+}
+
+/**
+ * Email scorer without provider-specific local part normalization
+ */
+export const scoreEmail = createEmailScorer([])
+
+/**
+ * Build a phone number scorer that assumes the region for numbers without an international prefix
+ */
+export const createPhoneScorer =
+    (defaultRegion: CountryCode) =>
+    (accountAttribute: string, identityAttribute: string, matching: MatchingConfig): ScoreReport => {
+        const { score, comment, explanation } = matchPhoneNumbers(accountAttribute, identityAttribute, defaultRegion)
+
+        const threshold = matching.fusionScore ?? 0
+        const isMatch = score >= threshold
+
+        return {
+            ...matching,
+            score,
+            isMatch,
+            comment,
+            explanation,
+        }
+    }
+
+export const scorePhone = createPhoneScorer(DEFAULT_PHONE_REGION)
+
+export const scoreAddress = (
+    accountAttribute: string,
+    identityAttribute: string,
+    matching: MatchingConfig
+): ScoreReport => {
+    const { score, comment, explanation } = matchAddresses(accountAttribute, identityAttribute)
+
+    const threshold = matching.fusionScore ?? 0
+    const isMatch = score >= threshold
+
+    return {
+        ...matching,
+        score,
+        isMatch,
+        comment,
+        explanation,
+    }
+}
+
+/**
+ * Score two values after romanizing any non-Latin script on either side.
+ * Every romanization variant of one value is scored against every variant of the other,
+ * and the best report is kept with the romanized pair noted in its comment.
+ */
+export const scoreTransliterated = (
+    scorer: Scorer,
+    accountAttribute: string,
+    identityAttribute: string,
+    matching: MatchingConfig
+): ScoreReport => {
+    if (!hasNonLatinLetters(accountAttribute) && !hasNonLatinLetters(identityAttribute)) {
+        return scorer(accountAttribute, identityAttribute, matching)
+    }
+
+    let best: ScoreReport | undefined
+    let bestPair: [string, string] = [accountAttribute, identityAttribute]
+    for (const accountVariant of romanizationVariants(accountAttribute)) {
+        for (const identityVariant of romanizationVariants(identityAttribute)) {
+            const scoreReport = scorer(accountVariant, identityVariant, matching)
+            if (!best || scoreReport.score > best.score) {
+                best = scoreReport
+                bestPair = [accountVariant, identityVariant]
+            }
+        }
+    }
+    if (!best) return scorer(accountAttribute, identityAttribute, matching)
+
+    const transliterated = `Transliterated: ${bestPair[0]} / ${bestPair[1]}`
+    return {
+        ...best,
+        comment: best.comment ? `${best.comment}; ${transliterated}` : transliterated,
     }
 }
 
@@ -127,6 +354,7 @@ export const scoreLIG3 = (
 
     const s1 = normalize(accountAttribute)
     const s2 = normalize(identityAttribute)
+    const normalized = { account: s1, identity: s2 }
 
     if (s1 === s2) {
         return {
@@ -134,6 +362,7 @@ export const scoreLIG3 = (
             score: 100,
             isMatch: true,
             comment: 'Exact match',
+            explanation: { normalized },
         }
     }
 
@@ -143,11 +372,13 @@ export const scoreLIG3 = (
             score: 0,
             isMatch: false,
             comment: 'Empty string comparison',
+            explanation: { normalized },
         }
     }
 
     const baseScore = calculateLIG3Similarity(s1, s2)
-    const tokenBonus = calculateTokenBonus(s1, s2)
+    const tokens = calculateTokenBonus(s1, s2)
+    const tokenBonus = tokens.score
     const prefixBonus = calculatePrefixBonus(s1, s2)
     const rawScore = baseScore * 0.7 + tokenBonus * 0.2 + prefixBonus * 0.1
     const score = Math.round(Math.min(100, rawScore))
@@ -173,6 +404,16 @@ export const scoreLIG3 = (
         score,
         isMatch,
         comment,
+        explanation: {
+            normalized,
+            matchedTokens: tokens.matched,
+            unmatchedTokens: tokens.unmatched,
+            components: [
+                { name: 'Edit distance', score: Math.round(baseScore), weight: 0.7 },
+                { name: 'Tokens', score: Math.round(tokenBonus), weight: 0.2 },
+                { name: 'Prefix', score: Math.round(prefixBonus), weight: 0.1 },
+            ],
+        },
     }
 }
 
@@ -216,30 +457,47 @@ function calculateLIG3Similarity(s1: string, s2: string): number {
     return Math.max(0, similarity)
 }
 
-function calculateTokenBonus(s1: string, s2: string): number {
+/**
+ * Share of tokens matched by an equal token or one with the same first two letters,
+ * with the token pairs and the tokens left unmatched. Single-token values get no bonus.
+ */
+function calculateTokenBonus(
+    s1: string,
+    s2: string
+): { score: number; matched: TokenMatch[]; unmatched: { account: string[]; identity: string[] } } {
     const tokens1 = s1.split(' ').filter((t) => t.length > 0)
     const tokens2 = s2.split(' ').filter((t) => t.length > 0)
 
     if (tokens1.length <= 1 && tokens2.length <= 1) {
-        return 0
+        return { score: 0, matched: [], unmatched: { account: [], identity: [] } }
     }
 
-    let matchedTokens = 0
+    const matched: TokenMatch[] = []
+    const unmatched1: string[] = []
     const used = new Set<number>()
     for (const token1 of tokens1) {
+        let found = false
         for (let j = 0; j < tokens2.length; j++) {
             if (!used.has(j)) {
                 const token2 = tokens2[j]
                 if (token1 === token2 || (token1.length > 2 && token2.startsWith(token1.substring(0, 2)))) {
-                    matchedTokens++
+                    // Both kinds count as a full token match
+                    const kind = token1 === token2 ? 'exact' : 'prefix'
+                    matched.push({ account: token1, identity: token2, score: 100, kind })
                     used.add(j)
+                    found = true
                     break
                 }
             }
         }
+        if (!found) unmatched1.push(token1)
     }
     const maxTokens = Math.max(tokens1.length, tokens2.length)
-    return (matchedTokens / maxTokens) * 100
+    return {
+        score: (matched.length / maxTokens) * 100,
+        matched,
+        unmatched: { account: unmatched1, identity: tokens2.filter((_, j) => !used.has(j)) },
+    }
 }
 
 function calculatePrefixBonus(s1: string, s2: string): number {
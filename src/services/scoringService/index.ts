@@ -1,5 +1,26 @@
 // Re-export main service class
 export { ScoringService } from './scoringService'
+export { ScorerRegistry } from './scorerRegistry'
+export { MatchingEvaluator } from './evaluation'
+export { describeScore } from './explanation'
 
 // Re-export types
-export type { FusionMatch, ScoreReport } from './types'
+export type {
+    AttributeScoreDistribution,
+    BlockingStats,
+    ClusterEdge,
+    ClusterLinkage,
+    DuplicateCluster,
+    FusionAccountCluster,
+    FusionMatch,
+    IdentityDuplicate,
+    MatchBand,
+    MatchingEvaluation,
+    MatchingProfile,
+    ScoreComponent,
+    ScoreExplanation,
+    ScoreReport,
+    Scorer,
+    SuppressedPair,
+    TokenMatch,
+} from './types'
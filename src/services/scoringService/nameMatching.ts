@@ -10,55 +10,119 @@
 
 import { jaroWinklerSimilarity } from './stringComparison'
 import { doubleMetaphone } from 'double-metaphone'
+import { NameAliasDictionary } from './nicknames'
+import { isNameParticle, parseName } from './nameParsing'
+import { ScoreExplanation, TokenMatch } from './types'
+
+// Weights of the token, phonetic and whole-string similarities in the name score
+const TOKEN_WEIGHT = 0.5
+const PHONETIC_WEIGHT = 0.3
+const STRING_WEIGHT = 0.2
+
+/**
+ * Name similarity with the given-name aliases that counted as token matches
+ */
+export type NameMatchResult = {
+    score: number
+    aliases: [string, string][]
+    explanation?: ScoreExplanation
+}
 
 /**
  * Match two names and return a similarity score between 0 and 1
  * 
  * This algorithm:
- * 1. Normalizes names (lowercase, trim, remove extra spaces)
+ * 1. Parses names into given and family names, dropping honorifics and suffixes, and normalizes them
  * 2. Compares individual name tokens
  * 3. Uses Jaro-Winkler for string similarity
  * 4. Applies phonetic matching for common misspellings
  * 
  * @param name1 - First name to compare
  * @param name2 - Second name to compare
+ * @param aliases - Given-name equivalences counted as token matches (e.g. "Bob" and "Robert")
  * @returns Similarity score from 0 (no match) to 1 (perfect match)
  */
-export function match(name1: string, name2: string): number {
-    // Handle edge cases
-    if (!name1 || !name2) return 0
-
-    // Convert to string if not already (defensive)
-    const str1 = String(name1)
-    const str2 = String(name2)
-
-    const normalized1 = normalizeName(str1)
-    const normalized2 = normalizeName(str2)
+export function match(name1: string, name2: string, aliases?: NameAliasDictionary): number {
+    return matchWithAliases(name1, name2, aliases).score
+}
 
-    // Empty after normalization
-    if (!normalized1 || !normalized2) return 0
+/**
+ * Match two names like match(), also returning the alias pairs that counted as token matches
+ */
+export function matchWithAliases(name1: string, name2: string, aliases?: NameAliasDictionary): NameMatchResult {
+    let best: NameMatchResult = { score: 0, aliases: [] }
 
-    if (normalized1 === normalized2) return 1.0
+    // Handle edge cases
+    if (!name1 || !name2) return best
 
-    // Split names into tokens and filter empty tokens
-    const tokens1 = normalized1.split(/\s+/).filter(t => t.length > 0)
-    const tokens2 = normalized2.split(/\s+/).filter(t => t.length > 0)
+    // Convert to string if not already (defensive), and keep the best scoring pair of name forms
+    for (const tokens1 of nameForms(String(name1))) {
+        for (const tokens2 of nameForms(String(name2))) {
+            const result = matchTokens(tokens1, tokens2, aliases)
+            if (result.score > best.score) best = result
+            if (best.score === 1) return best
+        }
+    }
+    return best
+}
 
-    // No valid tokens to compare
-    if (tokens1.length === 0 || tokens2.length === 0) return 0
+/**
+ * Match two names given as normalized tokens
+ */
+function matchTokens(tokens1: string[], tokens2: string[], aliases?: NameAliasDictionary): NameMatchResult {
+    const normalized1 = tokens1.join(' ')
+    const normalized2 = tokens2.join(' ')
+    const normalized = { account: normalized1, identity: normalized2 }
+    if (normalized1 === normalized2) return { score: 1.0, aliases: [], explanation: { normalized } }
 
     // Calculate token-based similarity
-    const tokenScore = calculateTokenSimilarity(tokens1, tokens2)
+    const matchedTokens: TokenMatch[] = []
+    const tokenScore = calculateTokenSimilarity(tokens1, tokens2, aliases, matchedTokens)
 
-    // Calculate overall string similarity
-    const stringSimilarity = jaroWinklerSimilarity(normalized1, normalized2)
+    // Calculate overall string similarity, also with the family name first for names written in that order
+    const familyFirst2 = [tokens2[tokens2.length - 1], ...tokens2.slice(0, -1)].join(' ')
+    const stringSimilarity = Math.max(
+        jaroWinklerSimilarity(normalized1, normalized2),
+        jaroWinklerSimilarity(normalized1, familyFirst2)
+    )
 
     // Calculate phonetic similarity
-    const phoneticScore = calculatePhoneticSimilarity(tokens1, tokens2)
+    const phoneticScore = calculatePhoneticSimilarity(tokens1, tokens2, aliases)
 
     // Weighted combination
     // Token matching is most important for names, followed by phonetic, then string similarity
-    return tokenScore * 0.5 + phoneticScore * 0.3 + stringSimilarity * 0.2
+    const score = tokenScore * TOKEN_WEIGHT + phoneticScore * PHONETIC_WEIGHT + stringSimilarity * STRING_WEIGHT
+    const usedAliases = matchedTokens
+        .filter((x) => x.kind === 'alias')
+        .map((x): [string, string] => [x.account, x.identity])
+
+    return {
+        score,
+        aliases: usedAliases,
+        explanation: {
+            normalized,
+            matchedTokens,
+            unmatchedTokens: {
+                account: withoutTokens(
+                    tokens1,
+                    matchedTokens.map((x) => x.account)
+                ),
+                identity: withoutTokens(
+                    tokens2,
+                    matchedTokens.map((x) => x.identity)
+                ),
+            },
+            phoneticCodes: {
+                account: phoneticCodes(tokens1),
+                identity: phoneticCodes(tokens2),
+            },
+            components: [
+                { name: 'Tokens', score: Math.round(tokenScore * 100), weight: TOKEN_WEIGHT },
+                { name: 'Phonetic', score: Math.round(phoneticScore * 100), weight: PHONETIC_WEIGHT },
+                { name: 'String', score: Math.round(stringSimilarity * 100), weight: STRING_WEIGHT },
+            ],
+        },
+    }
 }
 
 /**
@@ -85,11 +149,68 @@ function normalizeName(name: string): string {
         .trim()
 }
 
+/**
+ * Token lists a name is compared as, given names first and honorifics and suffixes left out:
+ * with the family name joined into one token ("de la Cruz" → "delacruz", "Garcia-Lopez" → "garcialopez"),
+ * and without its particles, split at hyphens ("cruz", "garcia lopez")
+ */
+function nameForms(name: string): string[][] {
+    const { given, family } = parseName(name)
+    const givenTokens = given.map(normalizeName).filter((token) => token.length > 0)
+    const joinedFamily = [normalizeName(family.join(''))].filter((token) => token.length > 0)
+    const familyTokens = family
+        .filter((token) => !isNameParticle(token))
+        .flatMap((token) => token.split('-'))
+        .map(normalizeName)
+        .filter((token) => token.length > 0)
+
+    const forms = new Map<string, string[]>()
+    for (const tokens of [
+        [...givenTokens, ...joinedFamily],
+        [...givenTokens, ...familyTokens],
+    ]) {
+        if (tokens.length > 0) forms.set(tokens.join(' '), tokens)
+    }
+    return Array.from(forms.values())
+}
+
+/**
+ * Tokens left once each removed token has been taken out once
+ */
+function withoutTokens(tokens: string[], removed: string[]): string[] {
+    const remaining = [...removed]
+    return tokens.filter((token) => {
+        const index = remaining.indexOf(token)
+        if (index < 0) return true
+        remaining.splice(index, 1)
+        return false
+    })
+}
+
+/**
+ * Double Metaphone codes of the tokens compared phonetically (initials are skipped),
+ * as "PRIMARY" or "PRIMARY/SECONDARY" when the codes differ
+ */
+function phoneticCodes(tokens: string[]): string[] {
+    return tokens
+        .filter((token) => token.length > 1)
+        .map((token) => {
+            const [primary, secondary] = doubleMetaphone(token)
+            return secondary && secondary !== primary ? `${primary}/${secondary}` : primary
+        })
+}
+
 /**
  * Calculate similarity based on matching tokens
  * Handles cases where names are in different orders (e.g., "John Smith" vs "Smith, John")
+ * Known aliases count as exact matches. Each token pair is added to matches.
  */
-function calculateTokenSimilarity(tokens1: string[], tokens2: string[]): number {
+function calculateTokenSimilarity(
+    tokens1: string[],
+    tokens2: string[],
+    aliases?: NameAliasDictionary,
+    matches: TokenMatch[] = []
+): number {
     if (tokens1.length === 0 || tokens2.length === 0) return 0
 
     let matchedTokens = 0
@@ -99,6 +220,7 @@ function calculateTokenSimilarity(tokens1: string[], tokens2: string[]): number
     for (const token1 of tokens1) {
         let bestScore = 0
         let bestIndex = -1
+        let bestKind: TokenMatch['kind'] = 'similar'
 
         for (let j = 0; j < tokens2.length; j++) {
             if (used.has(j)) continue
@@ -109,9 +231,18 @@ function calculateTokenSimilarity(tokens1: string[], tokens2: string[]): number
             if (token1 === token2) {
                 bestScore = 1.0
                 bestIndex = j
+                bestKind = 'exact'
                 break
             }
 
+            // Known diminutive or alternate spelling (e.g., "Bob" matches "Robert")
+            if (bestScore < 1.0 && aliases?.areAliases(token1, token2)) {
+                bestScore = 1.0
+                bestIndex = j
+                bestKind = 'alias'
+                continue
+            }
+
             // Check if one is a prefix/abbreviation of the other (e.g., "J" matches "John")
             if (token1.length === 1 || token2.length === 1) {
                 if (token1[0] === token2[0]) {
@@ -119,6 +250,7 @@ function calculateTokenSimilarity(tokens1: string[], tokens2: string[]): number
                     if (score > bestScore) {
                         bestScore = score
                         bestIndex = j
+                        bestKind = 'initial'
                     }
                 }
             } else {
@@ -127,6 +259,7 @@ function calculateTokenSimilarity(tokens1: string[], tokens2: string[]): number
                 if (score > bestScore && score > 0.8) {
                     bestScore = score
                     bestIndex = j
+                    bestKind = 'similar'
                 }
             }
         }
@@ -134,6 +267,12 @@ function calculateTokenSimilarity(tokens1: string[], tokens2: string[]): number
         if (bestIndex >= 0) {
             matchedTokens += bestScore
             used.add(bestIndex)
+            matches.push({
+                account: token1,
+                identity: tokens2[bestIndex],
+                score: Math.round(bestScore * 100),
+                kind: bestKind,
+            })
         }
     }
 
@@ -144,9 +283,9 @@ function calculateTokenSimilarity(tokens1: string[], tokens2: string[]): number
 
 /**
  * Calculate phonetic similarity between name tokens
- * Uses Double Metaphone for phonetic encoding
+ * Uses Double Metaphone for phonetic encoding; known aliases count as phonetic matches
  */
-function calculatePhoneticSimilarity(tokens1: string[], tokens2: string[]): number {
+function calculatePhoneticSimilarity(tokens1: string[], tokens2: string[], aliases?: NameAliasDictionary): number {
     if (tokens1.length === 0 || tokens2.length === 0) return 0
 
     // Filter out single-character tokens (initials) first
@@ -165,7 +304,8 @@ function calculatePhoneticSimilarity(tokens1: string[], tokens2: string[]): numb
             const codes2 = doubleMetaphone(token2)
 
             // Check if any phonetic codes match
-            if (codes1[0] === codes2[0] ||
+            if (aliases?.areAliases(token1, token2) ||
+                codes1[0] === codes2[0] ||
                 codes1[0] === codes2[1] ||
                 codes1[1] === codes2[0] ||
                 codes1[1] === codes2[1]) {
@@ -0,0 +1,167 @@
+/**
+ * Person name parsing.
+ * Splits a full name into honorifics, given names, family name and suffixes, so that
+ * "Dr. José de la Cruz Jr." and "Cruz, José de la" both read as given name José and family name de la Cruz.
+ * - Honorifics (Dr., Mrs.) before the name and suffixes (Jr., III, PhD) after it are set apart
+ * - The family name keeps its particles (de la Cruz, van der Berg, bin Abdullah); hyphenated and
+ *   compound family names stay whole
+ * - Names are read given name first, unless written "Family, Given", with the family name in capitals
+ *   ("NAGY Péter"), in Chinese, Japanese or Korean script, or when family-first order is requested
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Parts of a person name, as written in the original value
+ */
+export type ParsedName = {
+    honorifics: string[]
+    /** Given and middle names */
+    given: string[]
+    /** Family name tokens, particles included */
+    family: string[]
+    suffixes: string[]
+}
+
+// ============================================================================
+// Name Parts
+// ============================================================================
+
+const HONORIFICS = new Set([
+    'mr',
+    'mrs',
+    'ms',
+    'miss',
+    'mx',
+    'dr',
+    'prof',
+    'professor',
+    'sir',
+    'dame',
+    'lord',
+    'lady',
+    'rev',
+    'fr',
+    'herr',
+    'frau',
+    'mme',
+    'mlle',
+])
+
+const SUFFIXES = new Set(['jr', 'jnr', 'sr', 'snr', 'ii', 'iii', 'iv', 'phd', 'md', 'esq', 'dds', 'cpa', 'mba'])
+
+// Lowercase words that start a multi-part family name
+const NAME_PARTICLES = new Set([
+    'da',
+    'das',
+    'de',
+    'del',
+    'della',
+    'den',
+    'der',
+    'di',
+    'do',
+    'dos',
+    'du',
+    'la',
+    'le',
+    'st',
+    'ten',
+    'ter',
+    'van',
+    'von',
+    'al',
+    'el',
+    'bin',
+    'binti',
+    'bint',
+    'ibn',
+])
+
+// Scripts that write the family name first
+const FAMILY_FIRST_SCRIPT = /[\p{Script=Han}\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}]/u
+
+/**
+ * Lowercase token without periods and diacritics, used to recognize name parts
+ */
+const toKey = (token: string): string =>
+    token
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/\./g, '')
+
+export const isNameParticle = (token: string): boolean => NAME_PARTICLES.has(toKey(token))
+
+const isHonorific = (token: string): boolean => HONORIFICS.has(toKey(token))
+
+const isSuffix = (token: string): boolean => SUFFIXES.has(toKey(token))
+
+const toTokens = (value: string): string[] => value.split(/\s+/).filter((token) => token.length > 0)
+
+// A family name in capitals before given names in mixed case ("NAGY Péter")
+const hasCapitalizedFamilyName = (tokens: string[]): boolean =>
+    tokens.length > 1 &&
+    /^\p{Lu}{2,}$/u.test(tokens[0]) &&
+    tokens.slice(1).some((token) => token !== token.toUpperCase())
+
+/**
+ * Family name of tokens in given-first order: the last token and the particles before it.
+ * The first token is always a given name, so "Al Smith" keeps Al.
+ */
+const splitGivenFirst = (tokens: string[]): { given: string[]; family: string[] } => {
+    let start = tokens.length - 1
+    while (start > 1 && isNameParticle(tokens[start - 1])) start--
+    return { given: tokens.slice(0, start), family: tokens.slice(start) }
+}
+
+/**
+ * Parse a person name into its parts
+ * @param familyFirst - Read names without other hints family name first (e.g. Hungarian or Vietnamese sources)
+ */
+export const parseName = (name: string, familyFirst: boolean = false): ParsedName => {
+    const parsed: ParsedName = { honorifics: [], given: [], family: [], suffixes: [] }
+    const segments = name
+        .split(',')
+        .map((x) => x.trim())
+        .filter((x) => x.length > 0)
+
+    // Trailing segments made of suffixes only ("Smith, John, Jr.", "John Smith, PhD")
+    while (segments.length > 1 && toTokens(segments[segments.length - 1]).every(isSuffix)) {
+        parsed.suffixes.unshift(...toTokens(segments.pop()!))
+    }
+
+    let tokens = toTokens(segments.slice(segments.length > 1 ? 1 : 0).join(' '))
+    while (tokens.length > 1 && isHonorific(tokens[0])) parsed.honorifics.push(tokens.shift()!)
+    while (tokens.length > 1 && isSuffix(tokens[tokens.length - 1])) parsed.suffixes.unshift(tokens.pop()!)
+
+    if (segments.length > 1) {
+        // "Family, Given": particles written after the given names belong to the family name ("Cruz, José de la")
+        parsed.family = toTokens(segments[0])
+        parsed.given = tokens
+        while (parsed.given.length > 1 && isNameParticle(parsed.given[parsed.given.length - 1])) {
+            parsed.family.unshift(parsed.given.pop()!)
+        }
+        return parsed
+    }
+
+    if (tokens.length === 1 && FAMILY_FIRST_SCRIPT.test(tokens[0]) && Array.from(tokens[0]).length > 1) {
+        // Chinese, Japanese and Korean names are often written without a space: the first character is the family name
+        const [family, ...given] = Array.from(tokens[0])
+        tokens = [family, given.join('')]
+    }
+
+    if (tokens.length === 1) {
+        parsed.family = tokens
+    } else if (familyFirst || FAMILY_FIRST_SCRIPT.test(tokens[0]) || hasCapitalizedFamilyName(tokens)) {
+        parsed.family = tokens.slice(0, 1)
+        parsed.given = tokens.slice(1)
+    } else {
+        const { given, family } = splitGivenFirst(tokens)
+        parsed.given = given
+        parsed.family = family
+    }
+    return parsed
+}
@@ -0,0 +1,154 @@
+/**
+ * Given-name equivalence dictionary used by the name matcher.
+ * Names in the same group are treated as the same given name (e.g. "Bob" and "Robert").
+ * A diminutive can belong to several groups ("Al" is short for Albert, Alan and Alexander),
+ * so two names are aliases when they share at least one group.
+ */
+
+// ============================================================================
+// Bundled Dictionary
+// ============================================================================
+
+/**
+ * Common English given names and their diminutives. Names are lowercase and without diacritics,
+ * matching the normalization applied by the name matcher.
+ */
+export const BUNDLED_NAME_ALIASES: string[][] = [
+    ['abigail', 'abby', 'abbie', 'gail'],
+    ['albert', 'al', 'bert', 'bertie'],
+    ['alan', 'allan', 'allen', 'al'],
+    ['alexander', 'alex', 'al', 'alec', 'sandy', 'xander'],
+    ['alexandra', 'alex', 'alexa', 'sandra', 'sandy', 'lexi'],
+    ['alfred', 'al', 'alf', 'fred', 'freddie'],
+    ['andrew', 'andy', 'drew'],
+    ['anthony', 'tony', 'ant'],
+    ['barbara', 'barb', 'babs'],
+    ['benjamin', 'ben', 'benny', 'benji'],
+    ['catherine', 'katherine', 'kathryn', 'cathy', 'kathy', 'kate', 'katie', 'kat', 'kitty'],
+    ['charles', 'charlie', 'chuck', 'chas', 'chaz'],
+    ['christina', 'christine', 'chris', 'tina', 'chrissy'],
+    ['christopher', 'chris', 'kit', 'topher'],
+    ['daniel', 'dan', 'danny'],
+    ['david', 'dave', 'davy'],
+    ['deborah', 'debra', 'deb', 'debbie'],
+    ['dorothy', 'dot', 'dottie', 'dolly'],
+    ['edward', 'ed', 'eddie', 'ned', 'ted', 'teddy'],
+    ['elizabeth', 'liz', 'lizzie', 'beth', 'betty', 'betsy', 'eliza', 'libby', 'lisa'],
+    ['frances', 'fran', 'frannie'],
+    ['francis', 'frank', 'fran'],
+    ['frederick', 'fred', 'freddie', 'freddy', 'rick'],
+    ['gerald', 'gerry', 'jerry'],
+    ['gregory', 'greg'],
+    ['harold', 'harry', 'hal'],
+    ['henry', 'harry', 'hank', 'hal'],
+    ['jacob', 'jake', 'jack'],
+    ['james', 'jim', 'jimmy', 'jamie', 'jay'],
+    ['jennifer', 'jen', 'jenny', 'jenn'],
+    ['jessica', 'jess', 'jessie'],
+    ['john', 'jack', 'johnny', 'jon'],
+    ['jonathan', 'jon', 'jonny', 'nate'],
+    ['joseph', 'joe', 'joey', 'jos'],
+    ['joshua', 'josh'],
+    ['kenneth', 'ken', 'kenny'],
+    ['lawrence', 'laurence', 'larry', 'laurie'],
+    ['leonard', 'leo', 'len', 'lenny'],
+    ['margaret', 'maggie', 'meg', 'peggy', 'marge', 'margie', 'greta'],
+    ['matthew', 'matt', 'matty'],
+    ['michael', 'mike', 'mikey', 'mick', 'mickey'],
+    ['nathaniel', 'nathan', 'nate', 'nat'],
+    ['nicholas', 'nick', 'nicky', 'nico'],
+    ['patricia', 'pat', 'patty', 'trish', 'tricia'],
+    ['patrick', 'pat', 'paddy', 'rick'],
+    ['peter', 'pete'],
+    ['philip', 'phillip', 'phil', 'pip'],
+    ['rebecca', 'becky', 'becca', 'becki'],
+    ['richard', 'rich', 'rick', 'ricky', 'dick', 'richie'],
+    ['robert', 'rob', 'bob', 'bobby', 'robbie', 'bert'],
+    ['ronald', 'ron', 'ronnie'],
+    ['samuel', 'sam', 'sammy'],
+    ['samantha', 'sam', 'sammy'],
+    ['stephen', 'steven', 'steve', 'stevie'],
+    ['susan', 'sue', 'susie', 'suzy'],
+    ['theodore', 'ted', 'teddy', 'theo'],
+    ['thomas', 'tom', 'tommy'],
+    ['timothy', 'tim', 'timmy'],
+    ['victoria', 'vicky', 'vicki', 'tori'],
+    ['walter', 'walt', 'wally'],
+    ['william', 'will', 'bill', 'billy', 'willy', 'liam'],
+]
+
+// ============================================================================
+// NameAliasDictionary Class
+// ============================================================================
+
+const normalizeAlias = (name: string): string =>
+    name
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]/g, '')
+
+/**
+ * Lookup of given-name equivalence groups
+ */
+export class NameAliasDictionary {
+    private readonly groupsByName: Map<string, Set<number>> = new Map()
+    private groupCount = 0
+
+    /**
+     * @param groups - Equivalence groups, each a list of names
+     */
+    constructor(groups: string[][] = BUNDLED_NAME_ALIASES) {
+        for (const group of groups) {
+            this.add(group)
+        }
+    }
+
+    /**
+     * Build the dictionary from the bundled groups and tenant groups given as comma-separated names
+     * (e.g. "Robert, Bob, Bobby")
+     */
+    public static fromConfig(customAliases: string[] = []): NameAliasDictionary {
+        const dictionary = new NameAliasDictionary()
+        for (const aliases of customAliases) {
+            dictionary.add(aliases.split(','))
+        }
+        return dictionary
+    }
+
+    /**
+     * Add an equivalence group. Groups with fewer than two names are ignored.
+     */
+    public add(names: string[]): void {
+        const normalized = Array.from(new Set(names.map(normalizeAlias).filter((name) => name.length > 0)))
+        if (normalized.length < 2) return
+
+        const groupId = this.groupCount++
+        for (const name of normalized) {
+            const groups = this.groupsByName.get(name) ?? new Set()
+            groups.add(groupId)
+            this.groupsByName.set(name, groups)
+        }
+    }
+
+    /**
+     * Whether two different names are in the same equivalence group
+     */
+    public areAliases(name1: string, name2: string): boolean {
+        const normalized1 = normalizeAlias(name1)
+        const normalized2 = normalizeAlias(name2)
+        if (normalized1 === normalized2) return false
+
+        const groups1 = this.groupsByName.get(normalized1)
+        const groups2 = this.groupsByName.get(normalized2)
+        if (!groups1 || !groups2) return false
+        for (const group of groups1) {
+            if (groups2.has(group)) return true
+        }
+        return false
+    }
+
+    public get size(): number {
+        return this.groupCount
+    }
+}
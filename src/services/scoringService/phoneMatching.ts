@@ -0,0 +1,91 @@
+/**
+ * Phone number matching.
+ * Numbers are normalized to E.164 with libphonenumber-js, so "+1 (555) 010-2000" and "5550102000"
+ * compare as the same number when the default region is US. Numbers that cannot be normalized are
+ * compared by their digits, where a shared ending usually means a missing country or area code.
+ */
+
+import { CountryCode, parsePhoneNumberFromString } from 'libphonenumber-js'
+import { ScoreExplanation } from './types'
+
+export type PhoneMatchResult = {
+    score: number
+    comment: string
+    explanation?: ScoreExplanation
+}
+
+export const DEFAULT_PHONE_REGION: CountryCode = 'US'
+
+// Minimum number of trailing digits two numbers must share to count as the same local number
+const MIN_SUBSCRIBER_DIGITS = 7
+
+export const PHONE_MATCH_SCORES = {
+    exact: 100,
+    // One number includes a country or area code the other lacks
+    trailingDigits: 80,
+    // Same length, a single digit differs
+    oneDigit: 60,
+    different: 0,
+}
+
+/**
+ * E.164 form of the number (e.g. +15550102000), or undefined when it is not a possible number.
+ * Extensions are dropped.
+ */
+export const toE164 = (value: string, defaultRegion: CountryCode = DEFAULT_PHONE_REGION): string | undefined => {
+    const phoneNumber = parsePhoneNumberFromString(value, defaultRegion)
+    return phoneNumber?.isPossible() ? phoneNumber.number : undefined
+}
+
+// Score normalized numbers by the rules described in the module comment
+const compareNumbers = (
+    e164a: string | undefined,
+    e164b: string | undefined,
+    digits1: string,
+    digits2: string
+): PhoneMatchResult => {
+    if (e164a && e164a === e164b) {
+        return { score: PHONE_MATCH_SCORES.exact, comment: `Same number (${e164a})` }
+    }
+    if (!digits1 || !digits2) {
+        return { score: PHONE_MATCH_SCORES.different, comment: 'Not a phone number' }
+    }
+    if (digits1 === digits2) {
+        return { score: PHONE_MATCH_SCORES.exact, comment: `Same digits (${digits1})` }
+    }
+
+    const [shorter, longer] = digits1.length <= digits2.length ? [digits1, digits2] : [digits2, digits1]
+    if (shorter.length >= MIN_SUBSCRIBER_DIGITS && longer.endsWith(shorter)) {
+        return {
+            score: PHONE_MATCH_SCORES.trailingDigits,
+            comment: `Same number without country or area code (${shorter})`,
+        }
+    }
+
+    if (digits1.length === digits2.length) {
+        const differentDigits = Array.from(digits1).filter((digit, index) => digit !== digits2[index]).length
+        if (differentDigits === 1) {
+            return { score: PHONE_MATCH_SCORES.oneDigit, comment: `One digit differs (${digits1} / ${digits2})` }
+        }
+    }
+
+    return { score: PHONE_MATCH_SCORES.different, comment: 'Different numbers' }
+}
+
+/**
+ * Compare two phone numbers
+ * @param defaultRegion - Country assumed for numbers without an international prefix
+ */
+export const matchPhoneNumbers = (
+    value1: string,
+    value2: string,
+    defaultRegion: CountryCode = DEFAULT_PHONE_REGION
+): PhoneMatchResult => {
+    const e164a = toE164(value1, defaultRegion)
+    const e164b = toE164(value2, defaultRegion)
+    // Compare digits: E.164 when available, otherwise the raw digits
+    const digits1 = (e164a ?? value1).replace(/\D/g, '')
+    const digits2 = (e164b ?? value2).replace(/\D/g, '')
+    const explanation = { normalized: { account: e164a ?? digits1, identity: e164b ?? digits2 } }
+    return { ...compareNumbers(e164a, e164b, digits1, digits2), explanation }
+}
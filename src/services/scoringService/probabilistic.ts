@@ -0,0 +1,157 @@
+// ============================================================================
+// Fellegi-Sunter Match Statistics
+// ============================================================================
+
+/**
+ * Prefix of the fusion state keys holding learned match statistics.
+ * Keys are "<prefix>.<attribute>.<counter>" so they live alongside attribute counters.
+ */
+export const MATCH_STATISTICS_PREFIX = 'fellegiSunter'
+
+/**
+ * Prefix of the fusion state keys holding the decisions already learned from.
+ * Keys are "<prefix>.<form instance ID>" and the value is the time the decision was learned in milliseconds.
+ */
+export const LEARNED_DECISION_PREFIX = 'learnedDecision'
+
+/**
+ * Prior agreement probabilities used before (and blended with) reviewer decisions.
+ * PRIOR_WEIGHT is the number of pseudo-decisions the priors are worth.
+ */
+const PRIOR_M = 0.9
+const PRIOR_U = 0.1
+const PRIOR_WEIGHT = 2
+
+type AttributeStatistics = {
+    matchAgree: number
+    matchTotal: number
+    nonMatchAgree: number
+    nonMatchTotal: number
+}
+
+const COUNTERS: (keyof AttributeStatistics)[] = ['matchAgree', 'matchTotal', 'nonMatchAgree', 'nonMatchTotal']
+
+export type MatchWeights = {
+    /** P(agree | match) */
+    m: number
+    /** P(agree | non-match) */
+    u: number
+    /** log2(m / u), added to the match weight when the attribute agrees */
+    agreement: number
+    /** log2((1 - m) / (1 - u)), added to the match weight when the attribute disagrees */
+    disagreement: number
+}
+
+/**
+ * Per-attribute agreement counts for reviewer-confirmed matches and non-matches,
+ * and the Fellegi-Sunter weights derived from them.
+ */
+export class MatchStatistics {
+    private readonly attributes: Map<string, AttributeStatistics> = new Map()
+    private readonly learnedDecisions: Map<string, number> = new Map()
+
+    constructor(state?: Record<string, any>) {
+        for (const [key, value] of Object.entries(state ?? {})) {
+            if (key.startsWith(`${LEARNED_DECISION_PREFIX}.`) && typeof value === 'number') {
+                this.learnedDecisions.set(key.substring(LEARNED_DECISION_PREFIX.length + 1), value)
+                continue
+            }
+            if (!key.startsWith(`${MATCH_STATISTICS_PREFIX}.`) || typeof value !== 'number') continue
+            const separator = key.lastIndexOf('.')
+            const attribute = key.substring(MATCH_STATISTICS_PREFIX.length + 1, separator)
+            const counter = key.substring(separator + 1) as keyof AttributeStatistics
+            if (!attribute || !COUNTERS.includes(counter)) continue
+            this.getAttributeStatistics(attribute)[counter] = value
+        }
+    }
+
+    /**
+     * Record whether an attribute agreed for a pair the reviewer confirmed as match or non-match
+     */
+    public record(attribute: string, isMatch: boolean, agrees: boolean): void {
+        const statistics = this.getAttributeStatistics(attribute)
+        if (isMatch) {
+            statistics.matchTotal++
+            if (agrees) statistics.matchAgree++
+        } else {
+            statistics.nonMatchTotal++
+            if (agrees) statistics.nonMatchAgree++
+        }
+    }
+
+    /**
+     * Whether the statistics already hold the comparisons of a decision. Form instances are read again
+     * on every aggregation until they are deleted, so the same decision can be presented more than once.
+     */
+    public hasLearned(decisionId: string): boolean {
+        return this.learnedDecisions.has(decisionId)
+    }
+
+    public markLearned(decisionId: string, timestamp: number = Date.now()): void {
+        this.learnedDecisions.set(decisionId, timestamp)
+    }
+
+    /**
+     * Forget the learned decisions that are no longer presented, as their form instances have been deleted
+     * and cannot be read again
+     * @returns The fusion state keys of the forgotten decisions
+     */
+    public forgetLearnedDecisionsExcept(decisionIds: Set<string>): string[] {
+        const forgotten: string[] = []
+        for (const decisionId of this.learnedDecisions.keys()) {
+            if (decisionIds.has(decisionId)) continue
+            this.learnedDecisions.delete(decisionId)
+            forgotten.push(`${LEARNED_DECISION_PREFIX}.${decisionId}`)
+        }
+        return forgotten
+    }
+
+    public getWeights(attribute: string): MatchWeights {
+        const statistics = this.attributes.get(attribute)
+        const m =
+            ((statistics?.matchAgree ?? 0) + PRIOR_M * PRIOR_WEIGHT) / ((statistics?.matchTotal ?? 0) + PRIOR_WEIGHT)
+        const u =
+            ((statistics?.nonMatchAgree ?? 0) + PRIOR_U * PRIOR_WEIGHT) /
+            ((statistics?.nonMatchTotal ?? 0) + PRIOR_WEIGHT)
+
+        return {
+            m,
+            u,
+            agreement: Math.log2(m / u),
+            disagreement: Math.log2((1 - m) / (1 - u)),
+        }
+    }
+
+    /**
+     * Number of reviewer-confirmed pairs recorded for an attribute
+     */
+    public getSampleSize(attribute: string): number {
+        const statistics = this.attributes.get(attribute)
+        return (statistics?.matchTotal ?? 0) + (statistics?.nonMatchTotal ?? 0)
+    }
+
+    /**
+     * Get the statistics as flat fusion state entries
+     */
+    public toState(): Record<string, number> {
+        const state: Record<string, number> = {}
+        for (const [attribute, statistics] of this.attributes) {
+            for (const counter of COUNTERS) {
+                state[`${MATCH_STATISTICS_PREFIX}.${attribute}.${counter}`] = statistics[counter]
+            }
+        }
+        for (const [decisionId, timestamp] of this.learnedDecisions) {
+            state[`${LEARNED_DECISION_PREFIX}.${decisionId}`] = timestamp
+        }
+        return state
+    }
+
+    private getAttributeStatistics(attribute: string): AttributeStatistics {
+        let statistics = this.attributes.get(attribute)
+        if (!statistics) {
+            statistics = { matchAgree: 0, matchTotal: 0, nonMatchAgree: 0, nonMatchTotal: 0 }
+            this.attributes.set(attribute, statistics)
+        }
+        return statistics
+    }
+}
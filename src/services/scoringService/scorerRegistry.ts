@@ -0,0 +1,57 @@
+import { Scorer } from './types'
+import {
+    scoreAddress,
+    scoreDate,
+    scoreDice,
+    scoreDoubleMetaphone,
+    scoreEmail,
+    scoreJaroWinkler,
+    scoreLIG3,
+    scoreNameMatcher,
+    scorePhone,
+} from './helpers'
+
+// ============================================================================
+// ScorerRegistry Class
+// ============================================================================
+
+/**
+ * Registry of attribute scorers by algorithm name.
+ * Built-in algorithms are registered on creation. Additional scorers can be registered
+ * by name (e.g. from a SaaS customizer) and referenced from a matching configuration
+ * through `customAlgorithm`.
+ */
+export class ScorerRegistry {
+    private readonly scorers: Map<string, Scorer> = new Map()
+
+    constructor() {
+        this.register('name-matcher', scoreNameMatcher)
+        this.register('jaro-winkler', scoreJaroWinkler)
+        this.register('dice', scoreDice)
+        this.register('double-metaphone', scoreDoubleMetaphone)
+        this.register('lig3', scoreLIG3)
+        this.register('date', scoreDate)
+        this.register('email', scoreEmail)
+        this.register('phone', scorePhone)
+        this.register('address', scoreAddress)
+    }
+
+    /**
+     * Register a scorer by name. Registering an existing name replaces the previous scorer.
+     */
+    public register(name: string, scorer: Scorer): void {
+        this.scorers.set(name, scorer)
+    }
+
+    public get(name: string): Scorer | undefined {
+        return this.scorers.get(name)
+    }
+
+    public has(name: string): boolean {
+        return this.scorers.has(name)
+    }
+
+    public get names(): string[] {
+        return Array.from(this.scorers.keys())
+    }
+}
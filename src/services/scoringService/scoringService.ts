@@ -1,76 +1,589 @@
+import { CountryCode } from 'libphonenumber-js'
 import { FusionAccount } from '../../model/account'
-import { MatchingConfig, FusionConfig } from '../../model/config'
+import { BlockingKeyConfig, MatchingConfig, FusionConfig, VetoRuleConfig } from '../../model/config'
+import { FusionDecision, IdentityMergeDecision } from '../../model/form'
 import { LogService } from '../logService'
-import { FusionMatch, ScoreReport } from './types'
-import { scoreDice, scoreDoubleMetaphone, scoreJaroWinkler, scoreLIG3, scoreNameMatcher } from './helpers'
+import {
+    BlockingStats,
+    ClusterEdge,
+    ClusterLinkage,
+    DuplicateCluster,
+    FusionAccountCluster,
+    FusionMatch,
+    IdentityDuplicate,
+    MatchBand,
+    MatchingProfile,
+    ScoreReport,
+    Scorer,
+    SuppressedPair,
+} from './types'
+import { CandidateIndex } from './blocking'
+import { buildDuplicateClusters } from './clustering'
+import { ScorerRegistry } from './scorerRegistry'
+import { MatchStatistics } from './probabilistic'
+import { SuppressionList } from './suppressions'
+import { MatchingEvaluator } from './evaluation'
+import { NameAliasDictionary } from './nicknames'
+import { DEFAULT_PHONE_REGION } from './phoneMatching'
+import {
+    createEmailScorer,
+    createNameMatcherScorer,
+    createPhoneScorer,
+    joinAttributeValues,
+    normalizeVetoValue,
+    scoreTransliterated,
+    toAttributeValues,
+} from './helpers'
 
 /**
  * Service for calculating and managing similarity scores for identity matching.
  * Handles score calculation, threshold checking, and score formatting.
  */
 export class ScoringService {
-    private readonly matchingConfigs: MatchingConfig[]
-    private readonly fusionUseAverageScore: boolean
-    private readonly fusionAverageScore: number
+    private readonly matchingProfile: MatchingProfile
+    private readonly sourceMatchingProfiles: Map<string, MatchingProfile>
+    private readonly fusionPenalizeMissingAttributes: boolean
+    private readonly fusionUseProbabilisticScore: boolean
+    private readonly fusionProbabilisticMatchScore: number
+    private readonly fusionProbabilisticReviewScore: number
+    private readonly fusionMergingIdentical: boolean
+    private readonly fusionUseTransliteration: boolean
+    private readonly fusionUseMatchBands: boolean
+    private readonly fusionAutoCorrelationScore: number
+    private readonly fusionRejectScore: number
+    private readonly fusionUseBlocking: boolean
+    private readonly fusionBlockingKeys: BlockingKeyConfig[]
+    private readonly fusionVetoRules: VetoRuleConfig[]
+    private readonly fusionSuppressRejectedPairs: boolean
+    private readonly fusionClusterLinkage: ClusterLinkage
+    private readonly fusionClusterAverageScore: number
     private reportMode: boolean = false
+    private candidateIndex?: CandidateIndex
+    private blockingStats: BlockingStats = ScoringService.emptyBlockingStats()
+    private readonly scorers: ScorerRegistry = new ScorerRegistry()
+    private readonly matchStatistics: MatchStatistics
+    private readonly suppressions: SuppressionList
 
     constructor(
         config: FusionConfig,
         private log: LogService
     ) {
-        this.matchingConfigs = config.matchingConfigs ?? []
-        this.fusionUseAverageScore = config.fusionUseAverageScore ?? false
-        this.fusionAverageScore = config.fusionAverageScore ?? 0
+        this.matchingProfile = {
+            matchingConfigs: config.matchingConfigs ?? [],
+            useAverageScore: config.fusionUseAverageScore ?? false,
+            averageScore: config.fusionAverageScore ?? 0,
+        }
+        this.sourceMatchingProfiles = new Map(
+            (config.sources ?? [])
+                .filter((x) => x.useMatchingProfile)
+                .map((x) => [
+                    x.name,
+                    {
+                        matchingConfigs: x.matchingConfigs ?? [],
+                        useAverageScore: x.fusionUseAverageScore ?? false,
+                        averageScore: x.fusionAverageScore ?? 0,
+                    },
+                ])
+        )
+        this.fusionPenalizeMissingAttributes = config.fusionPenalizeMissingAttributes ?? false
+        this.fusionUseProbabilisticScore = config.fusionUseProbabilisticScore ?? false
+        this.fusionProbabilisticMatchScore = config.fusionProbabilisticMatchScore ?? Infinity
+        this.fusionProbabilisticReviewScore = config.fusionProbabilisticReviewScore ?? 0
+        this.fusionMergingIdentical = config.fusionMergingIdentical ?? false
+        this.fusionUseTransliteration = config.fusionUseTransliteration ?? false
+        this.fusionUseMatchBands = config.fusionUseMatchBands ?? false
+        this.fusionAutoCorrelationScore = config.fusionAutoCorrelationScore ?? Infinity
+        this.fusionRejectScore = config.fusionRejectScore ?? 0
+        this.matchStatistics = new MatchStatistics(config.fusionState)
+        this.fusionUseBlocking = config.fusionUseBlocking ?? false
+        this.fusionBlockingKeys = config.fusionBlockingKeys ?? []
+        this.fusionVetoRules = config.fusionVetoRules ?? []
+        this.fusionSuppressRejectedPairs = config.fusionSuppressRejectedPairs ?? true
+        this.suppressions = new SuppressionList(
+            config.fusionState,
+            (config.fusionSuppressionExpirationDays ?? 0) * config.msDay
+        )
+        this.fusionClusterLinkage = config.fusionClusterLinkage ?? 'complete'
+        this.fusionClusterAverageScore = config.fusionClusterAverageScore ?? 50
+
+        // Replace the built-in scorers that depend on the configuration
+        const nameAliases =
+            config.fusionUseNameAliases === false
+                ? new NameAliasDictionary([])
+                : NameAliasDictionary.fromConfig(config.fusionNameAliases)
+        this.scorers.register('name-matcher', createNameMatcherScorer(nameAliases))
+        this.scorers.register('email', createEmailScorer(config.fusionEmailNormalizedDomains ?? []))
+        // The region is validated when the configuration is loaded
+        this.scorers.register(
+            'phone',
+            createPhoneScorer((config.fusionPhoneDefaultRegion ?? DEFAULT_PHONE_REGION) as CountryCode)
+        )
+    }
+
+    private static emptyBlockingStats(): BlockingStats {
+        return {
+            indexedIdentities: 0,
+            blockingKeys: 0,
+            accountsScored: 0,
+            comparisons: 0,
+            skippedComparisons: 0,
+        }
+    }
+
+    /**
+     * Time of a decision in milliseconds, or now when the decision has no valid date
+     */
+    private static toTimestamp(decisionDate?: string): number {
+        const timestamp = decisionDate ? Date.parse(decisionDate) : NaN
+        return Number.isNaN(timestamp) ? Date.now() : timestamp
     }
 
     public enableReportMode(): void {
         this.reportMode = true
     }
 
+    /**
+     * Register an attribute scorer by name.
+     * Matching configurations use it by setting algorithm to 'custom' and customAlgorithm to the name.
+     */
+    public registerScorer(name: string, scorer: Scorer): void {
+        this.log.debug(`Registering scorer: ${name}`)
+        this.scorers.register(name, scorer)
+    }
+
+    /**
+     * Learn attribute agreement statistics from a reviewer decision.
+     * The selected identity is a confirmed match; every other candidate on the form
+     * (or all of them when a new identity was chosen) is a confirmed non-match.
+     * Decisions are identified by their form instance and only learned from once.
+     * @returns The number of attribute comparisons recorded
+     */
+    public recordFusionDecision(fusionDecision: FusionDecision): number {
+        const { formInstanceId } = fusionDecision
+        if (!fusionDecision.finished || !fusionDecision.scores || !formInstanceId) return 0
+        if (this.matchStatistics.hasLearned(formInstanceId)) return 0
+        this.matchStatistics.markLearned(formInstanceId)
+
+        // Form score keys use the attribute name with a lowercase first character
+        const matchingConfigs = [this.matchingProfile, ...this.sourceMatchingProfiles.values()].flatMap(
+            (x) => x.matchingConfigs
+        )
+        const attributesByKey = new Map(
+            matchingConfigs.map((x) => [x.attribute.charAt(0).toLowerCase() + x.attribute.slice(1), x.attribute])
+        )
+
+        let recorded = 0
+        for (const score of fusionDecision.scores) {
+            const attribute = attributesByKey.get(score.attribute)
+            if (!attribute || score.threshold === undefined) continue
+            const isMatch = !fusionDecision.newIdentity && score.identityId === fusionDecision.identityId
+            this.matchStatistics.record(attribute, isMatch, score.score >= score.threshold)
+            recorded++
+        }
+        return recorded
+    }
+
+    /**
+     * Forget the learned decisions missing from the decisions read in this run
+     * @returns The fusion state keys to remove
+     */
+    public forgetLearnedDecisions(fusionDecisions: FusionDecision[]): string[] {
+        const decisionIds = new Set(fusionDecisions.map((x) => x.formInstanceId).filter((x): x is string => !!x))
+        return this.matchStatistics.forgetLearnedDecisionsExcept(decisionIds)
+    }
+
+    /**
+     * Learned match statistics and learned decisions as flat fusion state entries
+     */
+    public get matchStatisticsState(): Record<string, number> {
+        return this.matchStatistics.toState()
+    }
+
+    /**
+     * Suppress the pairs a reviewer rejected by choosing a new identity: the account, and the other accounts
+     * of a cluster review, against every candidate identity on the form.
+     * @returns The number of pairs suppressed
+     */
+    public suppressRejectedCandidates(fusionDecision: FusionDecision): number {
+        if (!this.fusionSuppressRejectedPairs || !fusionDecision.finished || !fusionDecision.newIdentity) return 0
+
+        const timestamp = ScoringService.toTimestamp(fusionDecision.decisionDate)
+        const accountIds = [fusionDecision.account.id, ...(fusionDecision.clusterAccounts ?? []).map((x) => x.id)]
+        const identityIds = new Set(fusionDecision.scores?.map((x) => x.identityId))
+        let suppressed = 0
+        for (const accountId of accountIds) {
+            for (const identityId of identityIds) {
+                this.suppressions.add(accountId, identityId, timestamp)
+                suppressed++
+            }
+        }
+        return suppressed
+    }
+
+    /**
+     * Suppress an identity pair a reviewer decided not to merge
+     * @returns Whether the pair was suppressed
+     */
+    public suppressIdentityMergeDecision(decision: IdentityMergeDecision): boolean {
+        if (!this.fusionSuppressRejectedPairs || !decision.finished || decision.merge) return false
+        this.suppressions.add(
+            decision.identityId,
+            decision.mergedIdentityId,
+            ScoringService.toTimestamp(decision.decisionDate)
+        )
+        return true
+    }
+
+    /**
+     * Suppress the pair of an account and the identity the unmerge action detached it from,
+     * so that matching does not correlate the account back to it
+     */
+    public suppressUnmergedAccount(fusionDecision: FusionDecision): void {
+        if (!fusionDecision.unmergedFrom) return
+        this.suppressions.add(
+            fusionDecision.account.id,
+            fusionDecision.unmergedFrom,
+            ScoringService.toTimestamp(fusionDecision.decisionDate)
+        )
+    }
+
+    /**
+     * Active suppressions of reviewer-rejected pairs
+     */
+    public get suppressedPairs(): SuppressedPair[] {
+        return this.suppressions.activePairs
+    }
+
+    /**
+     * Active suppressions as flat fusion state entries
+     */
+    public get suppressionState(): Record<string, number> {
+        return this.suppressions.toState()
+    }
+
+    /**
+     * Fusion state keys of suppressions that have expired
+     */
+    public get expiredSuppressionStateKeys(): string[] {
+        return this.suppressions.expiredStateKeys
+    }
+
+    /**
+     * Replay a finished reviewer decision: score the decided account against the given fusion identities
+     * with the given matching configurations, or the matching profile of its source when none are given,
+     * and compare the outcome with the reviewer's choice.
+     * Scores are tallied for the chosen identity, the candidates shown on the form and any identity
+     * the configurations flag as a match.
+     */
+    public evaluateFusionDecision(
+        fusionAccount: FusionAccount,
+        fusionIdentities: FusionAccount[],
+        fusionDecision: FusionDecision,
+        evaluator: MatchingEvaluator,
+        matchingConfigs?: MatchingConfig[]
+    ): void {
+        const profile = matchingConfigs
+            ? { ...this.matchingProfile, matchingConfigs }
+            : this.getMatchingProfile(fusionAccount)
+        const candidateIds = new Set(fusionDecision.scores?.map((x) => x.identityId))
+
+        for (const fusionIdentity of fusionIdentities) {
+            const identityId = fusionIdentity.identityId
+            const isMatch = !fusionDecision.newIdentity && identityId === fusionDecision.identityId
+            const { scores, isMatch: predicted } = this.scoreFusionIdentity(
+                fusionAccount,
+                fusionIdentity,
+                profile,
+                true
+            )
+            const band = predicted ? this.getMatchBand(scores).band : undefined
+            const tally = predicted || (identityId !== undefined && candidateIds.has(identityId))
+            evaluator.record(scores, isMatch, predicted && band !== 'reject', band === 'auto-correlate', tally)
+        }
+        evaluator.addDecision()
+    }
+
+    /**
+     * Index fusion identities by blocking key once per run.
+     * Subsequent calls to scoreFusionAccount only compare against identities sharing a blocking key.
+     * Does nothing unless blocking is enabled and at least one blocking key is configured.
+     */
+    public indexFusionIdentities(fusionIdentities: FusionAccount[]): void {
+        this.blockingStats = ScoringService.emptyBlockingStats()
+        if (!this.fusionUseBlocking || this.fusionBlockingKeys.length === 0) {
+            this.candidateIndex = undefined
+            return
+        }
+
+        this.candidateIndex = new CandidateIndex(fusionIdentities, this.fusionBlockingKeys)
+        this.blockingStats.indexedIdentities = this.candidateIndex.size
+        this.blockingStats.blockingKeys = this.candidateIndex.keyCount
+        this.log.debug(
+            `Indexed ${this.candidateIndex.size} fusion identities into ${this.candidateIndex.keyCount} blocking keys`
+        )
+    }
+
+    public get stats(): BlockingStats {
+        return { ...this.blockingStats }
+    }
+
+    /**
+     * Identities to compare an account with. With blocking enabled, only the identities sharing a blocking
+     * key with the account, still limited to the given identities.
+     */
+    public getCandidates(fusionAccount: FusionAccount, fusionIdentities: FusionAccount[]): FusionAccount[] {
+        if (!this.candidateIndex) return fusionIdentities
+        const allowed = new Set(fusionIdentities)
+        return this.candidateIndex.getCandidates(fusionAccount).filter((x) => allowed.has(x))
+    }
+
     public scoreFusionAccount(fusionAccount: FusionAccount, fusionIdentities: FusionAccount[]): void {
+        const candidates = this.getCandidates(fusionAccount, fusionIdentities)
+        this.blockingStats.accountsScored++
+        this.blockingStats.comparisons += candidates.length
+        this.blockingStats.skippedComparisons += Math.max(fusionIdentities.length - candidates.length, 0)
+
         // Use for...of instead of forEach for better performance in hot path
-        for (const fusionIdentity of fusionIdentities) {
+        for (const fusionIdentity of candidates) {
             this.compareFusionAccounts(fusionAccount, fusionIdentity)
         }
     }
 
+    /**
+     * Cluster accounts of the same run that match each other. Accounts are taken in order and each one
+     * joins the cluster of the first root it matches, preferring auto-correlate matches, or starts a new cluster.
+     * Matches are not recorded on the accounts, so they are still handled as non-matches against identities.
+     * Pairs a reviewer rejected are never linked.
+     * @param roots - Existing fusion accounts that new accounts can join but never start a cluster
+     * @param fusionAccounts - New accounts to cluster
+     */
+    public clusterFusionAccounts(roots: FusionAccount[], fusionAccounts: FusionAccount[]): FusionAccountCluster[] {
+        const useIndex = this.fusionUseBlocking && this.fusionBlockingKeys.length > 0
+        const index = useIndex ? new CandidateIndex(roots, this.fusionBlockingKeys) : undefined
+        const clusters: Map<FusionAccount, FusionAccountCluster> = new Map(
+            roots.map((root) => [root, { root, members: [] }])
+        )
+
+        for (const fusionAccount of fusionAccounts) {
+            const candidates = index ? index.getCandidates(fusionAccount) : Array.from(clusters.keys())
+            const profile = this.getMatchingProfile(fusionAccount)
+            const fullRun = this.isFullRun(profile)
+            let best: FusionMatch | undefined
+            for (const root of candidates) {
+                if (this.isSuppressed(fusionAccount, root)) continue
+                const { scores, isMatch } = this.scoreFusionIdentity(fusionAccount, root, profile, fullRun)
+                if (!isMatch) continue
+                const { band, reason } = this.getMatchBand(scores)
+                if (band === 'reject') continue
+                if (!best || band === 'auto-correlate') {
+                    best = { fusionIdentity: root, scores, band, bandReason: reason }
+                }
+                if (band === 'auto-correlate') break
+            }
+
+            if (best) {
+                clusters.get(best.fusionIdentity)!.members.push({ fusionAccount, match: best })
+            } else {
+                clusters.set(fusionAccount, { root: fusionAccount, members: [] })
+                index?.add(fusionAccount)
+            }
+        }
+
+        return Array.from(clusters.values())
+    }
+
+    /**
+     * Compare fusion identities with each other. Each pair is scored once, the later identity against
+     * the earlier one, and only matches outside the reject band are returned.
+     * Identities span several sources, so they are always scored with the global matching profile.
+     */
+    public findDuplicateIdentities(fusionIdentities: FusionAccount[]): IdentityDuplicate[] {
+        const fullRun = this.isFullRun(this.matchingProfile)
+        const useIndex = this.fusionUseBlocking && this.fusionBlockingKeys.length > 0
+        const index = useIndex ? new CandidateIndex([], this.fusionBlockingKeys) : undefined
+        const scanned: FusionAccount[] = []
+        const duplicates: IdentityDuplicate[] = []
+
+        for (const fusionIdentity of fusionIdentities) {
+            const candidates = index ? index.getCandidates(fusionIdentity) : scanned
+            for (const candidate of candidates) {
+                if (this.isSuppressed(fusionIdentity, candidate)) continue
+                const { scores, isMatch } = this.scoreFusionIdentity(
+                    fusionIdentity,
+                    candidate,
+                    this.matchingProfile,
+                    fullRun
+                )
+                if (!isMatch) continue
+                const { band, reason } = this.getMatchBand(scores)
+                if (band === 'reject') continue
+                duplicates.push({
+                    fusionIdentity,
+                    match: { fusionIdentity: candidate, scores, band, bandReason: reason },
+                })
+            }
+            scanned.push(fusionIdentity)
+            index?.add(fusionIdentity)
+        }
+
+        return duplicates
+    }
+
+    /**
+     * Cluster accounts flagged as potential duplicates with their candidate identities.
+     * Accounts sharing a candidate identity are also scored against each other, so the linkage
+     * rule can tell whether they are duplicates of each other too.
+     */
+    public clusterPotentialDuplicates(fusionAccounts: FusionAccount[]): DuplicateCluster[] {
+        const edges: ClusterEdge[] = []
+        const accountsByIdentity: Map<FusionAccount, FusionAccount[]> = new Map()
+        for (const fusionAccount of fusionAccounts) {
+            for (const match of fusionAccount.fusionMatches) {
+                edges.push({
+                    source: fusionAccount,
+                    target: match.fusionIdentity,
+                    score: ScoringService.overallScore(match.scores),
+                })
+                const accounts = accountsByIdentity.get(match.fusionIdentity) ?? []
+                accounts.push(fusionAccount)
+                accountsByIdentity.set(match.fusionIdentity, accounts)
+            }
+        }
+
+        const compared: Set<string> = new Set()
+        const positions = new Map(fusionAccounts.map((fusionAccount, index) => [fusionAccount, index]))
+        for (const accounts of accountsByIdentity.values()) {
+            for (let i = 0; i < accounts.length; i++) {
+                for (let j = i + 1; j < accounts.length; j++) {
+                    const [a, b] = [accounts[i], accounts[j]]
+                    const key = [positions.get(a), positions.get(b)].sort().join(':')
+                    if (compared.has(key)) continue
+                    compared.add(key)
+
+                    const profile = this.getMatchingProfile(a)
+                    const { scores, isMatch } = this.scoreFusionIdentity(a, b, profile, this.isFullRun(profile))
+                    if (!isMatch || this.getMatchBand(scores).band === 'reject') continue
+                    edges.push({ source: a, target: b, score: ScoringService.overallScore(scores) })
+                }
+            }
+        }
+
+        const identities = new Set(accountsByIdentity.keys())
+        return buildDuplicateClusters(
+            edges,
+            (x) => identities.has(x),
+            this.fusionClusterLinkage,
+            this.fusionClusterAverageScore
+        )
+    }
+
     private compareFusionAccounts(
         fusionAccount: FusionAccount,
         fusionIdentity: FusionAccount
     ): void {
-        const fullRun = this.reportMode || this.fusionUseAverageScore
+        if (this.isSuppressed(fusionAccount, fusionIdentity)) return
+
+        const profile = this.getMatchingProfile(fusionAccount)
+        const { scores, isMatch } = this.scoreFusionIdentity(
+            fusionAccount,
+            fusionIdentity,
+            profile,
+            this.isFullRun(profile)
+        )
+        if (!isMatch) return
+
+        const { band, reason } = this.getMatchBand(scores)
+        const fusionMatch: FusionMatch = {
+            fusionIdentity,
+            scores,
+            band,
+            bandReason: reason,
+        }
+        if (band === 'reject') {
+            fusionAccount.addRejectedFusionMatch(fusionMatch)
+        } else {
+            fusionAccount.addFusionMatch(fusionMatch)
+        }
+    }
+
+    /**
+     * Matching profile of the account's source, or the global profile when the source has none
+     */
+    private getMatchingProfile(fusionAccount: FusionAccount): MatchingProfile {
+        return this.sourceMatchingProfiles.get(fusionAccount.sourceName) ?? this.matchingProfile
+    }
+
+    /**
+     * Whether every attribute must be scored: the rollup scores and reports need all of them
+     */
+    private isFullRun(profile: MatchingProfile): boolean {
+        return this.reportMode || profile.useAverageScore || this.fusionUseProbabilisticScore
+    }
+
+    /**
+     * Whether a reviewer found the pair not to be duplicates: either side's identity or one of its accounts
+     * is suppressed against the other side's identity
+     */
+    private isSuppressed(fusionAccount: FusionAccount, fusionIdentity: FusionAccount): boolean {
+        if (!this.fusionSuppressRejectedPairs || this.suppressions.size === 0) return false
+        const ids = (x: FusionAccount) => [x.identityId, x.managedAccountId, ...x.accountIds]
+        return (
+            this.suppressions.isSuppressed(ids(fusionAccount), fusionIdentity.identityId) ||
+            this.suppressions.isSuppressed(ids(fusionIdentity), fusionAccount.identityId)
+        )
+    }
+
+    /**
+     * Score every matching configuration of the profile for an account-identity pair
+     * and decide whether it is a match.
+     * Unless fullRun is set, scoring stops at the first failed mandatory attribute.
+     */
+    private scoreFusionIdentity(
+        fusionAccount: FusionAccount,
+        fusionIdentity: FusionAccount,
+        profile: MatchingProfile,
+        fullRun: boolean
+    ): { scores: ScoreReport[]; isMatch: boolean } {
         const scores: ScoreReport[] = []
         let isMatch = false
 
-        for (const matching of this.matchingConfigs) {
-            const accountAttribute = fusionAccount.attributes[matching.attribute]
-            const identityAttribute = fusionIdentity.attributes[matching.attribute]
-            if (accountAttribute && identityAttribute) {
-                const scoreReport: ScoreReport = this.scoreAttribute(
-                    accountAttribute.toString(),
-                    identityAttribute.toString(),
-                    matching
-                )
+        for (const matching of profile.matchingConfigs) {
+            const { accountValues, identityValues } = ScoringService.getMatchingValues(
+                fusionAccount,
+                fusionIdentity,
+                matching
+            )
+            if (accountValues.length > 0 && identityValues.length > 0) {
+                const scoreReport: ScoreReport = this.scoreAttributeValues(accountValues, identityValues, matching)
                 if (!scoreReport.isMatch && matching.mandatory && !fullRun) {
-                    return
+                    return { scores, isMatch: false }
                 }
                 isMatch = isMatch || scoreReport.isMatch
                 scores.push(scoreReport)
+            } else if (profile.useAverageScore && this.fusionPenalizeMissingAttributes) {
+                const side = accountValues.length > 0 ? 'identity' : 'account'
+                scores.push({ ...matching, score: 0, isMatch: false, comment: `Attribute missing on ${side}` })
             }
         }
 
-        if (this.fusionUseAverageScore) {
-            const score = scores.reduce((acc, score) => acc + score.score, 0) / scores.length
-            const match = score >= this.fusionAverageScore
+        if (this.fusionUseProbabilisticScore) {
+            const scoreReport = this.scoreMatchWeight(scores)
+            scores.push(scoreReport)
+            isMatch = scoreReport.isMatch
+        } else if (profile.useAverageScore) {
+            const score = ScoringService.weightedAverage(scores)
+            const match = score >= profile.averageScore
+            const weighted = scores.some((x) => x.weight !== undefined)
+            const label = weighted ? 'Weighted average score' : 'Average score'
 
             const scoreReport: ScoreReport = {
                 attribute: 'Average Score',
                 algorithm: 'average',
-                fusionScore: this.fusionAverageScore,
+                fusionScore: profile.averageScore,
                 mandatory: true,
                 score,
                 isMatch: match,
-                comment: match ? 'Average score is above threshold' : 'Average score is below threshold',
+                comment: match ? `${label} is above threshold` : `${label} is below threshold`,
             }
             scores.push(scoreReport)
             isMatch = match
@@ -95,13 +608,214 @@ export class ScoringService {
             }
         }
 
-        const fusionMatch: FusionMatch = {
-            fusionIdentity,
-            scores,
-        }
         if (isMatch) {
-            fusionAccount.addFusionMatch(fusionMatch)
+            scores.push(...this.scoreVetoRules(fusionAccount, fusionIdentity))
+        }
+
+        return { scores, isMatch }
+    }
+
+    /**
+     * Scores of the veto rules broken by a pair: the attribute has values on both sides and they share none.
+     * Values are compared as identifiers, ignoring case, spaces and punctuation.
+     */
+    private scoreVetoRules(fusionAccount: FusionAccount, fusionIdentity: FusionAccount): ScoreReport[] {
+        const vetoes: ScoreReport[] = []
+        for (const rule of this.fusionVetoRules) {
+            const accountValues = toAttributeValues(fusionAccount.attributes[rule.attribute])
+            const identityValues = toAttributeValues(fusionIdentity.attributes[rule.attribute])
+            const accountKeys = accountValues.map(normalizeVetoValue).filter((key) => key.length > 0)
+            const identityKeys = new Set(identityValues.map(normalizeVetoValue).filter((key) => key.length > 0))
+            if (accountKeys.length === 0 || identityKeys.size === 0) continue
+            if (accountKeys.some((key) => identityKeys.has(key))) continue
+
+            vetoes.push({
+                attribute: rule.attribute,
+                algorithm: 'veto',
+                mandatory: false,
+                score: 0,
+                isMatch: false,
+                veto: rule.action,
+                comment: `${rule.attribute} differs (${accountValues.join(', ')} / ${identityValues.join(', ')})`,
+            })
+        }
+        return vetoes
+    }
+
+    /**
+     * Decide how a match is handled. Veto rules come first: a broken 'reject' rule rejects the match,
+     * and a broken 'review' rule sends a match that would be auto-correlated to review instead.
+     */
+    private getMatchBand(scores: ScoreReport[]): { band: MatchBand; reason?: string } {
+        const vetoes = scores.filter((x) => x.veto)
+        const rejectVeto = vetoes.find((x) => x.veto === 'reject')
+        if (rejectVeto) {
+            return { band: 'reject', reason: `veto rule: ${rejectVeto.comment}` }
+        }
+
+        const match = this.getScoreBand(scores)
+        if (match.band === 'auto-correlate' && vetoes.length > 0) {
+            return { band: 'review', reason: `veto rule: ${vetoes[0].comment}` }
         }
+        return match
+    }
+
+    /**
+     * Band of a match from its scores.
+     * - Probabilistic scoring: match weight at or above the auto-correlation threshold is auto-correlated
+     * - Identical merging: every attribute scoring 100 is auto-correlated
+     * - Match bands: overall score at or above the upper band is auto-correlated, below the lower band rejected
+     * Everything else goes to review.
+     */
+    private getScoreBand(scores: ScoreReport[]): { band: MatchBand; reason?: string } {
+        const attributeScores = scores.filter((x) => !ScoringService.isRollupScore(x))
+
+        if (this.fusionUseProbabilisticScore) {
+            const matchWeight = scores.find((x) => x.algorithm === 'probabilistic')
+            if (matchWeight && matchWeight.score >= this.fusionProbabilisticMatchScore) {
+                return { band: 'auto-correlate', reason: `match weight ${matchWeight.score} was above threshold` }
+            }
+        }
+
+        const allPerfect = attributeScores.length > 0 && attributeScores.every((x) => x.score === 100)
+        if (this.fusionMergingIdentical && allPerfect) {
+            return { band: 'auto-correlate', reason: 'all attribute scores were 100' }
+        }
+
+        if (this.fusionUseMatchBands && !this.fusionUseProbabilisticScore) {
+            const score = ScoringService.overallScore(scores)
+            if (score >= this.fusionAutoCorrelationScore) {
+                return { band: 'auto-correlate', reason: `overall score ${score} was above auto-correlation band` }
+            }
+            if (score < this.fusionRejectScore) {
+                return { band: 'reject', reason: `overall score ${score} was below review band` }
+            }
+            return { band: 'review', reason: `overall score ${score} was within review band` }
+        }
+
+        return { band: 'review' }
+    }
+
+    /**
+     * Overall score of a pair on the 0-100 scale: the average score in overall scoring mode,
+     * or the weighted average of attribute scores otherwise
+     */
+    private static overallScore(scores: ScoreReport[]): number {
+        const average = scores.find((x) => x.algorithm === 'average')
+        const attributeScores = scores.filter((x) => !ScoringService.isRollupScore(x))
+        return Math.round((average?.score ?? ScoringService.weightedAverage(attributeScores)) * 100) / 100
+    }
+
+    /**
+     * Synthetic scores that are not attribute comparisons (average score, match weight, broken veto rules)
+     */
+    private static isRollupScore(score: ScoreReport): boolean {
+        return score.algorithm === 'average' || score.algorithm === 'probabilistic' || score.algorithm === 'veto'
+    }
+
+    /**
+     * Fellegi-Sunter match weight: sum of log2 agreement weights for attributes whose score
+     * reaches their threshold and disagreement weights for the rest. Missing attributes are neutral.
+     */
+    private scoreMatchWeight(scores: ScoreReport[]): ScoreReport {
+        let weight = 0
+        for (const score of scores) {
+            const weights = this.matchStatistics.getWeights(score.attribute)
+            weight += score.isMatch ? weights.agreement : weights.disagreement
+        }
+        const score = Math.round(weight * 100) / 100
+
+        let comment: string
+        if (score >= this.fusionProbabilisticMatchScore) {
+            comment = 'Match weight is above auto-correlation threshold'
+        } else if (score >= this.fusionProbabilisticReviewScore) {
+            comment = 'Match weight is above review threshold'
+        } else {
+            comment = 'Match weight is below review threshold'
+        }
+
+        return {
+            attribute: 'Match Weight',
+            algorithm: 'probabilistic',
+            fusionScore: this.fusionProbabilisticReviewScore,
+            mandatory: true,
+            score,
+            isMatch: score >= this.fusionProbabilisticReviewScore,
+            comment,
+        }
+    }
+
+    /**
+     * Weighted mean of attribute scores. Attributes without weight count as 1.
+     */
+    private static weightedAverage(scores: ScoreReport[]): number {
+        let total = 0
+        let totalWeight = 0
+        for (const score of scores) {
+            const weight = score.weight ?? 1
+            total += score.score * weight
+            totalWeight += weight
+        }
+        return totalWeight > 0 ? total / totalWeight : 0
+    }
+
+    /**
+     * Values compared by a matching configuration on each side. Cross-attribute configurations join
+     * their attributes with spaces, and the side with more attributes is joined in every order, so that
+     * swapped first and last names or a full name split across fields still line up with the other side.
+     */
+    private static getMatchingValues(
+        fusionAccount: FusionAccount,
+        fusionIdentity: FusionAccount,
+        matching: MatchingConfig
+    ): { accountValues: string[]; identityValues: string[] } {
+        const accountAttributes = matching.accountAttributes ?? []
+        const identityAttributes = matching.identityAttributes ?? []
+        if (accountAttributes.length === 0 && identityAttributes.length === 0) {
+            return {
+                accountValues: toAttributeValues(fusionAccount.attributes[matching.attribute]),
+                identityValues: toAttributeValues(fusionIdentity.attributes[matching.attribute]),
+            }
+        }
+
+        const accountNames = accountAttributes.length > 0 ? accountAttributes : [matching.attribute]
+        const identityNames = identityAttributes.length > 0 ? identityAttributes : [matching.attribute]
+        const arrangeAccount = accountNames.length >= identityNames.length
+        return {
+            accountValues: joinAttributeValues(fusionAccount.attributes, accountNames, arrangeAccount),
+            identityValues: joinAttributeValues(fusionIdentity.attributes, identityNames, !arrangeAccount),
+        }
+    }
+
+    /**
+     * Score an attribute as the best pair of values when either side has several values
+     * (list or concatenated attributes), reporting the winning pair
+     */
+    private scoreAttributeValues(
+        accountValues: string[],
+        identityValues: string[],
+        matchingConfig: MatchingConfig
+    ): ScoreReport {
+        if (accountValues.length === 1 && identityValues.length === 1) {
+            return this.scoreAttribute(accountValues[0], identityValues[0], matchingConfig)
+        }
+
+        const pairs = accountValues.flatMap((account) => identityValues.map((identity) => ({ account, identity })))
+        let best = {
+            scoreReport: this.scoreAttribute(pairs[0].account, pairs[0].identity, matchingConfig),
+            values: pairs[0],
+        }
+        for (const values of pairs.slice(1)) {
+            if (best.scoreReport.score === 100) break
+            const scoreReport = this.scoreAttribute(values.account, values.identity, matchingConfig)
+            if (scoreReport.score > best.scoreReport.score) {
+                best = { scoreReport, values }
+            }
+        }
+
+        const { scoreReport, values } = best
+        const pair = `Best of ${accountValues.length} × ${identityValues.length} values: ${values.account} / ${values.identity}`
+        return { ...scoreReport, values, comment: scoreReport.comment ? `${scoreReport.comment}; ${pair}` : pair }
     }
 
     private scoreAttribute(
@@ -109,20 +823,24 @@ export class ScoringService {
         identityAttribute: string,
         matchingConfig: MatchingConfig
     ): ScoreReport {
-        switch (matchingConfig.algorithm) {
-            case 'name-matcher':
-                return scoreNameMatcher(accountAttribute, identityAttribute, matchingConfig)
-            case 'jaro-winkler':
-                return scoreJaroWinkler(accountAttribute, identityAttribute, matchingConfig)
-            case 'dice':
-                return scoreDice(accountAttribute, identityAttribute, matchingConfig)
-            case 'double-metaphone':
-                return scoreDoubleMetaphone(accountAttribute, identityAttribute, matchingConfig)
-            case 'lig3':
-                return scoreLIG3(accountAttribute, identityAttribute, matchingConfig)
-            case 'custom':
-                this.log.crash('Custom algorithm not implemented')
-        }
-        return { ...matchingConfig, score: 0, isMatch: false }
+        const name =
+            matchingConfig.algorithm === 'custom' ? matchingConfig.customAlgorithm : matchingConfig.algorithm
+        const scorer = name ? this.scorers.get(name) : undefined
+        if (!scorer) {
+            if (matchingConfig.algorithm === 'custom') {
+                this.log.crash(
+                    `Custom algorithm ${name ?? '(none)'} for attribute ${matchingConfig.attribute} is not registered`
+                )
+            }
+            return { ...matchingConfig, score: 0, isMatch: false }
+        }
+
+        const scoreReport = this.fusionUseTransliteration
+            ? scoreTransliterated(scorer, accountAttribute, identityAttribute, matchingConfig)
+            : scorer(accountAttribute, identityAttribute, matchingConfig)
+        if (typeof scoreReport?.score !== 'number' || isNaN(scoreReport.score)) {
+            this.log.crash(`Scorer ${name} returned an invalid score for attribute ${matchingConfig.attribute}`)
+        }
+        return scoreReport
     }
 }
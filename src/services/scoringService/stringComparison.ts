@@ -19,26 +19,29 @@ export function jaroWinklerSimilarity(s1: string, s2: string): number {
     if (jaroSim < 0.7) return jaroSim
 
     // Calculate common prefix up to 4 characters
-    let prefixLength = 0
-    const maxPrefix = Math.min(4, Math.min(s1.length, s2.length))
-    
-    for (let i = 0; i < maxPrefix; i++) {
-        if (s1[i] === s2[i]) {
-            prefixLength++
-        } else {
-            break
-        }
-    }
+    const prefixLength = commonPrefixLength(s1, s2, 4)
 
     // Apply Winkler modification
     const p = 0.1 // Standard scaling factor
     return jaroSim + prefixLength * p * (1 - jaroSim)
 }
 
+/**
+ * Number of leading characters the strings share, up to max
+ */
+export function commonPrefixLength(s1: string, s2: string, max: number = Infinity): number {
+    const maxPrefix = Math.min(max, s1.length, s2.length)
+    let prefixLength = 0
+    while (prefixLength < maxPrefix && s1[prefixLength] === s2[prefixLength]) {
+        prefixLength++
+    }
+    return prefixLength
+}
+
 /**
  * Jaro similarity algorithm (base algorithm for Jaro-Winkler)
  */
-function jaroSimilarity(s1: string, s2: string): number {
+export function jaroSimilarity(s1: string, s2: string): number {
     const len1 = s1.length
     const len2 = s2.length
 
@@ -115,7 +118,7 @@ export function diceCoefficientSimilarity(s1: string, s2: string): number {
 /**
  * Generate bigrams (character pairs) from a string
  */
-function getBigrams(str: string): Set<string> {
+export function getBigrams(str: string): Set<string> {
     const bigrams = new Set<string>()
     
     for (let i = 0; i < str.length - 1; i++) {
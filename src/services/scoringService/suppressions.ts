@@ -0,0 +1,101 @@
+import { SuppressedPair } from './types'
+
+// ============================================================================
+// Suppression List
+// ============================================================================
+
+/**
+ * Prefix of the fusion state keys holding suppressed pairs.
+ * Keys are "<prefix>.<id>:<id>" with the IDs sorted, and the value is the time of the reviewer verdict in milliseconds.
+ */
+export const SUPPRESSION_PREFIX = 'suppressed'
+
+const toPairKey = (id1: string, id2: string): string => (id1 < id2 ? `${id1}:${id2}` : `${id2}:${id1}`)
+
+/**
+ * Pairs of accounts or identities a reviewer found not to be duplicates. Account and identity IDs
+ * never collide, so both kinds of pairs share the same list and a pair matches in either order.
+ * Entries older than the expiration are dropped when the list is loaded.
+ */
+export class SuppressionList {
+    private readonly pairs: Map<string, number> = new Map()
+    private readonly expiredKeys: string[] = []
+
+    /**
+     * @param expiration - Milliseconds a pair stays suppressed, 0 for no expiration
+     */
+    constructor(
+        state?: Record<string, any>,
+        private readonly expiration: number = 0,
+        now: number = Date.now()
+    ) {
+        for (const [key, value] of Object.entries(state ?? {})) {
+            if (!key.startsWith(`${SUPPRESSION_PREFIX}.`) || typeof value !== 'number') continue
+            if (this.expiresAt(value) <= now) {
+                this.expiredKeys.push(key)
+                continue
+            }
+            this.pairs.set(key.substring(SUPPRESSION_PREFIX.length + 1), value)
+        }
+    }
+
+    /**
+     * Suppress a pair. A later verdict on the same pair restarts its expiration, and verdicts
+     * older than the expiration are ignored.
+     */
+    public add(id1: string, id2: string, timestamp: number = Date.now()): void {
+        if (id1 === id2 || this.expiresAt(timestamp) <= Date.now()) return
+        const key = toPairKey(id1, id2)
+        this.pairs.set(key, Math.max(timestamp, this.pairs.get(key) ?? 0))
+    }
+
+    /**
+     * Whether any of the IDs (an identity and its accounts) is suppressed against the other ID
+     */
+    public isSuppressed(ids: Iterable<string | undefined>, otherId: string | undefined): boolean {
+        if (!otherId || this.pairs.size === 0) return false
+        for (const id of ids) {
+            if (id && this.pairs.has(toPairKey(id, otherId))) return true
+        }
+        return false
+    }
+
+    public get size(): number {
+        return this.pairs.size
+    }
+
+    /**
+     * Active suppressions, most recent first
+     */
+    public get activePairs(): SuppressedPair[] {
+        return Array.from(this.pairs.entries())
+            .sort(([, a], [, b]) => b - a)
+            .map(([key, timestamp]) => ({
+                ids: key.split(':') as [string, string],
+                since: new Date(timestamp),
+                expires: this.expiration > 0 ? new Date(this.expiresAt(timestamp)) : undefined,
+            }))
+    }
+
+    /**
+     * Fusion state keys of the suppressions that expired when the list was loaded
+     */
+    public get expiredStateKeys(): string[] {
+        return [...this.expiredKeys]
+    }
+
+    /**
+     * Get the active suppressions as flat fusion state entries
+     */
+    public toState(): Record<string, number> {
+        const state: Record<string, number> = {}
+        for (const [key, timestamp] of this.pairs) {
+            state[`${SUPPRESSION_PREFIX}.${key}`] = timestamp
+        }
+        return state
+    }
+
+    private expiresAt(timestamp: number): number {
+        return this.expiration > 0 ? timestamp + this.expiration : Infinity
+    }
+}
@@ -0,0 +1,98 @@
+import { transliterate } from 'transliteration'
+
+/**
+ * Romanization of non-Latin scripts (Cyrillic, Greek, CJK, ...) for attribute matching.
+ * Sources rarely agree on the romanization system ("Kharitonov" and "Haritonov" are both
+ * valid for "Харитонов"), so a value is expanded into the variants produced by common
+ * systems and matchers score every variant pair.
+ */
+
+// ============================================================================
+// Romanization Schemes
+// ============================================================================
+
+type RomanizationScheme = {
+    name: string
+    // Lowercase source sequences and their romanization, applied before the default transliteration
+    replace: Record<string, string>
+}
+
+/**
+ * Alternatives to the transliteration package defaults, which are close to GOST for Cyrillic
+ * and to a phonetic romanization for Greek. Chinese characters are romanized as pinyin only,
+ * and Japanese kanji get their Chinese reading; kana are romanized as Hepburn.
+ */
+export const ROMANIZATION_SCHEMES: RomanizationScheme[] = [
+    {
+        name: 'BGN/PCGN',
+        replace: { х: 'kh', ё: 'e', ъ: '', ь: '' },
+    },
+    {
+        name: 'ICAO 9303',
+        replace: { х: 'kh', ц: 'ts', й: 'i', ю: 'iu', я: 'ia', ё: 'e', ъ: 'ie', ь: '' },
+    },
+    {
+        name: 'Scientific',
+        replace: { х: 'ch', ц: 'c', й: 'j', ю: 'ju', я: 'ja', ё: 'jo', ћ: 'c', ђ: 'dj', џ: 'dz' },
+    },
+    {
+        name: 'ELOT 743',
+        replace: {
+            αυ: 'av',
+            αύ: 'av',
+            ευ: 'ev',
+            εύ: 'ev',
+            ου: 'ou',
+            ού: 'ou',
+            γγ: 'ng',
+            χ: 'ch',
+        },
+    },
+]
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// A letter outside the Latin script
+const NON_LATIN_LETTER = /(?!\p{Script=Latin})\p{L}/u
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1)
+
+/**
+ * Expand the scheme to the lowercase, uppercase and capitalized forms of each sequence,
+ * since the replacement is case-sensitive. A single uppercase letter is taken as capitalized ("Х" is "Kh").
+ */
+const buildReplacements = (scheme: RomanizationScheme): [string, string][] => {
+    const replacements: Map<string, string> = new Map()
+    for (const [source, target] of Object.entries(scheme.replace)) {
+        replacements.set(source, target)
+        replacements.set(source.toUpperCase(), target.toUpperCase())
+        replacements.set(capitalize(source), capitalize(target))
+    }
+    return Array.from(replacements.entries())
+}
+
+const SCHEME_REPLACEMENTS = ROMANIZATION_SCHEMES.map(buildReplacements)
+
+/**
+ * Whether the value contains letters outside the Latin script
+ */
+export const hasNonLatinLetters = (value: string): boolean => NON_LATIN_LETTER.test(value)
+
+/**
+ * Romanization variants of a value: the default transliteration first, then the distinct
+ * results of every scheme that applies to the value. Values without non-Latin letters are
+ * returned unchanged, so Latin diacritics are left to the matchers.
+ */
+export const romanizationVariants = (value: string): string[] => {
+    if (!hasNonLatinLetters(value)) return [value]
+
+    const variants = new Set([transliterate(value).trim()])
+    for (const replacements of SCHEME_REPLACEMENTS) {
+        const applicable = replacements.filter(([source]) => value.includes(source))
+        if (applicable.length === 0) continue
+        variants.add(transliterate(value, { replace: applicable }).trim())
+    }
+    return Array.from(variants).filter((variant) => variant.length > 0)
+}
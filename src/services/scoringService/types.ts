@@ -1,17 +1,180 @@
 import { FusionAccount } from '../../model/account'
-import { MatchingConfig } from '../../model/config'
+import { MatchingConfig, VetoAction } from '../../model/config'
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
+/**
+ * A token of the account value paired with a token of the identity value
+ */
+export type TokenMatch = {
+    account: string
+    identity: string
+    /** Token similarity (0-100) */
+    score: number
+    /** Same token, known alias, initial of the other token, same first letters or similar spelling */
+    kind: 'exact' | 'alias' | 'initial' | 'prefix' | 'similar'
+}
+
+/**
+ * Partial score combined into the attribute score. Weighted components are averaged by weight;
+ * the others are shown for information.
+ */
+export type ScoreComponent = {
+    name: string
+    /** 0-100 */
+    score: number
+    weight?: number
+}
+
+/**
+ * How a scorer reached its score, shown to reviewers on forms and reports
+ */
+export type ScoreExplanation = {
+    /** Values as the algorithm compared them */
+    normalized?: { account: string; identity: string }
+    matchedTokens?: TokenMatch[]
+    unmatchedTokens?: { account: string[]; identity: string[] }
+    /** Double Metaphone codes of each value or of each of its tokens */
+    phoneticCodes?: { account: string[]; identity: string[] }
+    components?: ScoreComponent[]
+}
+
 export type ScoreReport = MatchingConfig & {
     score: number
     isMatch: boolean
     comment?: string
+    explanation?: ScoreExplanation
+    /**
+     * Values that produced the score, when either attribute has several values
+     */
+    values?: { account: string; identity: string }
+    /**
+     * Set on the synthetic score of a broken veto rule
+     */
+    veto?: VetoAction
 }
 
+/**
+ * Attribute scorer. Receives both attribute values and the matching configuration
+ * and returns a ScoreReport with a 0-100 score.
+ */
+export type Scorer = (accountAttribute: string, identityAttribute: string, matching: MatchingConfig) => ScoreReport
+
+/**
+ * Attribute matches and average score settings used to score the accounts of a source
+ */
+export type MatchingProfile = {
+    matchingConfigs: MatchingConfig[]
+    useAverageScore: boolean
+    averageScore: number
+}
+
+/**
+ * How a match is handled: correlated without review, sent to a review form, or discarded as a non-match
+ */
+export type MatchBand = 'auto-correlate' | 'review' | 'reject'
+
 export type FusionMatch = {
     fusionIdentity: FusionAccount
     scores: ScoreReport[]
+    band?: MatchBand
+    /**
+     * Why the match fell in its band
+     */
+    bandReason?: string
+}
+
+/**
+ * Accounts of the same run that match each other. Every member matched the root,
+ * so the match's fusionIdentity is the root.
+ */
+export type FusionAccountCluster = {
+    root: FusionAccount
+    members: { fusionAccount: FusionAccount; match: FusionMatch }[]
+}
+
+/**
+ * Fusion identity that matches another, earlier fusion identity.
+ * The match's fusionIdentity is the earlier identity.
+ */
+export type IdentityDuplicate = {
+    fusionIdentity: FusionAccount
+    match: FusionMatch
+}
+
+/**
+ * How clusters of potential duplicates are formed from pairwise matches:
+ * single joins anything connected by a match, complete requires every pair to match,
+ * average requires the average pair score to reach a threshold.
+ */
+export type ClusterLinkage = 'single' | 'average' | 'complete'
+
+/**
+ * Pairwise match between an account and an identity, or between two accounts.
+ * The score is the overall score of the pair on the 0-100 scale.
+ */
+export type ClusterEdge = {
+    source: FusionAccount
+    target: FusionAccount
+    score: number
+}
+
+/**
+ * Accounts and identities that are all plausible duplicates of each other, with the matches that joined them
+ */
+export type DuplicateCluster = {
+    accounts: FusionAccount[]
+    identities: FusionAccount[]
+    edges: ClusterEdge[]
+}
+
+export type BlockingStats = {
+    indexedIdentities: number
+    blockingKeys: number
+    accountsScored: number
+    comparisons: number
+    skippedComparisons: number
+}
+
+/**
+ * Attribute score counts over replayed decisions in 10-point buckets (0-9, 10-19, ... 90-99, 100)
+ */
+export type AttributeScoreDistribution = {
+    attribute: string
+    algorithm?: string
+    matches: number[]
+    nonMatches: number[]
+    matchAverage?: number
+    nonMatchAverage?: number
+}
+
+/**
+ * Outcome of replaying reviewer decisions with a set of matching configurations.
+ * A false merge is an identity the configuration matches that the reviewer did not choose;
+ * a missed merge is the identity the reviewer chose that the configuration does not match.
+ */
+export type MatchingEvaluation = {
+    decisions: number
+    skippedDecisions: number
+    comparisons: number
+    truePositives: number
+    falseMerges: number
+    missedMerges: number
+    falseAutoCorrelations: number
+    precision?: number
+    recall?: number
+    distributions: AttributeScoreDistribution[]
+}
+
+/**
+ * Account-identity or identity-identity pair a reviewer found not to be duplicates
+ */
+export type SuppressedPair = {
+    ids: [string, string]
+    /** When the reviewer rejected the pair */
+    since: Date
+    /** When the pair is compared again, unset when the suppression does not expire */
+    expires?: Date
 }
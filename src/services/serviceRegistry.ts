@@ -10,7 +10,7 @@ import { SchemaService } from './schemaService'
 import { FormService } from './formService'
 import { AttributeService } from './attributeService'
 import { EntitlementService } from './entitlementService'
-import { ScoringService } from './scoringService'
+import { ScoringService, Scorer } from './scoringService'
 import { MessagingService } from './messagingService'
 
 export class ServiceRegistry {
@@ -41,6 +41,10 @@ export class ServiceRegistry {
         this.sources = context.sourceService ?? new SourceService(this.config, this.log, this.client)
         this.entitlements = context.entitlementService ?? new EntitlementService(this.log, this.sources)
         this.scoring = context.scoringService ?? new ScoringService(this.config, this.log)
+        // Register custom scorers supplied by a customizer: context.scorers = { name: scorer }
+        for (const [name, scorer] of Object.entries(context.scorers ?? {})) {
+            this.scoring.registerScorer(name, scorer as Scorer)
+        }
         this.identities = context.identityService ?? new IdentityService(this.config, this.log, this.client)
         this.messaging =
             context.messagingService ??
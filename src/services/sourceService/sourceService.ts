@@ -507,7 +507,7 @@ export class SourceService {
     /**
      * Fetch a single account by ID
      */
-    private async fetchAccountById(id: string): Promise<Account | undefined> {
+    public async fetchAccountById(id: string): Promise<Account | undefined> {
         const { accountsApi } = this.client
         const requestParameters: AccountsApiGetAccountRequest = {
             id,